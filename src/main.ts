@@ -14,6 +14,17 @@ import { NPCManager } from '@/systems/NPCManager';
 import { MemoryGenerator } from '@/systems/MemoryGenerator';
 import { ConversationManager } from '@/systems/ConversationManager';
 import { GachaSystem } from '@/systems/GachaSystem';
+import { FlavorUpgradeService } from '@/systems/FlavorUpgradeService';
+import { FusionLab } from '@/systems/FusionLab';
+import { OfflineProgress } from '@/systems/OfflineProgress';
+import { DayCycle } from '@/systems/DayCycle';
+import { OrderScheduler } from '@/systems/OrderScheduler';
+import { RandomService } from '@/systems/RandomService';
+import { OrderResolver } from '@/systems/OrderResolver';
+import { DEFAULT_FLAVOR_CATALOG } from '@/systems/FlavorCatalog';
+import { createDefaultSaveStorage, type SaveStorage } from '@/systems/SaveStorage';
+import type { NpcId } from '@/models/GameTypes';
+import type { OrderOutcome } from '@/systems/OrderGrading';
 import { ScreenManager } from '@/ui/ScreenManager';
 import { PersistentHeader } from '@/ui/PersistentHeader';
 import { MenuScreen } from '@/ui/screens/MenuScreen';
@@ -26,31 +37,71 @@ import { DMScreen } from '@/ui/screens/DMScreen';
 import { ConversationHistoryScreen } from '@/ui/screens/ConversationHistoryScreen';
 import { OrderResultsScreen } from '@/ui/screens/OrderResultsScreen';
 import { GachaScreen } from '@/ui/screens/GachaScreen';
+import { SettingsScreen } from '@/ui/screens/SettingsScreen';
+import { FusionLabScreen } from '@/ui/screens/FusionLabScreen';
 
 // Import styles
 import '@/styles/screens.css';
 
 class MeetCuteCafeGame {
+  private saveStorage: SaveStorage;
+  private random: RandomService;
   private eventSystem: EventSystem;
   private gameStateManager: GameStateManager;
   private assetManager: AssetManager;
+  private orderResolver: OrderResolver;
   private orderGenerator: OrderGenerator;
   private npcManager: NPCManager;
   private memoryGenerator: MemoryGenerator;
   private conversationManager: ConversationManager;
   private gachaSystem: GachaSystem;
+  private flavorUpgrades: FlavorUpgradeService;
+  private fusionLab: FusionLab;
+  private offlineProgress: OfflineProgress;
+  private dayCycle: DayCycle;
+  private orderScheduler: OrderScheduler;
   private screenManager: ScreenManager;
   private persistentHeader: PersistentHeader;
 
   constructor() {
+    this.saveStorage = createDefaultSaveStorage();
+    this.random = new RandomService();
     this.eventSystem = new EventSystem();
-    this.gameStateManager = new GameStateManager(this.eventSystem);
+    this.gameStateManager = new GameStateManager(this.eventSystem, this.saveStorage);
     this.assetManager = new AssetManager(this.eventSystem);
-    this.orderGenerator = new OrderGenerator(this.eventSystem);
+    // NPC favorites come from the NPC manager created below
+    this.orderResolver = new OrderResolver(
+      this.gameStateManager,
+      flavorId => DEFAULT_FLAVOR_CATALOG.get(flavorId),
+      npcId => this.npcManager.getNPC(npcId as NpcId)?.personality.favoriteAffinities ?? []
+    );
+    this.orderGenerator = new OrderGenerator(
+      this.eventSystem,
+      undefined,
+      this.random,
+      this.orderResolver,
+      this.gameStateManager
+    );
     this.npcManager = new NPCManager(this.eventSystem, this.gameStateManager);
-    this.memoryGenerator = new MemoryGenerator(this.eventSystem, this.gameStateManager, this.npcManager);
-    this.conversationManager = new ConversationManager(this.eventSystem, this.gameStateManager, this.npcManager);
-    this.gachaSystem = new GachaSystem(this.eventSystem, this.gameStateManager);
+    this.memoryGenerator = new MemoryGenerator(this.eventSystem, this.gameStateManager, this.npcManager, this.random);
+    this.conversationManager = new ConversationManager(this.eventSystem, this.gameStateManager, this.npcManager, this.random);
+    this.flavorUpgrades = new FlavorUpgradeService(this.eventSystem, this.gameStateManager);
+    this.gachaSystem = new GachaSystem(
+      this.eventSystem,
+      this.gameStateManager,
+      this.random,
+      DEFAULT_FLAVOR_CATALOG,
+      this.flavorUpgrades
+    );
+    this.fusionLab = new FusionLab(this.eventSystem, this.gameStateManager);
+    this.offlineProgress = new OfflineProgress(
+      this.eventSystem,
+      this.gameStateManager,
+      this.orderGenerator,
+      this.conversationManager
+    );
+    this.dayCycle = new DayCycle(this.eventSystem, this.gameStateManager, this.orderGenerator, this.random);
+    this.orderScheduler = new OrderScheduler(this.eventSystem, this.orderGenerator);
     // ScreenManager and PersistentHeader will be initialized after UI setup
     this.screenManager = null as any; // Temporary
     this.persistentHeader = null as any; // Temporary
@@ -74,9 +125,16 @@ class MeetCuteCafeGame {
       console.log('✅ Assets preloaded');
 
       // Load or create player data
-      await this.gameStateManager.loadGame();
+      // Owned flavors are checked against the flavor catalog when the save is validated
+      this.gameStateManager.setKnownFlavorIds(DEFAULT_FLAVOR_CATALOG.getFlavorIds());
+      const player = await this.gameStateManager.loadGame();
       console.log('✅ Game state loaded');
 
+      // Only the order board replays from the day's seed; gacha, dialogue and memory rolls
+      // keep their per-session seed so reloading can't replay them
+      this.random.reseedStream('orders', player.dailySeed);
+      console.log(`🎲 Order seed: ${player.dailySeed}`);
+
       // Initialize UI first
       this.initializeUI();
       
@@ -99,7 +157,7 @@ class MeetCuteCafeGame {
     this.npcManager.loadFromGameState();
     console.log('✅ NPC Manager initialized');
 
-    // Load conversation data
+    // Conversations come with the player save
     this.conversationManager.loadConversations();
     console.log('✅ Conversation Manager initialized');
 
@@ -107,6 +165,18 @@ class MeetCuteCafeGame {
     this.orderGenerator.start();
     console.log('✅ Order Generator started');
 
+    // A new day since the last session gets a fresh board before catching up on it
+    this.dayCycle.start();
+    console.log('✅ Day cycle started');
+
+    // Expire, generate and deliver whatever piled up while the game was closed
+    this.offlineProgress.catchUp();
+    console.log('✅ Offline progress applied');
+
+    // From here on the board ages, expires and refills in real time
+    this.orderScheduler.start();
+    console.log('✅ Order scheduler started');
+
       // Start with menu screen
       this.screenManager.navigateTo('menu');
 
@@ -143,56 +213,23 @@ class MeetCuteCafeGame {
     // Handle order completion by showing results screen
     this.eventSystem.on('order:completed', (data) => {
       const order = data.order as any;
-      this.showOrderResults(order);
+      // A batch shows one combined results screen, so only its memories are written here
+      if (data.batch) {
+        this.memoryGenerator.generateRewardMemory(order);
+        return;
+      }
+      this.showOrderResults(order, data.outcome);
     });
   }
 
-  private showOrderResults(order: any): void {
+  private showOrderResults(order: any, outcome?: OrderOutcome): void {
     console.log('📋 Showing order results for:', order);
-    
-    // Prepare results data
-    const resultsData: any = {
-      orderId: order.orderId,
-      rewards: order.rewards,
-      npcId: order.npcId,
-      orderType: order.kind,
-      customerType: order.customerType
-    };
-
-    // Generate memory for NPC orders
-    if (order.kind === 'NPC' && order.npcId && order.rewards.memory) {
-      console.log('🧠 NPC order detected, generating memory...');
-      // Request memory generation
-      this.eventSystem.emit('memory:generate_from_order', {
-        npcId: order.npcId,
-        orderId: order.orderId
-      });
-
-      // Listen for the memory creation to get the memory ID (once)
-      this.eventSystem.once('memory:created', (memoryData: any) => {
-        console.log('💕 Memory created event received:', memoryData);
-        const memory = memoryData.memory as any;
-        console.log('🔍 Memory orderId:', memory?.orderId, 'vs Order orderId:', order.orderId);
-        
-        // Always set the memory ID if we have a memory
-        if (memory) {
-          resultsData.memoryId = memory.id;
-          if (memory.orderId === order.orderId) {
-            console.log('✅ Memory matches order, navigating to results screen');
-          } else {
-            console.log('⚠️ Memory does not match order, but including it anyway');
-            console.log('⚠️ Memory object:', memory);
-            console.log('⚠️ Expected orderId:', order.orderId);
-          }
-        }
-        
-        this.screenManager.navigateTo('order-results', resultsData as any);
-      });
-    } else {
-      console.log('📄 Regular order or no memory, showing results immediately');
-      // No memory, show results immediately
-      this.screenManager.navigateTo('order-results', resultsData as any);
-    }
+    const memory = this.memoryGenerator.generateRewardMemory(order);
+    this.screenManager.navigateTo('order-results', {
+      order,
+      outcome,
+      newMemoryId: memory?.id // Only for NPC orders
+    } as any);
   }
 
   private initializeUI(): void {
@@ -228,14 +265,27 @@ class MeetCuteCafeGame {
     // Create and register screens
     const menuScreen = new MenuScreen(this.eventSystem, this.gameStateManager);
     const cafeHubScreen = new CafeHubScreen(this.eventSystem, this.gameStateManager, this.assetManager);
-    const ordersScreen = new OrdersScreen(this.eventSystem, this.gameStateManager, this.assetManager, this.orderGenerator);
-    const flavorCollectionScreen = new FlavorCollectionScreen(this.eventSystem, this.gameStateManager, this.assetManager);
+    const ordersScreen = new OrdersScreen(
+      this.eventSystem,
+      this.gameStateManager,
+      this.assetManager,
+      this.orderGenerator,
+      this.orderResolver
+    );
+    const flavorCollectionScreen = new FlavorCollectionScreen(
+      this.eventSystem,
+      this.gameStateManager,
+      this.assetManager,
+      this.flavorUpgrades
+    );
     const journalScreen = new JournalScreen(this.eventSystem, this.gameStateManager);
     const memoryDetailScreen = new MemoryDetailScreen(this.eventSystem, this.gameStateManager);
     const dmScreen = new DMScreen(this.eventSystem, this.gameStateManager);
     const conversationHistoryScreen = new ConversationHistoryScreen(this.eventSystem, this.gameStateManager);
     const orderResultsScreen = new OrderResultsScreen(this.eventSystem, this.gameStateManager);
     const gachaScreen = new GachaScreen(this.eventSystem, this.gameStateManager, this.assetManager, this.gachaSystem);
+    const settingsScreen = new SettingsScreen(this.eventSystem, this.gameStateManager);
+    const fusionLabScreen = new FusionLabScreen(this.eventSystem, this.gameStateManager, this.fusionLab);
 
     this.screenManager.registerScreen(menuScreen);
     this.screenManager.registerScreen(cafeHubScreen);
@@ -247,6 +297,8 @@ class MeetCuteCafeGame {
     this.screenManager.registerScreen(conversationHistoryScreen);
     this.screenManager.registerScreen(orderResultsScreen);
     this.screenManager.registerScreen(gachaScreen);
+    this.screenManager.registerScreen(settingsScreen);
+    this.screenManager.registerScreen(fusionLabScreen);
   }
 
 
@@ -254,26 +306,40 @@ class MeetCuteCafeGame {
    * Get game systems (for testing)
    */
   getSystems(): {
+    random: RandomService;
     eventSystem: EventSystem;
     gameStateManager: GameStateManager;
     assetManager: AssetManager;
     orderGenerator: OrderGenerator;
+    orderResolver: OrderResolver;
     npcManager: NPCManager;
     memoryGenerator: MemoryGenerator;
     conversationManager: ConversationManager;
     gachaSystem: GachaSystem;
+    flavorUpgrades: FlavorUpgradeService;
+    fusionLab: FusionLab;
+    offlineProgress: OfflineProgress;
+    dayCycle: DayCycle;
+    orderScheduler: OrderScheduler;
     screenManager: ScreenManager;
     persistentHeader: PersistentHeader;
   } {
     return {
+      random: this.random,
       eventSystem: this.eventSystem,
       gameStateManager: this.gameStateManager,
       assetManager: this.assetManager,
       orderGenerator: this.orderGenerator,
+      orderResolver: this.orderResolver,
       npcManager: this.npcManager,
       memoryGenerator: this.memoryGenerator,
       conversationManager: this.conversationManager,
       gachaSystem: this.gachaSystem,
+      flavorUpgrades: this.flavorUpgrades,
+      fusionLab: this.fusionLab,
+      offlineProgress: this.offlineProgress,
+      dayCycle: this.dayCycle,
+      orderScheduler: this.orderScheduler,
       screenManager: this.screenManager,
       persistentHeader: this.persistentHeader,
     };
@@ -289,6 +355,8 @@ class MeetCuteCafeGame {
     if (this.persistentHeader) {
       this.persistentHeader.destroy();
     }
+    this.dayCycle.destroy();
+    this.orderScheduler.destroy();
     this.orderGenerator.destroy();
     this.gameStateManager.destroy();
     this.eventSystem.clear();
@@ -28,10 +28,15 @@ export interface Player {
   tokens: number;
   flavors: PlayerFlavor[];
   journal: JournalIndex;
+  memories: Record<string, MemoryRecord>;
+  conversations: Partial<Record<NpcId, Conversation>>;
   npc: Record<NpcId, PlayerNpc>;
   dailySeed: string;
   orderBoard: OrderBoardState;
+  orderStreak: OrderStreak;
+  customerReputation: Record<string, number>; // Per customer archetype
   bannersSeen: string[];
+  discoveredRecipes: string[]; // Flavor Lab recipes the player has found
   pity: Record<BannerId, number>;
   settings: PlayerSettings;
   pendingActions: PendingAction[];
@@ -43,9 +48,12 @@ export interface FlavorDef {
   name: string;
   affinity: Affinity;
   rarity: Rarity;
-  artKeyframeId: string;
-  loreTag?: string;
   basePower: number;
+  description: string;
+  npcId: NpcId; // Primary NPC for this story moment
+  storyTagline: string; // Reader-insert story tagline
+  previewAsset?: string; // Preview image/video path
+  secondaryAffinity?: Affinity; // Hybrids crafted in the Flavor Lab also count as this affinity
 }
 
 export interface PlayerFlavor {
@@ -54,12 +62,28 @@ export interface PlayerFlavor {
   acquiredAt: number;
   favorite?: boolean;
   cosmetics?: string[];
+  ascension?: number; // Stars gained by limit breaking; each lifts the level cap and power
+  duplicates?: number; // Duplicate pulls kept toward the next star
 }
 
+export type ConsumableId = keyof Player['consumables'];
+export type ConsumableAmounts = Partial<Record<ConsumableId, number>>;
+
 export interface FlavorUpgradeRule {
-  level: number;
+  level: number; // Level the flavor is upgraded from
   coins: number;
-  consumables: Partial<Record<'sugar' | 'coffee' | 'mint' | 'pepper' | 'salt', number>>;
+  consumables: ConsumableAmounts;
+}
+
+export type UpgradeCost = Omit<FlavorUpgradeRule, 'level'>;
+
+// Flavor Lab: owned flavors of these affinities plus the cost combine into a new flavor
+export interface FusionRecipe {
+  recipeId: string;
+  ingredients: Affinity[]; // Two or more, in any order
+  cost: UpgradeCost;
+  resultFlavorId: string;
+  hint: string; // Shown in the recipe book before the recipe is discovered
 }
 
 // Order system
@@ -75,6 +99,7 @@ export interface OrderRewards {
   coins: number;
   diamonds?: number;
   memoryCandidate?: boolean;
+  memory?: boolean; // NPC orders pay out a memory when completed
 }
 
 export interface OrderBase {
@@ -85,8 +110,11 @@ export interface OrderBase {
   requirements: OrderRequirements;
   rewards: OrderRewards;
   npcId?: NpcId;
+  chain?: OrderChainRef; // NPC orders dealt from an order chain
+  difficulty?: OrderDifficulty; // Customer orders only
   status: 'available' | 'submitted' | 'completed' | 'expired';
   customerType?: string; // For customer orders
+  archetypeId?: string; // Customer archetype the order came from
   urgency?: 'low' | 'medium' | 'high'; // For customer orders
 }
 
@@ -94,6 +122,31 @@ export interface OrderBoardState {
   day: string;
   customerOrders: OrderBase[];
   npcOrders: OrderBase[];
+  usedFlavorIds: string[]; // Flavors already served today
+}
+
+// Customer archetypes (src/data/customers.json)
+export interface CustomerVariant {
+  name: string;
+  minReputation: number; // Reputation with the archetype before this variant visits
+  coinMultiplier: number;
+}
+
+export interface CustomerArchetypeDef {
+  archetypeId: string;
+  avatar: string;
+  weight: number; // Relative chance of walking in
+  preferredAffinities: Affinity[];
+  preferenceChancePct: number; // Chance each slot asks for a preferred affinity
+  patienceHours: [number, number]; // Expiry window
+  tipping: { chancePct: number; coinPct: number };
+  variants: CustomerVariant[]; // Ascending by minReputation, the first at 0
+}
+
+// Consecutive customer orders completed without one expiring
+export interface OrderStreak {
+  current: number;
+  best: number;
 }
 
 // Memory and Journal system
@@ -120,6 +173,24 @@ export interface Memory {
   unread: boolean;
 }
 
+// Full memory record behind a journal entry (keyed by memoryId)
+export interface MemoryRecord {
+  id: string;
+  content: string; // Short snippet
+  extendedStory?: string; // Longer narrative
+  imageUrl?: string;
+  taggedNPCs: NpcId[];
+  taggedPets: string[];
+  mood: string;
+  location: string;
+  timestamp: number;
+  isPublished: boolean;
+  viewed: boolean;
+  favorited: boolean;
+  rarity?: 'common' | 'rare' | 'epic';
+  orderId?: string; // Link to the order that generated this memory
+}
+
 export interface JournalIndex {
   entries: Memory[];
   filters?: {
@@ -130,6 +201,29 @@ export interface JournalIndex {
   };
 }
 
+// DM conversations
+export interface DMMessage {
+  id: string;
+  senderId: 'player' | NpcId;
+  content: string;
+  timestamp: number;
+  read: boolean;
+}
+
+export interface Conversation {
+  npcId: NpcId;
+  messages: DMMessage[];
+  lastMessageAt: number;
+  unreadCount: number;
+}
+
+// An NPC reply waiting to land in a conversation, kept as a pending action so it survives a closed tab
+export interface QueuedNpcMessage {
+  npcId: NpcId;
+  content: string;
+  deliverAt: number;
+}
+
 // NPC system
 export interface NpcDef {
   npcId: NpcId;
@@ -149,6 +243,38 @@ export interface PlayerNpc {
   unreadDmCount: number;
   callAvailable: boolean;
   scenesSeen: string[];
+  chainProgress: Record<string, number>; // Steps completed per order chain
+}
+
+// Authored NPC order chains (src/data/orderChains.json)
+export interface OrderChainStep {
+  title: string;
+  message: string; // What the NPC says on the order card
+  slots: OrderRequirements['slots'];
+  rewards: { coins: number; diamonds?: number };
+}
+
+export interface OrderChainMemory {
+  content: string;
+  extendedStory: string;
+  mood: string;
+  location: string;
+}
+
+export interface OrderChainDef {
+  chainId: string;
+  npcId: NpcId;
+  title: string;
+  requiredBondLevel: number;
+  steps: OrderChainStep[];
+  finaleMemory: OrderChainMemory; // Granted for the last step
+}
+
+// Which chain step an NPC order belongs to
+export interface OrderChainRef {
+  chainId: string;
+  step: number; // Zero-based
+  totalSteps: number;
 }
 
 // Gacha system
@@ -175,11 +301,49 @@ export interface GachaResult {
     flavorId: string;
     rarity: Rarity;
     isDuplicate: boolean;
+    keptForAscension?: boolean; // Duplicate held on the flavor instead of converted
   }>;
   tokensGained: number;
 }
 
 // Economy
+export type OrderDifficulty = 'Easy' | 'Medium' | 'Hard';
+
+export interface CustomerOrderBand {
+  weightPct: number; // Share of customer orders dealt in this band
+  slots: number;
+  minLevel: number; // Level floor for every slot
+  coinSpread: number; // Extra coins rolled on top of the band's coinRewards entry
+  diamondRange?: [number, number]; // Streak-scaled diamond drop, inclusive
+}
+
+export interface OrderGenerationTables {
+  customerBands: Record<OrderDifficulty, CustomerOrderBand>;
+  stretchChancePct: number; // Chance one slot asks a level above the band's floor
+  npc: {
+    minSlots: number;
+    maxSlots: number;
+    minLevel: number;
+    coinSpread: number;
+    diamondSpread: number;
+  };
+}
+
+// Consumables dropped by finished orders, drawn from the affinities each slot asked for
+export interface ConsumableDropTables {
+  amountPerSlot: [number, number]; // Inclusive range rolled for every slot
+  offAffinityChancePct: number; // Chance a slot drops a random consumable instead of its own
+  tierBonusPct: Record<'Good' | 'Great' | 'Perfect', number>; // Extra share of each slot's drop
+}
+
+// Limit breaking flavors with duplicate pulls
+export interface AscensionTables {
+  maxStars: number;
+  duplicatesPerStar: number[]; // Duplicates needed for each star, in order; missing ones are bought at duplicateTokens
+  levelCapPerStar: number;
+  powerBonusPerStar: number; // Share of base power each star adds
+}
+
 export interface EconomyTables {
   coinRewards: {
     customerEasy: number;
@@ -192,6 +356,11 @@ export interface EconomyTables {
     customerChancePctByStreak: number[];
   };
   upgradeCosts: Record<number, FlavorUpgradeRule>;
+  levelCaps: Record<Rarity, number>; // Highest level a flavor of each rarity can reach
+  duplicateTokens: Record<Rarity, number>; // What a duplicate pull is worth: paid out when converted, charged when one is missing at ascension
+  consumableDrops: ConsumableDropTables;
+  ascension: AscensionTables;
+  orderGeneration: OrderGenerationTables;
   tokenShop?: Array<{
     id: string;
     cost: number;
@@ -205,7 +374,7 @@ export interface EconomyTables {
 // State management
 export interface PendingAction {
   id: string;
-  kind: 'orderSubmit' | 'memoryView' | 'gachaPull' | 'flavorUpgrade';
+  kind: 'orderSubmit' | 'memoryView' | 'gachaPull' | 'flavorUpgrade' | 'npcMessage';
   payload: unknown;
   createdAt: number;
 }
@@ -215,6 +384,7 @@ export interface PlayerSettings {
   music: number;
   tts: boolean;
   notifications: boolean;
+  duplicatePulls: 'convert' | 'keep'; // Turn duplicate pulls into tokens, or keep them for ascension
   locale: 'en';
 }
 
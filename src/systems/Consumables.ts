@@ -0,0 +1,62 @@
+/**
+ * Consumables - Upgrade ingredients and what finished orders leave behind
+ * Each slot drops the consumable of the affinity it asked for, so orders feed the flavors they used
+ */
+
+import { AFFINITY_CONSUMABLE, CONSUMABLES } from './EconomyConfig';
+import type { OutcomeTier } from './OrderGrading';
+import type { ConsumableAmounts, ConsumableDropTables, ConsumableId, OrderBase } from '@/models/GameTypes';
+
+export const CONSUMABLE_EMOJI: Record<ConsumableId, string> = {
+  sugar: '🍬',
+  coffee: '☕',
+  mint: '🍃',
+  pepper: '🌶️',
+  salt: '🧂',
+};
+
+/**
+ * Consumables in a bundle, in the standard order, skipping empty ones
+ */
+export function listConsumables(amounts: ConsumableAmounts): Array<[ConsumableId, number]> {
+  return CONSUMABLES.filter(consumable => (amounts[consumable] ?? 0) > 0).map(consumable => [consumable, amounts[consumable]!]);
+}
+
+/**
+ * Add one bundle to another, e.g. to total a batch of orders
+ */
+export function sumConsumables(bundles: Array<ConsumableAmounts | undefined>): ConsumableAmounts {
+  const total: ConsumableAmounts = {};
+  bundles.forEach(bundle => {
+    listConsumables(bundle ?? {}).forEach(([consumable, amount]) => {
+      total[consumable] = (total[consumable] ?? 0) + amount;
+    });
+  });
+  return total;
+}
+
+/**
+ * Roll an order's drops; better service adds a share on top of every slot
+ */
+export function rollConsumableDrops(
+  order: OrderBase,
+  tier: OutcomeTier,
+  tables: ConsumableDropTables,
+  roll: () => number
+): ConsumableAmounts {
+  const [min, max] = tables.amountPerSlot;
+  const drops: ConsumableAmounts = {};
+
+  for (const slot of order.requirements.slots) {
+    const base = min + Math.floor(roll() * (max - min + 1));
+    const amount = base + Math.floor((base * tables.tierBonusPct[tier]) / 100);
+    if (amount <= 0) continue;
+
+    const consumable = roll() * 100 < tables.offAffinityChancePct
+      ? CONSUMABLES[Math.floor(roll() * CONSUMABLES.length)]!
+      : AFFINITY_CONSUMABLE[slot.affinity];
+    drops[consumable] = (drops[consumable] ?? 0) + amount;
+  }
+
+  return drops;
+}
@@ -6,22 +6,10 @@
 import { EventSystem } from './EventSystem';
 import { GameStateManager } from './GameStateManager';
 import { NPCManager } from './NPCManager';
-import { NpcId } from '@/models/GameTypes';
+import { RandomService, type RandomStream } from './RandomService';
+import type { NpcId, DMMessage, Conversation, PendingAction, QueuedNpcMessage } from '@/models/GameTypes';
 
-export interface DMMessage {
-  id: string;
-  senderId: 'player' | NpcId;
-  content: string;
-  timestamp: number;
-  read: boolean;
-}
-
-export interface Conversation {
-  npcId: NpcId;
-  messages: DMMessage[];
-  lastMessageAt: number;
-  unreadCount: number;
-}
+export type { DMMessage, Conversation };
 
 export interface ResponseOption {
   id: string;
@@ -32,9 +20,10 @@ export interface ResponseOption {
 
 export class ConversationManager {
   private eventSystem: EventSystem;
+  private gameState: GameStateManager;
   private npcManager: NPCManager;
-  private conversations: Map<NpcId, Conversation> = new Map();
   private messageIdCounter = 1;
+  private rng: RandomStream;
 
   // Pre-written response patterns based on bond level
   private responseTemplates: Record<NpcId, Record<number, string[]>> = {
@@ -132,23 +121,41 @@ export class ConversationManager {
     { id: 'excited', text: "This is so exciting! ✨", requiredBondLevel: 1 }
   ];
 
-  constructor(eventSystem: EventSystem, _gameState: GameStateManager, npcManager: NPCManager) {
+  constructor(
+    eventSystem: EventSystem,
+    gameState: GameStateManager,
+    npcManager: NPCManager,
+    random: RandomService = new RandomService()
+  ) {
     this.eventSystem = eventSystem;
+    this.gameState = gameState;
     this.npcManager = npcManager;
-    this.initializeConversations();
+    this.rng = random.stream('dialogue');
     this.setupEventListeners();
   }
 
+  /**
+   * Conversations live on the player save so they share its lifecycle
+   */
+  private get conversations(): Partial<Record<NpcId, Conversation>> {
+    const player = this.gameState.getPlayer();
+    if (!player.conversations) {
+      player.conversations = {};
+    }
+    return player.conversations;
+  }
+
   private initializeConversations(): void {
+    const conversations = this.conversations;
     const npcs = this.npcManager.getAllNPCs();
     npcs.forEach(npc => {
-      if (!this.conversations.has(npc.id)) {
-        this.conversations.set(npc.id, {
+      if (!conversations[npc.id]) {
+        conversations[npc.id] = {
           npcId: npc.id,
           messages: [],
           lastMessageAt: 0,
           unreadCount: 0
-        });
+        };
       }
     });
   }
@@ -160,9 +167,12 @@ export class ConversationManager {
       const newLevel = data.newLevel as number;
       
       // Send a special message for reaching new bond levels
-      setTimeout(() => {
-        this.sendNPCMessage(npcId, this.getBondLevelUpMessage(npcId, newLevel));
-      }, 2000); // Delay to make it feel natural
+      this.queueNPCMessage(npcId, this.getBondLevelUpMessage(npcId, newLevel), 2000); // Delay to make it feel natural
+    });
+
+    // A reset wipes the player save, conversations included - greet the new player
+    this.eventSystem.on('game:reset', () => {
+      this.loadConversations();
     });
   }
 
@@ -198,7 +208,7 @@ export class ConversationManager {
       return;
     }
 
-    const conversation = this.conversations.get(npcId);
+    const conversation = this.conversations[npcId];
     if (!conversation) return;
 
     const message: DMMessage = {
@@ -216,34 +226,96 @@ export class ConversationManager {
     this.eventSystem.emit('dm:sent', { npcId, message: content });
 
     // Generate NPC response after a short delay
-    setTimeout(() => {
-      this.generateNPCResponse(npcId);
-    }, 1000 + Math.random() * 2000); // 1-3 second delay
+    this.generateNPCResponse(npcId, 1000 + this.rng.next() * 2000); // 1-3 second delay
 
     this.saveConversations();
   }
 
-  private sendNPCMessage(npcId: NpcId, content: string): void {
-    const conversation = this.conversations.get(npcId);
-    if (!conversation) return;
+  private sendNPCMessage(npcId: NpcId, content: string, timestamp = Date.now()): DMMessage | null {
+    const conversation = this.conversations[npcId];
+    if (!conversation) return null;
 
     const message: DMMessage = {
       id: `msg_${this.messageIdCounter++}`,
       senderId: npcId,
       content,
-      timestamp: Date.now(),
+      timestamp,
       read: false // NPC messages start unread
     };
 
     conversation.messages.push(message);
-    conversation.lastMessageAt = message.timestamp;
+    conversation.lastMessageAt = Math.max(conversation.lastMessageAt, message.timestamp);
     conversation.unreadCount++;
 
     this.eventSystem.emit('dm:received', { npcId, message: content });
     this.saveConversations();
+    return message;
+  }
+
+  /**
+   * Queue an NPC message on the save so it still arrives if the tab closes first
+   */
+  private queueNPCMessage(npcId: NpcId, content: string, delayMs: number): void {
+    const now = Date.now();
+    const queued: QueuedNpcMessage = { npcId, content, deliverAt: now + delayMs };
+
+    this.gameState.getPlayer().pendingActions.push({
+      id: `dm_${npcId}_${now}_${this.rng.next().toString(36).slice(2, 8)}`,
+      kind: 'npcMessage',
+      payload: queued,
+      createdAt: now
+    });
+    this.saveConversations();
+
+    setTimeout(() => {
+      this.deliverQueuedMessages();
+    }, delayMs);
+  }
+
+  /**
+   * Deliver every queued NPC message that is due, oldest first
+   */
+  deliverQueuedMessages(now = Date.now()): DMMessage[] {
+    const player = this.gameState.getPlayer();
+    const due: QueuedNpcMessage[] = [];
+    const queuedCount = player.pendingActions.length;
+
+    player.pendingActions = player.pendingActions.filter(action => {
+      if (action.kind !== 'npcMessage') return true;
+      const queued = this.readQueuedMessage(action);
+      if (!queued) return false; // Drop anything we can't deliver
+      if (queued.deliverAt > now) return true;
+      due.push(queued);
+      return false;
+    });
+
+    const delivered = due
+      .sort((a, b) => a.deliverAt - b.deliverAt)
+      .map(queued => this.sendNPCMessage(queued.npcId, queued.content, queued.deliverAt))
+      .filter((message): message is DMMessage => message !== null);
+
+    if (player.pendingActions.length !== queuedCount && delivered.length === 0) {
+      // Nothing was sent, so nothing saved the trimmed queue
+      this.saveConversations();
+    }
+    return delivered;
+  }
+
+  private readQueuedMessage(action: PendingAction): QueuedNpcMessage | null {
+    const payload = action.payload as Partial<QueuedNpcMessage> | null;
+    if (
+      !payload ||
+      typeof payload.content !== 'string' ||
+      typeof payload.deliverAt !== 'number' ||
+      !payload.npcId ||
+      !this.conversations[payload.npcId]
+    ) {
+      return null;
+    }
+    return payload as QueuedNpcMessage;
   }
 
-  private generateNPCResponse(npcId: NpcId): void {
+  private generateNPCResponse(npcId: NpcId, delayMs: number): void {
     const npc = this.npcManager.getNPC(npcId);
     if (!npc) return;
 
@@ -252,24 +324,24 @@ export class ConversationManager {
     
     if (templates.length === 0) return;
 
-    const response = templates[Math.floor(Math.random() * templates.length)];
+    const response = templates[Math.floor(this.rng.next() * templates.length)];
     if (response) {
-      this.sendNPCMessage(npcId, response);
+      this.queueNPCMessage(npcId, response, delayMs);
     }
   }
 
   getConversation(npcId: NpcId): Conversation | undefined {
-    return this.conversations.get(npcId);
+    return this.conversations[npcId];
   }
 
   getAllConversations(): Conversation[] {
-    return Array.from(this.conversations.values())
-      .filter(conv => conv.messages.length > 0)
+    return Object.values(this.conversations)
+      .filter((conv): conv is Conversation => !!conv && conv.messages.length > 0)
       .sort((a, b) => b.lastMessageAt - a.lastMessageAt);
   }
 
   markConversationAsRead(npcId: NpcId): void {
-    const conversation = this.conversations.get(npcId);
+    const conversation = this.conversations[npcId];
     if (!conversation) return;
 
     conversation.messages.forEach(msg => {
@@ -292,41 +364,36 @@ export class ConversationManager {
   }
 
   getTotalUnreadCount(): number {
-    return Array.from(this.conversations.values())
-      .reduce((total, conv) => total + conv.unreadCount, 0);
+    return Object.values(this.conversations)
+      .reduce((total, conv) => total + (conv?.unreadCount ?? 0), 0);
   }
 
   private saveConversations(): void {
-    // Save to localStorage for now (could be integrated with GameStateManager later)
-    const conversationsData = Array.from(this.conversations.entries());
-    localStorage.setItem('meet_cute_cafe_conversations', JSON.stringify(conversationsData));
+    this.gameState.saveGame();
   }
 
+  /**
+   * Pick up conversations from the loaded player save
+   */
   loadConversations(): void {
-    try {
-      const stored = localStorage.getItem('meet_cute_cafe_conversations');
-      if (stored) {
-        const conversationsData = JSON.parse(stored);
-        this.conversations = new Map(conversationsData);
-        
-        // Update message ID counter to avoid conflicts
-        let maxId = 0;
-        this.conversations.forEach(conv => {
-          conv.messages.forEach(msg => {
-            const idNum = parseInt(msg.id.replace('msg_', ''));
-            if (idNum > maxId) maxId = idNum;
-          });
-        });
-        this.messageIdCounter = maxId + 1;
-      } else {
-        // Generate starter conversations for new players
-        this.generateStarterConversations();
-      }
-    } catch (error) {
-      console.warn('Failed to load conversations:', error);
-      // Generate starter conversations as fallback
+    this.initializeConversations();
+
+    const conversations = Object.values(this.conversations);
+    if (conversations.every(conv => !conv || conv.messages.length === 0)) {
+      // Generate starter conversations for new players
       this.generateStarterConversations();
+      return;
     }
+
+    // Update message ID counter to avoid conflicts
+    let maxId = 0;
+    conversations.forEach(conv => {
+      conv?.messages.forEach(msg => {
+        const idNum = parseInt(msg.id.replace('msg_', ''));
+        if (idNum > maxId) maxId = idNum;
+      });
+    });
+    this.messageIdCounter = maxId + 1;
   }
 
   /**
@@ -348,14 +415,14 @@ export class ConversationManager {
           id: `msg_${this.messageIdCounter++}`,
           senderId: npcId,
           content: starterMessages[npcId],
-          timestamp: Date.now() - (Math.random() * 60000), // Random time within last minute
+          timestamp: Date.now() - (this.rng.next() * 60000), // Random time within last minute
           read: false
         }],
         lastMessageAt: Date.now(),
         unreadCount: 1
       };
       
-      this.conversations.set(npcId, conversation);
+      this.conversations[npcId] = conversation;
     });
 
     this.saveConversations();
@@ -366,8 +433,8 @@ export class ConversationManager {
    * Clear all conversations (for testing)
    */
   clearAllConversations(): void {
-    this.conversations.clear();
-    localStorage.removeItem('meet_cute_cafe_conversations');
+    this.gameState.getPlayer().conversations = {};
+    this.saveConversations();
     console.log('🧹 Cleared all conversations');
   }
 
@@ -0,0 +1,83 @@
+/**
+ * Customer archetypes - Who walks up to the counter, from src/data/customers.json
+ * Archetypes shape an order's flavors, patience and tips; reputation with each unlocks better-paying variants
+ */
+
+import customerData from '@/data/customers.json';
+import type { Affinity, CustomerArchetypeDef, CustomerVariant } from '@/models/GameTypes';
+import type { OutcomeTier } from './OrderGrading';
+
+const AFFINITIES: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
+
+/**
+ * Reputation earned per served order, by how well it went
+ */
+export const REPUTATION_GAIN: Record<OutcomeTier, number> = {
+  Good: 1,
+  Great: 2,
+  Perfect: 3,
+};
+
+/**
+ * Reputation lost when an archetype's order is left to expire
+ */
+export const REPUTATION_LOSS_ON_EXPIRY = 2;
+
+/**
+ * Check the archetype table; throws with the offending path like the economy tables do
+ */
+export function parseCustomerArchetypes(data: unknown): CustomerArchetypeDef[] {
+  const archetypes = (data as { archetypes?: CustomerArchetypeDef[] } | null)?.archetypes;
+  if (!Array.isArray(archetypes) || archetypes.length === 0) fail('archetypes', 'need at least one archetype');
+
+  const seen = new Set<string>();
+  archetypes.forEach((archetype, index) => {
+    const path = `archetypes[${index}]`;
+    if (typeof archetype?.archetypeId !== 'string' || archetype.archetypeId === '') fail(`${path}.archetypeId`, 'is missing');
+    if (seen.has(archetype.archetypeId)) fail(`${path}.archetypeId`, `"${archetype.archetypeId}" is used twice`);
+    seen.add(archetype.archetypeId);
+
+    if (!(archetype.weight > 0)) fail(`${path}.weight`, 'must be positive');
+    archetype.preferredAffinities.forEach(affinity => {
+      if (!AFFINITIES.includes(affinity)) fail(`${path}.preferredAffinities`, `"${affinity}" is not an affinity`);
+    });
+
+    const [minHours, maxHours] = archetype.patienceHours ?? [];
+    if (!(typeof minHours === 'number' && typeof maxHours === 'number' && minHours > 0 && minHours <= maxHours)) {
+      fail(`${path}.patienceHours`, 'must be [min, max] hours');
+    }
+
+    const variants = archetype.variants;
+    if (!Array.isArray(variants) || variants[0]?.minReputation !== 0) {
+      fail(`${path}.variants`, 'need a first variant at reputation 0');
+    }
+    variants.forEach((variant, variantIndex) => {
+      const previous = variants[variantIndex - 1];
+      if (previous && variant.minReputation < previous.minReputation) {
+        fail(`${path}.variants[${variantIndex}]`, 'must be in ascending reputation order');
+      }
+    });
+  });
+
+  return archetypes;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid customer archetypes: ${path} ${problem}`);
+}
+
+export const DEFAULT_CUSTOMER_ARCHETYPES: CustomerArchetypeDef[] = parseCustomerArchetypes(customerData);
+
+export function getCustomerArchetype(
+  archetypeId: string | undefined,
+  archetypes = DEFAULT_CUSTOMER_ARCHETYPES
+): CustomerArchetypeDef | undefined {
+  return archetypes.find(archetype => archetype.archetypeId === archetypeId);
+}
+
+/**
+ * Variants the player's reputation has earned, base variant first
+ */
+export function getUnlockedVariants(archetype: CustomerArchetypeDef, reputation: number): CustomerVariant[] {
+  return archetype.variants.filter(variant => reputation >= variant.minReputation);
+}
@@ -0,0 +1,76 @@
+/**
+ * DayCycle - Rolls the café over to a new day at local midnight
+ */
+
+import type { EventSystem } from './EventSystem';
+import type { GameStateManager } from './GameStateManager';
+import type { OrderGenerator } from './OrderGenerator';
+import { RandomService } from './RandomService';
+
+/**
+ * Local calendar day as YYYY-MM-DD
+ */
+export function getLocalDay(timestamp = Date.now()): string {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export class DayCycle {
+  private checkInterval: number | null = null;
+
+  constructor(
+    private eventSystem: EventSystem,
+    private gameState: GameStateManager,
+    private orderGenerator: OrderGenerator,
+    private random: RandomService = new RandomService(),
+    private checkIntervalMs = 60 * 1000
+  ) {}
+
+  /**
+   * Catch up on a day that turned while the game was closed, then keep watching the clock
+   */
+  start(): void {
+    if (this.checkInterval) return;
+
+    this.checkForRollover();
+    this.checkInterval = window.setInterval(() => {
+      this.checkForRollover();
+    }, this.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.checkInterval) {
+      window.clearInterval(this.checkInterval);
+      this.checkInterval = null;
+    }
+  }
+
+  /**
+   * Start a new day if the board still belongs to an earlier one
+   */
+  checkForRollover(now = Date.now()): boolean {
+    const player = this.gameState.getPlayer();
+    const today = getLocalDay(now);
+    const previousDay = player.orderBoard.day;
+    if (previousDay === today) return false;
+
+    this.gameState.startNewDay(now);
+    // The new board is drawn from the new seed, so the same day always deals the same orders
+    this.random.reseedStream('orders', this.gameState.getPlayer().dailySeed);
+    this.orderGenerator.rebuildBoard();
+
+    this.eventSystem.emit('day:rollover', {
+      previousDay,
+      day: today,
+      dailySeed: this.gameState.getPlayer().dailySeed,
+    });
+    console.log(`🌅 New day ${today} (was ${previousDay})`);
+    return true;
+  }
+
+  destroy(): void {
+    this.stop();
+  }
+}
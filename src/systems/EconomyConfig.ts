@@ -0,0 +1,111 @@
+/**
+ * Economy config - Balancing tables from src/data/economy.json
+ * Designers rebalance by editing the JSON; systems only read the parsed tables
+ */
+
+import economyData from '@/data/economy.json';
+import type { Affinity, ConsumableId, EconomyTables, OrderDifficulty, Rarity } from '@/models/GameTypes';
+
+export const ORDER_DIFFICULTIES: OrderDifficulty[] = ['Easy', 'Medium', 'Hard'];
+export const CONSUMABLES: ConsumableId[] = ['sugar', 'coffee', 'mint', 'pepper', 'salt'];
+
+/**
+ * The consumable each affinity is made from
+ */
+export const AFFINITY_CONSUMABLE: Record<Affinity, ConsumableId> = {
+  Sweet: 'sugar',
+  Bitter: 'coffee',
+  Fresh: 'mint',
+  Spicy: 'pepper',
+  Salty: 'salt',
+};
+const RARITIES: Rarity[] = ['3★', '4★', '5★'];
+
+/**
+ * Check the parts of the tables that order generation, drops and flavor upgrades rely on
+ * Throws with the offending path so a bad edit fails loudly at startup
+ */
+export function parseEconomyTables(data: unknown): EconomyTables {
+  const tables = data as EconomyTables;
+  const checkCount = (value: unknown, path: string, min = 0) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+      fail(path, `must be a number of at least ${min}`);
+    }
+  };
+
+  if (!tables || typeof tables !== 'object') fail('root', 'must be an object');
+  const generation = tables.orderGeneration;
+  if (!generation || typeof generation !== 'object') fail('orderGeneration', 'is missing');
+
+  let totalWeight = 0;
+  for (const difficulty of ORDER_DIFFICULTIES) {
+    const band = generation.customerBands?.[difficulty];
+    const path = `orderGeneration.customerBands.${difficulty}`;
+    if (!band) fail(path, 'is missing');
+    checkCount(band.weightPct, `${path}.weightPct`);
+    checkCount(band.slots, `${path}.slots`, 1);
+    checkCount(band.minLevel, `${path}.minLevel`, 1);
+    checkCount(band.coinSpread, `${path}.coinSpread`);
+    if (band.diamondRange && !(band.diamondRange.length === 2 && band.diamondRange[0] <= band.diamondRange[1])) {
+      fail(`${path}.diamondRange`, 'must be [min, max]');
+    }
+    totalWeight += band.weightPct;
+  }
+  if (totalWeight <= 0) fail('orderGeneration.customerBands', 'need a positive total weight');
+
+  checkCount(generation.stretchChancePct, 'orderGeneration.stretchChancePct');
+  checkCount(generation.npc?.minSlots, 'orderGeneration.npc.minSlots', 1);
+  checkCount(generation.npc?.maxSlots, 'orderGeneration.npc.maxSlots', generation.npc.minSlots);
+  checkCount(generation.npc.minLevel, 'orderGeneration.npc.minLevel', 1);
+  checkCount(generation.npc.coinSpread, 'orderGeneration.npc.coinSpread');
+  checkCount(generation.npc.diamondSpread, 'orderGeneration.npc.diamondSpread');
+
+  if (!tables.upgradeCosts || typeof tables.upgradeCosts !== 'object') fail('upgradeCosts', 'is missing');
+  for (const [key, rule] of Object.entries(tables.upgradeCosts)) {
+    if (rule?.level !== Number(key)) fail(`upgradeCosts.${key}.level`, `must match its key ${key}`);
+    checkCount(rule.coins, `upgradeCosts.${key}.coins`);
+    for (const [consumable, amount] of Object.entries(rule.consumables ?? {})) {
+      if (!CONSUMABLES.includes(consumable as ConsumableId)) fail(`upgradeCosts.${key}.consumables`, `"${consumable}" is not a consumable`);
+      checkCount(amount, `upgradeCosts.${key}.consumables.${consumable}`);
+    }
+  }
+
+  const ascension = tables.ascension;
+  if (!ascension || typeof ascension !== 'object') fail('ascension', 'is missing');
+  checkCount(ascension.maxStars, 'ascension.maxStars');
+  checkCount(ascension.levelCapPerStar, 'ascension.levelCapPerStar');
+  checkCount(ascension.powerBonusPerStar, 'ascension.powerBonusPerStar');
+  if (!Array.isArray(ascension.duplicatesPerStar) || ascension.duplicatesPerStar.length !== ascension.maxStars) {
+    fail('ascension.duplicatesPerStar', 'needs one entry per star');
+  }
+  ascension.duplicatesPerStar.forEach((count, index) => checkCount(count, `ascension.duplicatesPerStar[${index}]`, 1));
+
+  for (const rarity of RARITIES) {
+    const cap = tables.levelCaps?.[rarity];
+    checkCount(cap, `levelCaps.${rarity}`, 1);
+    checkCount(tables.duplicateTokens?.[rarity], `duplicateTokens.${rarity}`);
+    // Every level below the fully ascended cap needs a rule, or flavors would stall short of it
+    const ascendedCap = cap + ascension.maxStars * ascension.levelCapPerStar;
+    for (let level = 1; level < ascendedCap; level++) {
+      if (!tables.upgradeCosts[level]) fail(`levelCaps.${rarity}`, `needs an upgrade rule for level ${level}`);
+    }
+  }
+
+  const drops = tables.consumableDrops;
+  if (!drops || typeof drops !== 'object') fail('consumableDrops', 'is missing');
+  if (!(drops.amountPerSlot?.length === 2 && drops.amountPerSlot[0] >= 0 && drops.amountPerSlot[0] <= drops.amountPerSlot[1])) {
+    fail('consumableDrops.amountPerSlot', 'must be [min, max]');
+  }
+  checkCount(drops.offAffinityChancePct, 'consumableDrops.offAffinityChancePct');
+  for (const tier of ['Good', 'Great', 'Perfect'] as const) {
+    checkCount(drops.tierBonusPct?.[tier], `consumableDrops.tierBonusPct.${tier}`);
+  }
+
+  return tables;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid economy config: ${path} ${problem}`);
+}
+
+export const DEFAULT_ECONOMY: EconomyTables = parseEconomyTables(economyData);
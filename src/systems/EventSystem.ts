@@ -3,17 +3,33 @@
  * Provides pub/sub communication between game systems
  */
 
+import type { SaveRepair } from './SaveValidation';
+import type { OfflineSummary } from './OfflineProgress';
+import type { OrderResolution } from './OrderResolver';
+import type { OrderOutcome } from './OrderGrading';
+import type { OrderUrgency } from './OrderScheduler';
+import type { TelemetryEvent, UpgradeCost } from '@/models/GameTypes';
+
 export type EventMap = {
   // Game state events
   'game:loaded': { playerId: string };
   'game:saved': { timestamp: number };
   'game:error': { error: Error; context?: string };
+  'game:reset': { playerId: string };
+  'game:repaired': { playerId: string; repairs: SaveRepair[] };
+  'offline:caught_up': { summary: OfflineSummary };
+  'day:rollover': { previousDay: string; day: string; dailySeed: string };
 
   // Order events
   'order:generated': { order: unknown };
   'order:submitted': { orderId: string; success: boolean };
-  'order:completed': { order: unknown };
+  'order:completed': { order: unknown; resolution?: OrderResolution; outcome?: OrderOutcome; batch?: boolean }; // batch: part of a "serve all" with its own results screen
   'order:expired': { order: unknown };
+  'order:streak_changed': { streak: number; previous: number; best: number };
+  'order:urgency_changed': { orderId: string; urgency: OrderUrgency };
+  'order:tick': { now: number };
+  'order:chain_advanced': { npcId: string; chainId: string; completedSteps: number; totalSteps: number };
+  'customer:reputation_changed': { archetypeId: string; reputation: number; previous: number };
 
   // Character movement events
   'character:moved': { characterId: string; position: unknown };
@@ -25,12 +41,18 @@ export type EventMap = {
   // Memory events
   'memory:created': { memory: unknown };
   'memory:viewed': { memoryId: string; npcId?: string };
-  'memory:generate_from_order': { npcId: string; orderId: string };
+  'memory:generate_from_order': { npcId: string; orderId: string; chainId?: string };
 
   // DM events
   'dm:received': { npcId: string; message: string };
   'dm:sent': { npcId: string; message: string };
 
+  // Flavor events
+  'flavor:upgraded': { flavorId: string; level: number; previousLevel: number; cost: UpgradeCost };
+  'flavor:ascended': { flavorId: string; stars: number; duplicatesSpent: number; tokensSpent: number };
+  'fusion:recipe_discovered': { recipeId: string };
+  'fusion:crafted': { recipeId: string; flavorId: string; ingredientFlavorIds: string[]; cost: UpgradeCost };
+
   // Gacha events
   'gacha:pull_started': { bannerId: string; count: number };
   'gacha:pull_completed': { results: unknown };
@@ -53,6 +75,9 @@ export type EventMap = {
   // Conversation events
   'conversation:message_added': { npcId: string; message: unknown };
   'conversation:marked_read': { npcId: string };
+
+  // Telemetry events
+  'telemetry:flavor_upgrade': Extract<TelemetryEvent, { t: 'flavor_upgrade' }>;
 };
 
 export type EventListener<T extends keyof EventMap> = (data: EventMap[T]) => void;
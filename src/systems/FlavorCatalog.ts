@@ -0,0 +1,130 @@
+/**
+ * Flavor catalog - Every flavor in the game, from src/data/flavors.json
+ * Gacha, the collection and orders all look flavors up here, so an id means the same flavor everywhere
+ */
+
+import flavorData from '@/data/flavors.json';
+import type { Affinity, FlavorDef, NpcId, Rarity } from '@/models/GameTypes';
+
+const AFFINITIES: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
+const RARITIES: Rarity[] = ['3★', '4★', '5★'];
+const NPC_IDS: NpcId[] = ['aria', 'kai', 'elias'];
+
+interface FlavorCatalogData {
+  flavors: Record<string, FlavorDef>;
+  starterFlavors: string[]; // Given to every new player, one per affinity
+  testingFlavors?: string[]; // Also given to new players while the 5★ flow is being tuned
+  fusionFlavors?: string[]; // Only crafted in the Flavor Lab, never pulled
+}
+
+export class FlavorCatalog {
+  private byId: Map<string, FlavorDef>;
+
+  constructor(
+    flavors: FlavorDef[],
+    private starterFlavorIds: string[] = [],
+    private testingFlavorIds: string[] = [],
+    private fusionFlavorIds: string[] = []
+  ) {
+    this.byId = new Map(flavors.map(flavor => [flavor.flavorId, flavor]));
+  }
+
+  get(flavorId: string): FlavorDef | undefined {
+    return this.byId.get(flavorId);
+  }
+
+  has(flavorId: string): boolean {
+    return this.byId.has(flavorId);
+  }
+
+  /**
+   * All flavors, in file order
+   */
+  getAll(): FlavorDef[] {
+    return Array.from(this.byId.values());
+  }
+
+  getFlavorIds(): string[] {
+    return Array.from(this.byId.keys());
+  }
+
+  getByAffinity(affinity: Affinity): FlavorDef[] {
+    return this.getAll().filter(flavor => flavor.affinity === affinity);
+  }
+
+  getByRarity(rarity: Rarity): FlavorDef[] {
+    return this.getAll().filter(flavor => flavor.rarity === rarity);
+  }
+
+  /**
+   * Flavors that can come out of the gacha - everything but Flavor Lab hybrids
+   */
+  getPullableFlavors(): FlavorDef[] {
+    return this.getAll().filter(flavor => !this.fusionFlavorIds.includes(flavor.flavorId));
+  }
+
+  getStarterFlavorIds(): string[] {
+    return [...this.starterFlavorIds];
+  }
+
+  /**
+   * Flavors a brand new player starts with
+   */
+  getNewPlayerFlavorIds(): string[] {
+    return [...this.starterFlavorIds, ...this.testingFlavorIds];
+  }
+}
+
+/**
+ * Check the flavor table; throws with the offending path like the economy tables do
+ */
+export function parseFlavorCatalog(data: unknown): FlavorCatalog {
+  const catalog = data as FlavorCatalogData | null;
+  if (!catalog?.flavors || typeof catalog.flavors !== 'object') fail('flavors', 'must be an object keyed by flavor id');
+
+  const flavors = Object.entries(catalog.flavors).map(([key, flavor]) => {
+    const path = `flavors.${key}`;
+    if (flavor?.flavorId !== key) fail(`${path}.flavorId`, `must match its key "${key}"`);
+    if (typeof flavor.name !== 'string' || flavor.name === '') fail(`${path}.name`, 'is missing');
+    if (!AFFINITIES.includes(flavor.affinity)) fail(`${path}.affinity`, `"${flavor.affinity}" is not an affinity`);
+    if (!RARITIES.includes(flavor.rarity)) fail(`${path}.rarity`, `"${flavor.rarity}" is not a rarity`);
+    if (typeof flavor.basePower !== 'number' || flavor.basePower <= 0) fail(`${path}.basePower`, 'must be a positive number');
+    if (!NPC_IDS.includes(flavor.npcId)) fail(`${path}.npcId`, `"${flavor.npcId}" is not an NPC`);
+    if (flavor.secondaryAffinity !== undefined && (!AFFINITIES.includes(flavor.secondaryAffinity) || flavor.secondaryAffinity === flavor.affinity)) {
+      fail(`${path}.secondaryAffinity`, `"${flavor.secondaryAffinity}" must be a different affinity`);
+    }
+
+    return { ...flavor, previewAsset: flavor.previewAsset ?? getPreviewAsset(flavor.npcId, flavor.rarity) };
+  });
+
+  const checkIds = (ids: unknown, path: string): string[] => {
+    if (!Array.isArray(ids)) fail(path, 'must be a list of flavor ids');
+    ids.forEach((id, index) => {
+      if (!(id in catalog.flavors)) fail(`${path}[${index}]`, `"${id}" is not a flavor`);
+    });
+    return ids;
+  };
+
+  return new FlavorCatalog(
+    flavors,
+    checkIds(catalog.starterFlavors, 'starterFlavors'),
+    checkIds(catalog.testingFlavors ?? [], 'testingFlavors'),
+    checkIds(catalog.fusionFlavors ?? [], 'fusionFlavors')
+  );
+}
+
+/**
+ * 5★ moments have a video preview; the rest share their NPC's placeholder
+ */
+function getPreviewAsset(npcId: NpcId, rarity: Rarity): string {
+  if (rarity === '5★') {
+    return `/art/npc/${npcId}/${npcId}_flavor_preview_5star.mp4`;
+  }
+  return `/art/npc/${npcId}/${npcId}_flavor_preview_placeholder.png`;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid flavor catalog: ${path} ${problem}`);
+}
+
+export const DEFAULT_FLAVOR_CATALOG: FlavorCatalog = parseFlavorCatalog(flavorData);
@@ -0,0 +1,186 @@
+/**
+ * Flavor upgrades - Levels owned flavors up for coins and consumables
+ * Costs come from EconomyTables.upgradeCosts, level caps from EconomyTables.levelCaps
+ * Ascension stars are bought with duplicate pulls (or tokens in their place) per EconomyTables.ascension
+ */
+
+import type { EventSystem } from './EventSystem';
+import type { GameStateManager } from './GameStateManager';
+import { AFFINITY_CONSUMABLE, DEFAULT_ECONOMY } from './EconomyConfig';
+import { DEFAULT_FLAVOR_CATALOG, type FlavorCatalog } from './FlavorCatalog';
+import type { ConsumableId, EconomyTables, UpgradeCost } from '@/models/GameTypes';
+
+export interface UpgradeQuote {
+  flavorId: string;
+  level: number;
+  levelCap: number;
+  cost: UpgradeCost | null; // Null once the flavor is at its cap
+  valid: boolean;
+  reasons: string[]; // Why the upgrade can't happen, in the order shown to the player
+}
+
+export interface AscensionQuote {
+  flavorId: string;
+  stars: number;
+  maxStars: number;
+  duplicatesNeeded: number; // Zero once fully ascended
+  duplicatesHeld: number;
+  tokens: number; // Tokens standing in for the duplicates not held
+  valid: boolean;
+  reasons: string[];
+}
+
+export class FlavorUpgradeService {
+  constructor(
+    private eventSystem: EventSystem,
+    private gameState: GameStateManager,
+    private catalog: FlavorCatalog = DEFAULT_FLAVOR_CATALOG,
+    private economy: EconomyTables = DEFAULT_ECONOMY
+  ) {}
+
+  /**
+   * Highest level a flavor can reach, set by its rarity and raised by each ascension star
+   */
+  getLevelCap(flavorId: string): number {
+    const rarity = this.catalog.get(flavorId)?.rarity ?? '3★';
+    const stars = this.gameState.getFlavor(flavorId)?.ascension ?? 0;
+    return this.economy.levelCaps[rarity] + stars * this.economy.ascension.levelCapPerStar;
+  }
+
+  /**
+   * What the next level costs for this flavor, or null at the cap
+   * The upgrade table is written for a Sweet flavor; other affinities swap sugar for their own consumable
+   */
+  getUpgradeCost(flavorId: string, level: number): UpgradeCost | null {
+    const rule = this.economy.upgradeCosts[level];
+    const def = this.catalog.get(flavorId);
+    if (!rule || !def || level >= this.getLevelCap(flavorId)) return null;
+
+    const own = AFFINITY_CONSUMABLE[def.affinity];
+    const swap = (consumable: ConsumableId): ConsumableId =>
+      consumable === 'sugar' ? own : consumable === own ? 'sugar' : consumable;
+
+    const consumables: UpgradeCost['consumables'] = {};
+    for (const [consumable, amount] of Object.entries(rule.consumables) as Array<[ConsumableId, number]>) {
+      consumables[swap(consumable)] = amount;
+    }
+    return { coins: rule.coins, consumables };
+  }
+
+  /**
+   * Whether the player can upgrade a flavor right now, and what it would cost
+   */
+  getQuote(flavorId: string): UpgradeQuote {
+    const flavor = this.gameState.getFlavor(flavorId);
+    const level = flavor?.level ?? 0;
+    const levelCap = this.getLevelCap(flavorId);
+    const cost = flavor ? this.getUpgradeCost(flavorId, level) : null;
+    const reasons: string[] = [];
+
+    if (!flavor) {
+      reasons.push('You don\'t own this flavor');
+    } else if (!cost) {
+      reasons.push(`Already at the level cap (${levelCap})`);
+    } else {
+      const player = this.gameState.getPlayer();
+      if (player.coins < cost.coins) {
+        reasons.push(`Needs ${cost.coins - player.coins} more coins`);
+      }
+      for (const [consumable, amount] of Object.entries(cost.consumables) as Array<[ConsumableId, number]>) {
+        if (player.consumables[consumable] < amount) {
+          reasons.push(`Needs ${amount - player.consumables[consumable]} more ${consumable}`);
+        }
+      }
+    }
+
+    return { flavorId, level, levelCap, cost, valid: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Charge the cost and raise the flavor a level; returns the quote it was checked against
+   * Nothing is spent unless the whole cost can be paid
+   */
+  upgrade(flavorId: string): UpgradeQuote {
+    const quote = this.getQuote(flavorId);
+    if (!quote.valid || !quote.cost) return quote;
+
+    if (!this.gameState.applyFlavorUpgrade(flavorId, quote.cost)) {
+      return { ...quote, valid: false, reasons: ['Upgrade could not be paid for'] };
+    }
+
+    const level = quote.level + 1;
+    this.eventSystem.emit('flavor:upgraded', { flavorId, level, previousLevel: quote.level, cost: quote.cost });
+    this.eventSystem.emit('telemetry:flavor_upgrade', { t: 'flavor_upgrade', flavorId, toLevel: level });
+    return quote;
+  }
+
+  /**
+   * How many levels each ascension star adds to the cap
+   */
+  getAscensionCapBonus(): number {
+    return this.economy.ascension.levelCapPerStar;
+  }
+
+  /**
+   * Whether a duplicate of this flavor would still count toward an ascension star
+   */
+  wantsDuplicate(flavorId: string): boolean {
+    const flavor = this.gameState.getFlavor(flavorId);
+    if (!flavor) return false;
+
+    const { maxStars, duplicatesPerStar } = this.economy.ascension;
+    let needed = 0;
+    for (let star = flavor.ascension ?? 0; star < maxStars; star++) {
+      needed += duplicatesPerStar[star] ?? 0;
+    }
+    return (flavor.duplicates ?? 0) < needed;
+  }
+
+  /**
+   * What the next ascension star costs; held duplicates are used first and tokens cover the rest
+   */
+  getAscensionQuote(flavorId: string): AscensionQuote {
+    const flavor = this.gameState.getFlavor(flavorId);
+    const { maxStars, duplicatesPerStar } = this.economy.ascension;
+    const stars = flavor?.ascension ?? 0;
+    const duplicatesHeld = flavor?.duplicates ?? 0;
+    const duplicatesNeeded = stars < maxStars ? duplicatesPerStar[stars] ?? 0 : 0;
+    const rarity = this.catalog.get(flavorId)?.rarity ?? '3★';
+    const tokens = Math.max(0, duplicatesNeeded - duplicatesHeld) * this.economy.duplicateTokens[rarity];
+    const reasons: string[] = [];
+
+    if (!flavor) {
+      reasons.push('You don\'t own this flavor');
+    } else if (stars >= maxStars) {
+      reasons.push(`Already fully ascended (${maxStars}★)`);
+    } else {
+      const player = this.gameState.getPlayer();
+      if (player.tokens < tokens) {
+        reasons.push(`Needs ${tokens - player.tokens} more tokens`);
+      }
+    }
+
+    return { flavorId, stars, maxStars, duplicatesNeeded, duplicatesHeld, tokens, valid: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Spend duplicates and tokens on the next ascension star; returns the quote it was checked against
+   */
+  ascend(flavorId: string): AscensionQuote {
+    const quote = this.getAscensionQuote(flavorId);
+    if (!quote.valid) return quote;
+
+    const duplicates = Math.min(quote.duplicatesHeld, quote.duplicatesNeeded);
+    if (!this.gameState.applyAscension(flavorId, duplicates, quote.tokens)) {
+      return { ...quote, valid: false, reasons: ['Ascension could not be paid for'] };
+    }
+
+    this.eventSystem.emit('flavor:ascended', {
+      flavorId,
+      stars: quote.stars + 1,
+      duplicatesSpent: duplicates,
+      tokensSpent: quote.tokens,
+    });
+    return quote;
+  }
+}
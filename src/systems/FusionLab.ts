@@ -0,0 +1,165 @@
+/**
+ * Flavor Lab - Combines owned flavors plus a cost into a new hybrid flavor
+ * Recipes come from src/data/recipes.json and are matched on the ingredient flavors' affinities
+ * Ingredient flavors are kept; a fusion only spends its coins and consumables
+ */
+
+import recipeData from '@/data/recipes.json';
+import type { EventSystem } from './EventSystem';
+import type { GameStateManager } from './GameStateManager';
+import { CONSUMABLES } from './EconomyConfig';
+import { DEFAULT_FLAVOR_CATALOG, type FlavorCatalog } from './FlavorCatalog';
+import type { Affinity, ConsumableId, FusionRecipe } from '@/models/GameTypes';
+
+const AFFINITIES: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
+
+export interface FusionQuote {
+  flavorIds: string[];
+  recipe: FusionRecipe | null; // Null when the combination makes nothing
+  discovered: boolean;
+  valid: boolean;
+  reasons: string[]; // Why the fusion can't happen, in the order shown to the player
+}
+
+export interface RecipeBookEntry {
+  recipe: FusionRecipe;
+  discovered: boolean;
+}
+
+export class FusionLab {
+  private byIngredients: Map<string, FusionRecipe>;
+
+  constructor(
+    private eventSystem: EventSystem,
+    private gameState: GameStateManager,
+    private recipes: FusionRecipe[] = DEFAULT_FUSION_RECIPES,
+    private catalog: FlavorCatalog = DEFAULT_FLAVOR_CATALOG
+  ) {
+    this.byIngredients = new Map(recipes.map(recipe => [ingredientKey(recipe.ingredients), recipe]));
+  }
+
+  /**
+   * Every recipe in file order, with whether this player has found it yet
+   */
+  getRecipeBook(): RecipeBookEntry[] {
+    const discovered = new Set(this.gameState.getPlayer().discoveredRecipes);
+    return this.recipes.map(recipe => ({ recipe, discovered: discovered.has(recipe.recipeId) }));
+  }
+
+  /**
+   * The recipe these flavors would make, matched on their primary affinities in any order
+   */
+  findRecipe(flavorIds: string[]): FusionRecipe | null {
+    const affinities = flavorIds.map(flavorId => this.catalog.get(flavorId)?.affinity);
+    if (affinities.some(affinity => !affinity)) return null;
+    return this.byIngredients.get(ingredientKey(affinities as Affinity[])) ?? null;
+  }
+
+  /**
+   * Whether the player can fuse these flavors right now, and into what
+   */
+  getQuote(flavorIds: string[]): FusionQuote {
+    const player = this.gameState.getPlayer();
+    const recipe = this.findRecipe(flavorIds);
+    const discovered = !!recipe && player.discoveredRecipes.includes(recipe.recipeId);
+    const reasons: string[] = [];
+
+    if (flavorIds.length < 2) {
+      reasons.push('Pick at least two flavors');
+    } else if (new Set(flavorIds).size !== flavorIds.length) {
+      reasons.push('Each flavor can only go in once');
+    } else if (flavorIds.some(flavorId => !this.gameState.getFlavor(flavorId))) {
+      reasons.push('You can only fuse flavors you own');
+    } else if (!recipe) {
+      reasons.push('These flavors don\'t make anything');
+    } else {
+      const result = this.catalog.get(recipe.resultFlavorId);
+      if (this.gameState.getFlavor(recipe.resultFlavorId)) {
+        reasons.push(`You already have ${result?.name ?? recipe.resultFlavorId}`);
+      }
+      if (player.coins < recipe.cost.coins) {
+        reasons.push(`Needs ${recipe.cost.coins - player.coins} more coins`);
+      }
+      for (const [consumable, amount] of Object.entries(recipe.cost.consumables) as Array<[ConsumableId, number]>) {
+        if (player.consumables[consumable] < amount) {
+          reasons.push(`Needs ${amount - player.consumables[consumable]} more ${consumable}`);
+        }
+      }
+    }
+
+    return { flavorIds, recipe, discovered, valid: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Try a combination; returns the quote it was checked against
+   * A matching combination is discovered even when the player can't pay for it yet
+   */
+  fuse(flavorIds: string[]): FusionQuote {
+    const quote = this.getQuote(flavorIds);
+    const { recipe } = quote;
+    if (!recipe) return quote;
+
+    if (!quote.discovered && this.gameState.discoverRecipe(recipe.recipeId)) {
+      this.eventSystem.emit('fusion:recipe_discovered', { recipeId: recipe.recipeId });
+    }
+    if (!quote.valid) return quote;
+
+    if (!this.gameState.applyFusion(recipe.resultFlavorId, recipe.cost)) {
+      return { ...quote, valid: false, reasons: ['Fusion could not be paid for'] };
+    }
+
+    this.eventSystem.emit('fusion:crafted', {
+      recipeId: recipe.recipeId,
+      flavorId: recipe.resultFlavorId,
+      ingredientFlavorIds: flavorIds,
+      cost: recipe.cost,
+    });
+    return quote;
+  }
+}
+
+/**
+ * Ingredient lists match regardless of order
+ */
+function ingredientKey(affinities: Affinity[]): string {
+  return [...affinities].sort().join('+');
+}
+
+/**
+ * Check the recipe table against the catalog; throws with the offending path like the economy tables do
+ */
+export function parseFusionRecipes(data: unknown, catalog: FlavorCatalog = DEFAULT_FLAVOR_CATALOG): FusionRecipe[] {
+  const recipes = (data as { recipes?: Record<string, FusionRecipe> } | null)?.recipes;
+  if (!recipes || typeof recipes !== 'object') fail('recipes', 'must be an object keyed by recipe id');
+
+  const seen = new Map<string, string>();
+  return Object.entries(recipes).map(([key, recipe]) => {
+    const path = `recipes.${key}`;
+    if (recipe?.recipeId !== key) fail(`${path}.recipeId`, `must match its key "${key}"`);
+    if (!Array.isArray(recipe.ingredients) || recipe.ingredients.length < 2) fail(`${path}.ingredients`, 'needs at least two affinities');
+    recipe.ingredients.forEach((affinity, index) => {
+      if (!AFFINITIES.includes(affinity)) fail(`${path}.ingredients[${index}]`, `"${affinity}" is not an affinity`);
+    });
+
+    const ingredients = ingredientKey(recipe.ingredients);
+    const clash = seen.get(ingredients);
+    if (clash) fail(`${path}.ingredients`, `are the same as recipes.${clash}`);
+    seen.set(ingredients, key);
+
+    if (typeof recipe.cost?.coins !== 'number' || recipe.cost.coins < 0) fail(`${path}.cost.coins`, 'must be a number of at least 0');
+    for (const [consumable, amount] of Object.entries(recipe.cost.consumables ?? {})) {
+      if (!CONSUMABLES.includes(consumable as ConsumableId)) fail(`${path}.cost.consumables`, `"${consumable}" is not a consumable`);
+      if (typeof amount !== 'number' || amount < 0) fail(`${path}.cost.consumables.${consumable}`, 'must be a number of at least 0');
+    }
+    if (!catalog.has(recipe.resultFlavorId)) fail(`${path}.resultFlavorId`, `"${recipe.resultFlavorId}" is not a flavor`);
+    if (typeof recipe.hint !== 'string' || recipe.hint === '') fail(`${path}.hint`, 'is missing');
+
+    return { ...recipe, cost: { coins: recipe.cost.coins, consumables: recipe.cost.consumables ?? {} } };
+  });
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid fusion recipes: ${path} ${problem}`);
+}
+
+export const DEFAULT_FUSION_RECIPES: FusionRecipe[] = parseFusionRecipes(recipeData);
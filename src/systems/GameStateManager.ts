@@ -10,24 +10,122 @@ import type {
   PlayerNpc, 
   NpcId,
   OrderBoardState,
-  PlayerFlavor 
+  OrderChainRef,
+  PlayerFlavor,
+  ConsumableId,
+  ConsumableAmounts,
+  PlayerSettings,
+  UpgradeCost
 } from '@/models/GameTypes';
 import type { EventSystem } from './EventSystem';
+import { LocalSaveStorage, type SaveStorage } from './SaveStorage';
+import {
+  runMigrations,
+  SaveMigrationError,
+  LEGACY_STORAGE_KEYS,
+  SAVE_MIGRATIONS,
+  type MigrationContext,
+  type RawSaveData,
+} from './SaveMigrations';
+import { createSaveFile, parseSaveFile } from './SaveFile';
+import { validatePlayer, type SaveRepair, type SaveWarning } from './SaveValidation';
+import { getLocalDay } from './DayCycle';
+import { DEFAULT_FLAVOR_CATALOG } from './FlavorCatalog';
 
 const STORAGE_KEY = 'meet-cute-cafe-save';
-const SCHEMA_VERSION = 1;
+const SLOT_INDEX_KEY = 'meet-cute-cafe-slots';
+export const SCHEMA_VERSION = 8;
 
-interface SaveData {
+/** Rolling backups are spaced out so a bad state can't overwrite all of them at once */
+const ROLLING_BACKUP_COUNT = 3;
+const ROLLING_BACKUP_INTERVAL_MS = 5 * 60 * 1000;
+
+/** The original single save keeps its old storage key */
+export const DEFAULT_SLOT_ID = 'default';
+
+export interface SaveData {
   version: number;
   player: Player;
   savedAt: number;
 }
 
+/**
+ * What happened when the main save couldn't be used
+ */
+export interface SaveRecoveryReport {
+  failedKey: string;
+  /** Every candidate that was rejected, in the order tried */
+  rejected: { key: string; reason: string }[];
+  /** Key the player was restored from, or null when nothing was usable */
+  recoveredFrom: string | null;
+  recoveredSavedAt?: number;
+}
+
+/**
+ * Emitted with `game:error` when loading had to fall back from the main save
+ */
+export class SaveRecoveryError extends Error {
+  constructor(public readonly report: SaveRecoveryReport) {
+    super(
+      report.recoveredFrom
+        ? `Save ${report.failedKey} was unreadable; restored from ${report.recoveredFrom}`
+        : `Save ${report.failedKey} was unreadable and no valid backup was found`
+    );
+    this.name = 'SaveRecoveryError';
+  }
+}
+
+interface LoadedSave {
+  save: SaveData | null;
+  raw: string | null;
+  sourceKey: string | null;
+  report: SaveRecoveryReport | null;
+}
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+interface SaveSlotIndex {
+  activeSlotId: string;
+  slots: SaveSlot[];
+}
+
+/**
+ * What the slot picker shows without loading the whole save
+ */
+export interface SaveSlotSummary extends SaveSlot {
+  isActive: boolean;
+  hasSave: boolean;
+  lastSeenAt?: number;
+  coins?: number;
+  bondLevels: Partial<Record<NpcId, number>>;
+}
+
 export class GameStateManager {
   private player: Player | null = null;
   private autoSaveInterval: number | null = null;
+  private saveExists = false;
+  private slotIndex: SaveSlotIndex = {
+    activeSlotId: DEFAULT_SLOT_ID,
+    slots: [{ id: DEFAULT_SLOT_ID, name: 'Main Café', createdAt: 0 }],
+  };
+  private slotIndexLoaded = false;
+  private lastBackupAt = 0;
+  private knownFlavorIds: string[] | null = null;
+  private lastRepairs: SaveRepair[] = [];
+  private lastWarnings: SaveWarning[] = [];
+  private previousLastSeenAt: number | null = null;
+  private pendingSaves = new Set<Promise<boolean>>();
+  // Set when the stored save couldn't be loaded, so the stand-in player is never written over it
+  private savesOnHold = false;
 
-  constructor(private eventSystem: EventSystem) {
+  constructor(
+    private eventSystem: EventSystem,
+    private storage: SaveStorage = new LocalSaveStorage()
+  ) {
     this.setupAutoSave();
   }
 
@@ -52,19 +150,13 @@ export class GameStateManager {
         pepper: 10,
         salt: 10,
       },
-      flavors: [
-        // Starter flavors - one of each affinity at level 1
-        { flavorId: 'starter_sweet', level: 1, acquiredAt: now },
-        { flavorId: 'starter_salty', level: 1, acquiredAt: now },
-        { flavorId: 'starter_bitter', level: 1, acquiredAt: now },
-        { flavorId: 'starter_spicy', level: 1, acquiredAt: now },
-        { flavorId: 'starter_fresh', level: 1, acquiredAt: now },
-        // 5★ flavor for testing
-        { flavorId: 'sweet_ambrosia', level: 1, acquiredAt: now },
-      ],
+      // Starter flavors - one of each affinity at level 1
+      flavors: DEFAULT_FLAVOR_CATALOG.getNewPlayerFlavorIds().map(flavorId => ({ flavorId, level: 1, acquiredAt: now })),
       journal: {
         entries: [],
       },
+      memories: {},
+      conversations: {},
       npc: {
         aria: {
           npcId: 'aria',
@@ -73,6 +165,7 @@ export class GameStateManager {
           unreadDmCount: 0,
           callAvailable: false,
           scenesSeen: [],
+          chainProgress: {},
         },
         kai: {
           npcId: 'kai',
@@ -81,6 +174,7 @@ export class GameStateManager {
           unreadDmCount: 0,
           callAvailable: false,
           scenesSeen: [],
+          chainProgress: {},
         },
         elias: {
           npcId: 'elias',
@@ -89,27 +183,34 @@ export class GameStateManager {
           unreadDmCount: 0,
           callAvailable: false,
           scenesSeen: [],
+          chainProgress: {},
         },
       },
-      dailySeed: this.generateDailySeed(now),
+      dailySeed: this.generateDailySeed(now, playerId),
       orderBoard: {
-        day: this.getCurrentDay(),
+        day: getLocalDay(now),
         customerOrders: [],
         npcOrders: [],
+        usedFlavorIds: [],
       },
+      orderStreak: { current: 0, best: 0 },
+      customerReputation: {},
       bannersSeen: [],
+      discoveredRecipes: [],
       pity: {},
       settings: {
         sfx: 0.8,
         music: 0.6,
         tts: true,
         notifications: true,
+        duplicatePulls: 'convert',
         locale: 'en',
       },
       pendingActions: [],
     };
 
     this.player = newPlayer;
+    this.previousLastSeenAt = null;
     this.saveGame();
     this.eventSystem.emit('game:loaded', { playerId });
 
@@ -120,22 +221,54 @@ export class GameStateManager {
    * Load player data from storage
    */
   async loadGame(): Promise<Player> {
+    this.savesOnHold = false;
     try {
-      const savedData = localStorage.getItem(STORAGE_KEY);
-      
-      if (!savedData) {
+      await this.ensureSlotIndex();
+      const key = this.getSlotKey();
+      const { save, raw, sourceKey, report } = await this.readNewestValidSave(key);
+
+      if (report) {
+        // Never throw away the unreadable original - it may still be salvageable by hand
+        const original = await this.storage.get(key);
+        if (original !== null) {
+          await this.storage.set(`${key}-corrupt`, original);
+        }
+        this.eventSystem.emit('game:error', {
+          error: new SaveRecoveryError(report),
+          context: report.recoveredFrom
+            ? `recovery: restored ${report.recoveredFrom} from ${new Date(report.recoveredSavedAt ?? 0).toLocaleString()}`
+            : 'recovery: no valid backup found, playing a new game without saving',
+        });
+      }
+
+      if (!save || !raw) {
+        // An empty slot gets a fresh save; an unreadable one is left for recovery
+        this.savesOnHold = report !== null;
         return this.createNewPlayer();
       }
 
-      const saveData: SaveData = JSON.parse(savedData);
+      this.saveExists = true;
+      // Remember when the last session ended before this one overwrites it
+      this.previousLastSeenAt = typeof save.player.lastSeenAt === 'number' ? save.player.lastSeenAt : null;
       
       // Handle version migration if needed
-      if (saveData.version < SCHEMA_VERSION) {
-        const migratedPlayer = this.migratePlayerData(saveData.player, saveData.version);
-        this.player = migratedPlayer;
-        this.saveGame(); // Save migrated data
+      if (save.version < SCHEMA_VERSION) {
+        // Keep the untouched save around in case a migration step misbehaves
+        await this.backupBeforeMigration(raw, save.version);
+        const context = await this.readLegacyData();
+        this.player = this.validateLoadedPlayer(this.migratePlayerData(save, context));
+
+        // Legacy stores are only dropped once the save holding their data is safely written
+        if (await this.saveGame()) {
+          await this.removeLegacyData();
+        }
       } else {
-        this.player = saveData.player;
+        this.player = this.validateLoadedPlayer(save.player);
+
+        // Put a recovered or repaired copy back under the main key
+        if (sourceKey !== key || this.lastRepairs.length > 0) {
+          await this.saveGame();
+        }
       }
 
       // Update last seen
@@ -148,29 +281,70 @@ export class GameStateManager {
       console.error('Failed to load game:', error);
       this.eventSystem.emit('game:error', { 
         error: error as Error, 
-        context: 'loading' 
+        context: error instanceof SaveMigrationError
+          ? `migration v${error.fromVersion}→v${error.toVersion} (backup kept at ${this.getMigrationBackupKey(error.fromVersion)})`
+          : 'loading'
       });
+      // Play on in memory only; the stored save stays exactly as it was for recovery
+      this.savesOnHold = true;
       return this.createNewPlayer();
     }
   }
 
   /**
    * Save current game state
+   * The snapshot is taken synchronously; the returned promise resolves to whether storage accepted it
    */
-  saveGame(): void {
+  saveGame(): Promise<boolean> {
+    const save = this.writeSave();
+    this.pendingSaves.add(save);
+    const settle = () => {
+      this.pendingSaves.delete(save);
+    };
+    save.then(settle, settle);
+    return save;
+  }
+
+  /**
+   * Wait for every save still in flight, including the ones mutators start without awaiting
+   */
+  async flushPendingSave(): Promise<void> {
+    await Promise.allSettled([...this.pendingSaves]);
+  }
+
+  private async writeSave(): Promise<boolean> {
     if (!this.player) {
       throw new Error('No player data to save');
     }
+    if (this.savesOnHold) {
+      return false;
+    }
 
     try {
+      // Every save marks the player as present, so lastSeenAt tracks when the tab was closed
+      this.player.lastSeenAt = Date.now();
       const saveData: SaveData = {
         version: SCHEMA_VERSION,
         player: this.player,
         savedAt: Date.now(),
       };
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(saveData));
+      const key = this.getSlotKey();
+      const serialized = JSON.stringify(saveData);
+
+      // Write-ahead copy first, so an interrupted write never leaves us with nothing
+      await this.storage.set(this.getPendingKey(key), serialized);
+      await this.storage.set(key, serialized);
+      await this.storage.remove(this.getPendingKey(key));
+
+      this.saveExists = true;
       this.eventSystem.emit('game:saved', { timestamp: saveData.savedAt });
+
+      if (saveData.savedAt - this.lastBackupAt >= ROLLING_BACKUP_INTERVAL_MS) {
+        this.lastBackupAt = saveData.savedAt;
+        await this.rotateBackups(key, serialized);
+      }
+      return true;
       
     } catch (error) {
       console.error('Failed to save game:', error);
@@ -178,9 +352,50 @@ export class GameStateManager {
         error: error as Error, 
         context: 'saving' 
       });
+      return false;
     }
   }
 
+  /**
+   * When the loaded save was last seen, or null for a brand new player
+   */
+  getPreviousLastSeenAt(): number | null {
+    return this.previousLastSeenAt;
+  }
+
+  /**
+   * Serialize the full save as a portable, checksummed file
+   */
+  exportSave(): string {
+    if (!this.player) {
+      throw new Error('No player data to export');
+    }
+
+    const file = createSaveFile({ version: SCHEMA_VERSION, player: this.player });
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Replace the current save with an exported file, upgrading it if it's older.
+   * Throws SaveImportError for files that fail validation.
+   */
+  async importSave(contents: string): Promise<Player> {
+    const imported = parseSaveFile(contents, SCHEMA_VERSION);
+    const player = this.validateLoadedPlayer(
+      (imported.version < SCHEMA_VERSION ? runMigrations(imported, SCHEMA_VERSION) : imported).player
+    );
+
+    this.player = player;
+    this.savesOnHold = false;
+    if (!(await this.saveGame())) {
+      throw new Error('Imported save could not be written to storage');
+    }
+    this.eventSystem.emit('game:loaded', { playerId: player.playerId });
+
+    console.log(`📥 Imported save for player ${player.playerId}`);
+    return player;
+  }
+
   /**
    * Get current player data
    */
@@ -191,6 +406,13 @@ export class GameStateManager {
     return this.player;
   }
 
+  /**
+   * Whether a player has been loaded or created yet
+   */
+  hasPlayer(): boolean {
+    return this.player !== null;
+  }
+
   /**
    * Update player data
    */
@@ -203,6 +425,16 @@ export class GameStateManager {
     this.saveGame();
   }
 
+  /**
+   * Update player settings
+   */
+  updateSettings(updates: Partial<PlayerSettings>): void {
+    if (!this.player) return;
+
+    this.player.settings = { ...this.player.settings, ...updates };
+    this.saveGame();
+  }
+
   /**
    * Currency management
    */
@@ -240,6 +472,18 @@ export class GameStateManager {
     return true;
   }
 
+  /**
+   * Upgrade ingredients, e.g. from order drops
+   */
+  addConsumables(amounts: ConsumableAmounts): void {
+    if (!this.player) return;
+
+    for (const [consumable, amount] of Object.entries(amounts) as Array<[ConsumableId, number]>) {
+      this.player.consumables[consumable] += amount;
+    }
+    this.saveGame();
+  }
+
   /**
    * Add currency to player (generic method)
    */
@@ -286,6 +530,24 @@ export class GameStateManager {
     this.saveGame();
   }
 
+  /**
+   * Mark a chain step done; progress only moves forward, so a replayed completion is harmless
+   */
+  completeChainStep(npcId: NpcId, chain: OrderChainRef): void {
+    if (!this.player) return;
+
+    const npc = this.player.npc[npcId];
+    const completedSteps = Math.max(npc.chainProgress[chain.chainId] ?? 0, chain.step + 1);
+    npc.chainProgress = { ...npc.chainProgress, [chain.chainId]: completedSteps };
+    this.eventSystem.emit('order:chain_advanced', {
+      npcId,
+      chainId: chain.chainId,
+      completedSteps,
+      totalSteps: chain.totalSteps,
+    });
+    this.saveGame();
+  }
+
   /**
    * Memory management
    */
@@ -323,6 +585,83 @@ export class GameStateManager {
     this.saveGame();
   }
 
+  /**
+   * Start a new day: fresh seed, an empty board and no flavors used yet
+   */
+  startNewDay(now = Date.now()): void {
+    if (!this.player) return;
+
+    this.player.dailySeed = this.generateDailySeed(now, this.player.playerId);
+    this.player.orderBoard = {
+      day: getLocalDay(now),
+      customerOrders: [],
+      npcOrders: [],
+      usedFlavorIds: [],
+    };
+    this.saveGame();
+  }
+
+  markFlavorsUsed(flavorIds: Iterable<string>): void {
+    if (!this.player) return;
+
+    const used = new Set(this.player.orderBoard.usedFlavorIds);
+    for (const flavorId of flavorIds) {
+      used.add(flavorId);
+    }
+    this.player.orderBoard.usedFlavorIds = Array.from(used);
+    this.saveGame();
+  }
+
+  isFlavorUsedToday(flavorId: string): boolean {
+    return this.player?.orderBoard.usedFlavorIds.includes(flavorId) ?? false;
+  }
+
+  /**
+   * Customer order streak
+   */
+  getOrderStreak(): number {
+    return this.player?.orderStreak.current ?? 0;
+  }
+
+  extendOrderStreak(): void {
+    if (!this.player) return;
+    this.setOrderStreak(this.player.orderStreak.current + 1);
+  }
+
+  breakOrderStreak(): void {
+    if (!this.player || this.player.orderStreak.current === 0) return;
+    this.setOrderStreak(0);
+  }
+
+  private setOrderStreak(streak: number): void {
+    if (!this.player) return;
+
+    const previous = this.player.orderStreak.current;
+    const best = Math.max(this.player.orderStreak.best, streak);
+    this.player.orderStreak = { current: streak, best };
+    this.eventSystem.emit('order:streak_changed', { streak, previous, best });
+    this.saveGame();
+  }
+
+  /**
+   * Customer archetype reputation
+   */
+  getCustomerReputation(archetypeId: string): number {
+    return this.player?.customerReputation[archetypeId] ?? 0;
+  }
+
+  changeCustomerReputation(archetypeId: string, delta: number): void {
+    if (!this.player) return;
+
+    const previous = this.getCustomerReputation(archetypeId);
+    const reputation = Math.max(0, previous + delta);
+    if (reputation === previous) return;
+
+    this.player.customerReputation = { ...this.player.customerReputation, [archetypeId]: reputation };
+    this.eventSystem.emit('customer:reputation_changed', { archetypeId, reputation, previous });
+    this.saveGame();
+  }
+
   /**
    * Flavor management
    */
@@ -338,28 +677,279 @@ export class GameStateManager {
     return this.player.flavors.find(f => f.flavorId === flavorId);
   }
 
+  /**
+   * Pay an upgrade cost and level the flavor up in one save; nothing changes if anything is short
+   */
+  applyFlavorUpgrade(flavorId: string, cost: UpgradeCost): boolean {
+    const flavor = this.getFlavor(flavorId);
+    if (!this.player || !flavor || this.player.coins < cost.coins) return false;
+
+    const consumables = Object.entries(cost.consumables) as Array<[ConsumableId, number]>;
+    if (consumables.some(([consumable, amount]) => this.player!.consumables[consumable] < amount)) return false;
+
+    this.player.coins -= cost.coins;
+    consumables.forEach(([consumable, amount]) => {
+      this.player!.consumables[consumable] -= amount;
+    });
+    flavor.level++;
+
+    this.eventSystem.emit('header:update_currency', { currency: 'coins', value: this.player.coins });
+    this.saveGame();
+    return true;
+  }
+
+  /**
+   * Pay for a Flavor Lab fusion and add the crafted flavor in one save; nothing changes if anything is short
+   */
+  applyFusion(resultFlavorId: string, cost: UpgradeCost): boolean {
+    if (!this.player || this.getFlavor(resultFlavorId) || this.player.coins < cost.coins) return false;
+
+    const consumables = Object.entries(cost.consumables) as Array<[ConsumableId, number]>;
+    if (consumables.some(([consumable, amount]) => this.player!.consumables[consumable] < amount)) return false;
+
+    this.player.coins -= cost.coins;
+    consumables.forEach(([consumable, amount]) => {
+      this.player!.consumables[consumable] -= amount;
+    });
+
+    this.eventSystem.emit('header:update_currency', { currency: 'coins', value: this.player.coins });
+    // addFlavor saves, which also records the payment
+    this.addFlavor({ flavorId: resultFlavorId, level: 1, acquiredAt: Date.now() });
+    return true;
+  }
+
+  /**
+   * Record a Flavor Lab recipe as found; returns false if it already was
+   */
+  discoverRecipe(recipeId: string): boolean {
+    if (!this.player || this.player.discoveredRecipes.includes(recipeId)) return false;
+
+    this.player.discoveredRecipes.push(recipeId);
+    this.saveGame();
+    return true;
+  }
+
+  /**
+   * Hold a duplicate pull on the flavor toward its next ascension star
+   */
+  keepDuplicate(flavorId: string): void {
+    const flavor = this.getFlavor(flavorId);
+    if (!flavor) return;
+
+    flavor.duplicates = (flavor.duplicates ?? 0) + 1;
+    this.saveGame();
+  }
+
+  /**
+   * Spend held duplicates and tokens on one ascension star in one save; nothing changes if anything is short
+   */
+  applyAscension(flavorId: string, duplicates: number, tokens: number): boolean {
+    const flavor = this.getFlavor(flavorId);
+    if (!this.player || !flavor || (flavor.duplicates ?? 0) < duplicates || this.player.tokens < tokens) return false;
+
+    flavor.duplicates = (flavor.duplicates ?? 0) - duplicates;
+    flavor.ascension = (flavor.ascension ?? 0) + 1;
+    this.player.tokens -= tokens;
+
+    this.eventSystem.emit('header:update_currency', { currency: 'tokens', value: this.player.tokens });
+    this.saveGame();
+    return true;
+  }
+
   /**
    * Utility methods
    */
-  private generateDailySeed(timestamp: number): string {
-    const date = new Date(timestamp);
-    const dateStr = date.toISOString().split('T')[0]; // YYYY-MM-DD
-    const playerId = this.player?.playerId ?? 'unknown';
-    return `${dateStr}-${playerId}`;
+  private generateDailySeed(timestamp: number, playerId: string): string {
+    return `${getLocalDay(timestamp)}-${playerId}`;
   }
 
-  private getCurrentDay(): string {
-    const datePart = new Date().toISOString().split('T')[0];
-    if (!datePart) {
-      throw new Error('Failed to generate current day string');
+  private migratePlayerData(saveData: SaveData, context: MigrationContext): Player {
+    console.warn(`Migrating player data from version ${saveData.version} to ${SCHEMA_VERSION}`);
+    const migrated = runMigrations(saveData as RawSaveData, SCHEMA_VERSION, SAVE_MIGRATIONS, context);
+    return migrated.player as Player;
+  }
+
+  /**
+   * Read the standalone stores older builds kept next to the save
+   */
+  private async readLegacyData(): Promise<MigrationContext> {
+    const legacy: Record<string, string | null> = {};
+    for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+      legacy[key] = await this.storage.get(key);
     }
-    return datePart;
+    return { legacy };
   }
 
-  private migratePlayerData(player: Player, fromVersion: number): Player {
-    // Handle future migrations
-    console.warn(`Migrating player data from version ${fromVersion} to ${SCHEMA_VERSION}`);
-    return player;
+  private async removeLegacyData(): Promise<void> {
+    for (const key of Object.values(LEGACY_STORAGE_KEYS)) {
+      await this.storage.remove(key);
+    }
+  }
+
+  /**
+   * Flavor ids the game ships with - owned flavors outside this list are kept and reported as warnings on load
+   */
+  setKnownFlavorIds(flavorIds: Iterable<string>): void {
+    this.knownFlavorIds = Array.from(flavorIds);
+  }
+
+  /**
+   * Repairs applied during the most recent load or import
+   */
+  getLastRepairs(): SaveRepair[] {
+    return this.lastRepairs;
+  }
+
+  /**
+   * Oddities left in place during the most recent load or import, such as flavors the catalog no longer has
+   */
+  getLastWarnings(): SaveWarning[] {
+    return this.lastWarnings;
+  }
+
+  private validateLoadedPlayer(player: unknown): Player {
+    const { value, repairs, warnings } = validatePlayer(player, {
+      knownFlavorIds: this.knownFlavorIds ?? undefined,
+    });
+
+    this.lastRepairs = repairs;
+    // Nothing was changed for these, so they neither re-save nor count as repairs
+    this.lastWarnings = warnings;
+    if (warnings.length > 0) {
+      console.warn(`Save data has ${warnings.length} item(s) the game doesn't recognize:`, warnings);
+    }
+    if (repairs.length > 0) {
+      console.warn(`🩹 Repaired ${repairs.length} problem(s) in save data:`, repairs);
+      this.eventSystem.emit('game:repaired', { playerId: value.playerId, repairs });
+    }
+    return value;
+  }
+
+  /**
+   * Storage key holding the pre-migration copy of a save at the given version
+   */
+  getMigrationBackupKey(version: number): string {
+    return `${this.getSlotKey()}-backup-v${version}`;
+  }
+
+  private async backupBeforeMigration(rawSave: string, version: number): Promise<void> {
+    await this.storage.set(this.getMigrationBackupKey(version), rawSave);
+  }
+
+  /**
+   * Storage key of the n-th newest rolling backup (1 = newest)
+   */
+  getRollingBackupKey(index: number, key = this.getSlotKey()): string {
+    return `${key}-backup-rolling-${index}`;
+  }
+
+  private getPendingKey(key: string): string {
+    return `${key}-pending`;
+  }
+
+  private async rotateBackups(key: string, serialized: string): Promise<void> {
+    try {
+      for (let i = ROLLING_BACKUP_COUNT; i > 1; i--) {
+        const older = await this.storage.get(this.getRollingBackupKey(i - 1, key));
+        if (older !== null) {
+          await this.storage.set(this.getRollingBackupKey(i, key), older);
+        }
+      }
+      await this.storage.set(this.getRollingBackupKey(1, key), serialized);
+    } catch (error) {
+      // The save itself went through, so this only costs us a safety net
+      console.warn('Failed to rotate save backups:', error);
+    }
+  }
+
+  private async clearRecoveryCopies(key: string): Promise<void> {
+    await this.storage.remove(this.getPendingKey(key));
+    for (let i = 1; i <= ROLLING_BACKUP_COUNT; i++) {
+      await this.storage.remove(this.getRollingBackupKey(i, key));
+    }
+  }
+
+  /**
+   * Pick the newest usable copy of a save: the main key or a leftover write-ahead
+   * copy, falling back to rolling backups when the main save is unreadable
+   */
+  private async readNewestValidSave(key: string): Promise<LoadedSave> {
+    const rejected: { key: string; reason: string }[] = [];
+
+    const tryKey = async (candidateKey: string) => {
+      const raw = await this.storage.get(candidateKey);
+      if (raw === null) return null;
+
+      const result = this.parseSave(raw);
+      if (typeof result === 'string') {
+        rejected.push({ key: candidateKey, reason: result });
+        return null;
+      }
+      return { save: result, raw, sourceKey: candidateKey };
+    };
+
+    const main = await tryKey(key);
+    const pending = await tryKey(this.getPendingKey(key));
+
+    // A write-ahead copy newer than the main save means that write never finished
+    let chosen = pending && (!main || pending.save.savedAt > main.save.savedAt) ? pending : main;
+
+    const mainFailed = rejected.some(r => r.key === key);
+    for (let i = 1; !chosen && mainFailed && i <= ROLLING_BACKUP_COUNT; i++) {
+      chosen = await tryKey(this.getRollingBackupKey(i, key));
+    }
+
+    return {
+      save: chosen?.save ?? null,
+      raw: chosen?.raw ?? null,
+      sourceKey: chosen?.sourceKey ?? null,
+      report: mainFailed
+        ? {
+            failedKey: key,
+            rejected,
+            recoveredFrom: chosen?.sourceKey ?? null,
+            recoveredSavedAt: chosen?.save.savedAt,
+          }
+        : null,
+    };
+  }
+
+  /**
+   * Parse a stored save, returning why it's unusable instead of throwing
+   */
+  private parseSave(raw: string): SaveData | string {
+    let data: any;
+    try {
+      data = JSON.parse(raw);
+    } catch {
+      return 'not valid JSON (the write was probably interrupted)';
+    }
+
+    if (!data || typeof data !== 'object') {
+      return 'not a save object';
+    }
+    if (!Number.isInteger(data.version) || data.version < 1 || data.version > SCHEMA_VERSION) {
+      return `unsupported schema version ${data.version}`;
+    }
+
+    const problem = this.checkPlayerShape(data.player, data.version);
+    return problem ?? (data as SaveData);
+  }
+
+  private checkPlayerShape(player: any, version: number): string | null {
+    if (!player || typeof player !== 'object') return 'missing player';
+    if (typeof player.playerId !== 'string') return 'missing player.playerId';
+
+    // Older saves get the rest filled in by migrations
+    if (version < SCHEMA_VERSION) return null;
+
+    for (const field of ['createdAt', 'lastSeenAt', 'coins', 'diamonds', 'tokens']) {
+      if (typeof player[field] !== 'number') return `player.${field} is not a number`;
+    }
+    if (!Array.isArray(player.flavors)) return 'player.flavors is not a list';
+    if (!player.npc || typeof player.npc !== 'object') return 'missing player.npc';
+    if (!Array.isArray(player.journal?.entries)) return 'missing player.journal';
+    return null;
   }
 
   private setupAutoSave(): void {
@@ -372,28 +962,175 @@ export class GameStateManager {
   }
 
   /**
-   * Check if save data exists
+   * Save slots
+   */
+  getActiveSlotId(): string {
+    return this.slotIndex.activeSlotId;
+  }
+
+  async listSaveSlots(): Promise<SaveSlotSummary[]> {
+    await this.ensureSlotIndex();
+
+    const summaries: SaveSlotSummary[] = [];
+    for (const slot of this.slotIndex.slots) {
+      const isActive = slot.id === this.slotIndex.activeSlotId;
+      const player = isActive && this.player ? this.player : await this.peekSlotPlayer(slot.id);
+
+      const bondLevels: Partial<Record<NpcId, number>> = {};
+      Object.values(player?.npc ?? {}).forEach(npc => {
+        bondLevels[npc.npcId] = npc.level;
+      });
+
+      summaries.push({
+        ...slot,
+        isActive,
+        hasSave: player !== null,
+        lastSeenAt: player?.lastSeenAt,
+        coins: player?.coins,
+        bondLevels,
+      });
+    }
+    return summaries;
+  }
+
+  /**
+   * Add an empty slot - a new café starts the first time it's switched to
+   */
+  async createSaveSlot(name: string): Promise<SaveSlot> {
+    await this.ensureSlotIndex();
+
+    const slot: SaveSlot = {
+      id: `slot_${uuidv4().slice(0, 8)}`,
+      name: name.trim() || 'New Café',
+      createdAt: Date.now(),
+    };
+    this.slotIndex.slots.push(slot);
+    await this.saveSlotIndex();
+    return slot;
+  }
+
+  async switchSaveSlot(slotId: string): Promise<Player> {
+    await this.ensureSlotIndex();
+    this.requireSlot(slotId);
+
+    // Don't lose anything since the last auto-save
+    if (this.player) {
+      await this.saveGame();
+    }
+
+    this.slotIndex.activeSlotId = slotId;
+    await this.saveSlotIndex();
+
+    this.player = null;
+    this.lastBackupAt = 0;
+    this.saveExists = false;
+    return this.loadGame();
+  }
+
+  async duplicateSaveSlot(slotId: string, name: string): Promise<SaveSlot> {
+    await this.ensureSlotIndex();
+    const source = this.requireSlot(slotId);
+
+    if (slotId === this.slotIndex.activeSlotId && this.player) {
+      await this.saveGame();
+    }
+
+    const copy = await this.createSaveSlot(name || `${source.name} (copy)`);
+    const raw = await this.storage.get(this.getSlotKey(slotId));
+    if (raw) {
+      await this.storage.set(this.getSlotKey(copy.id), raw);
+    }
+    return copy;
+  }
+
+  async deleteSaveSlot(slotId: string): Promise<void> {
+    await this.ensureSlotIndex();
+    this.requireSlot(slotId);
+
+    if (slotId === this.slotIndex.activeSlotId) {
+      throw new Error('Cannot delete the active save slot - switch to another slot first');
+    }
+
+    const key = this.getSlotKey(slotId);
+    await this.storage.remove(key);
+    // Backups, write-ahead and corrupt copies all hang off the slot key
+    for (const extraKey of await this.storage.list(`${key}-`)) {
+      await this.storage.remove(extraKey);
+    }
+
+    this.slotIndex.slots = this.slotIndex.slots.filter(slot => slot.id !== slotId);
+    await this.saveSlotIndex();
+  }
+
+  private getSlotKey(slotId = this.slotIndex.activeSlotId): string {
+    return slotId === DEFAULT_SLOT_ID ? STORAGE_KEY : `${STORAGE_KEY}:${slotId}`;
+  }
+
+  private requireSlot(slotId: string): SaveSlot {
+    const slot = this.slotIndex.slots.find(s => s.id === slotId);
+    if (!slot) {
+      throw new Error(`Unknown save slot: ${slotId}`);
+    }
+    return slot;
+  }
+
+  private async ensureSlotIndex(): Promise<void> {
+    if (this.slotIndexLoaded) return;
+    this.slotIndexLoaded = true;
+
+    try {
+      const stored = await this.storage.get(SLOT_INDEX_KEY);
+      if (stored) {
+        const index: SaveSlotIndex = JSON.parse(stored);
+        if (index.slots.some(slot => slot.id === index.activeSlotId)) {
+          this.slotIndex = index;
+        }
+      }
+    } catch (error) {
+      console.warn('Failed to load save slot index, using the default slot:', error);
+    }
+  }
+
+  private async saveSlotIndex(): Promise<void> {
+    await this.storage.set(SLOT_INDEX_KEY, JSON.stringify(this.slotIndex));
+  }
+
+  private async peekSlotPlayer(slotId: string): Promise<Player | null> {
+    try {
+      const raw = await this.storage.get(this.getSlotKey(slotId));
+      return raw ? (JSON.parse(raw) as SaveData).player : null;
+    } catch (error) {
+      console.warn(`Failed to read save slot ${slotId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if save data exists (as of the last load or save)
    */
   hasSaveData(): boolean {
-    const savedData = localStorage.getItem(STORAGE_KEY);
-    return savedData !== null;
+    return this.saveExists;
   }
 
   /**
    * Reset game state - creates a new player
    */
-  resetGame(): void {
-    // Clear local storage
-    localStorage.removeItem(STORAGE_KEY);
+  async resetGame(): Promise<void> {
+    // Clear stored save and its recovery copies, plus any pre-v3 stores still lying around
+    await this.storage.remove(this.getSlotKey());
+    await this.clearRecoveryCopies(this.getSlotKey());
+    await this.removeLegacyData();
+    this.saveExists = false;
+    this.savesOnHold = false;
     
     // Create new player
     this.player = this.createNewPlayer();
     
     // Save immediately
-    this.saveGame();
+    await this.saveGame();
     
     // Emit reset event
-    this.eventSystem.emit('game:reset', {});
+    this.eventSystem.emit('game:reset', { playerId: this.player.playerId });
     
     console.log('🔄 Game state reset');
   }
@@ -7,25 +7,36 @@
 import { EventSystem } from './EventSystem';
 import { GameStateManager } from './GameStateManager';
 import { NPCManager } from './NPCManager';
-import { NpcId, Memory as GameMemory } from '@/models/GameTypes';
+import { RandomService, type RandomStream } from './RandomService';
+import { NpcId, Memory as GameMemory, MemoryRecord, OrderBase } from '@/models/GameTypes';
 import { getMemoryPlaceholderPath } from '@/utils/AssetPaths';
+import { getOrderChain } from './OrderChains';
 
-export interface Memory {
-  id: string;
-  content: string; // Short snippet
-  extendedStory?: string; // Longer narrative
-  imageUrl?: string;
-  taggedNPCs: NpcId[];
-  taggedPets: string[];
-  mood: string;
-  location: string;
-  timestamp: number;
-  isPublished: boolean;
-  viewed: boolean;
-  favorited: boolean;
-  rarity?: 'common' | 'rare' | 'epic';
-  orderId?: string; // Link to the order that generated this memory
-}
+export type Memory = MemoryRecord;
+
+/**
+ * Journal entries only know the spec's five moods; template moods fold into them
+ */
+const JOURNAL_MOOD_BY_TEMPLATE_MOOD: Record<string, NonNullable<GameMemory['mood']>> = {
+  cozy: 'Cozy',
+  peaceful: 'Cozy',
+  happy: 'Playful',
+  collaborative: 'Playful',
+  energetic: 'Playful',
+  playful: 'Playful',
+  fun: 'Playful',
+  excited: 'Playful',
+  creative: 'Playful',
+  proud: 'Playful',
+  accomplished: 'Playful',
+  intimate: 'Tender',
+  connected: 'Tender',
+  touched: 'Tender',
+  sweet: 'Tender',
+  romantic: 'Tender',
+  encouraged: 'Tender',
+  warm: 'Tender',
+};
 
 export interface MemoryTemplate {
   template: string;
@@ -37,12 +48,15 @@ export interface MemoryTemplate {
 
 export class MemoryGenerator {
   private templates: Record<string, MemoryTemplate[]> = {};
+  private rng: RandomStream;
   
   constructor(
     private eventSystem: EventSystem,
     private gameState: GameStateManager,
-    private npcManager: NPCManager
+    private npcManager: NPCManager,
+    random: RandomService = new RandomService()
   ) {
+    this.rng = random.stream('memories');
     this.initializeTemplates();
     this.setupEventListeners();
   }
@@ -138,8 +152,12 @@ export class MemoryGenerator {
     // Generate memories when explicitly requested (from Order Results screen)
     this.eventSystem.on('memory:generate_from_order', (data) => {
       console.log('🧠 Memory generation requested:', data);
-      const { npcId, orderId } = data as { npcId: NpcId; orderId: string };
-      this.generateOrderMemory(npcId, orderId);
+      const { npcId, orderId, chainId } = data as { npcId: NpcId; orderId: string; chainId?: string };
+      if (chainId) {
+        this.generateChainMemory(npcId, orderId, chainId);
+      } else {
+        this.generateOrderMemory(npcId, orderId);
+      }
     });
 
     // Generate memories from bond level ups
@@ -165,7 +183,7 @@ export class MemoryGenerator {
     const mood = this.selectMood(template.mood);
     
     const memory: Memory = {
-      id: `memory_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: this.createMemoryId(),
       content,
       extendedStory,
       imageUrl: this.generateImageUrl([npcId], []),
@@ -189,6 +207,52 @@ export class MemoryGenerator {
     return memory;
   }
 
+  /**
+   * Generate the memory a completed order pays out, or null when it has none
+   * The last step of an order chain always brings its authored memory
+   */
+  generateRewardMemory(order: OrderBase): Memory | null {
+    if (order.kind !== 'NPC' || !order.npcId || !order.rewards.memory) return null;
+
+    const { chain } = order;
+    return chain && chain.step === chain.totalSteps - 1
+      ? this.generateChainMemory(order.npcId, order.orderId, chain.chainId)
+      : this.generateOrderMemory(order.npcId, order.orderId);
+  }
+
+  /**
+   * Generate the authored memory for finishing an order chain
+   */
+  generateChainMemory(npcId: NpcId, orderId: string, chainId: string): Memory {
+    const chain = getOrderChain(chainId);
+    if (!chain) {
+      throw new Error(`Cannot generate memory: order chain ${chainId} not found`);
+    }
+
+    const { content, extendedStory, mood, location } = chain.finaleMemory;
+    const memory: Memory = {
+      id: this.createMemoryId(),
+      content,
+      extendedStory,
+      imageUrl: this.generateImageUrl([npcId], []),
+      taggedNPCs: [npcId],
+      taggedPets: [],
+      mood,
+      location,
+      timestamp: Date.now(),
+      isPublished: false,
+      viewed: false,
+      favorited: false,
+      rarity: 'epic',
+      orderId
+    };
+
+    this.saveMemory(memory);
+    console.log(`🌟 ${chain.title} finished, special memory created for ${npcId}`);
+    this.eventSystem.emit('memory:created', { memory });
+    return memory;
+  }
+
   /**
    * Generate a memory from bond level increase
    */
@@ -206,7 +270,7 @@ export class MemoryGenerator {
     const mood = this.selectMood(template.mood);
     
     const memory: Memory = {
-      id: `memory_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      id: this.createMemoryId(),
       content,
       extendedStory,
       imageUrl: this.generateImageUrl([npcId], []),
@@ -228,6 +292,13 @@ export class MemoryGenerator {
     return memory;
   }
 
+  /**
+   * Unique memory id; the suffix comes from the seeded stream like every other roll here
+   */
+  private createMemoryId(): string {
+    return `memory_${Date.now()}_${this.rng.next().toString(36).slice(2, 11)}`;
+  }
+
   /**
    * Select a random template based on rarity weights
    */
@@ -235,7 +306,7 @@ export class MemoryGenerator {
     if (templates.length === 0) return null;
     
     const totalWeight = templates.reduce((sum, t) => sum + t.rarity, 0);
-    let random = Math.random() * totalWeight;
+    let random = this.rng.next() * totalWeight;
     
     for (const template of templates) {
       random -= template.rarity;
@@ -283,7 +354,7 @@ export class MemoryGenerator {
       'Something about their presence made everything feel brighter.'
     ];
     
-    const extension = extensions[Math.floor(Math.random() * extensions.length)] || '';
+    const extension = extensions[Math.floor(this.rng.next() * extensions.length)] || '';
     return `${baseContent} ${extension}`;
   }
 
@@ -291,7 +362,7 @@ export class MemoryGenerator {
    * Select mood from template options
    */
   private selectMood(moods: string[]): string {
-    const selectedMood = moods[Math.floor(Math.random() * moods.length)];
+    const selectedMood = moods[Math.floor(this.rng.next() * moods.length)];
     return selectedMood || 'Cozy';
   }
 
@@ -337,18 +408,16 @@ export class MemoryGenerator {
       summary: memory.content,
       format: 'Drabble',
       extendedText: memory.extendedStory,
-      mood: memory.mood as any,
-      location: memory.location as any,
+      mood: JOURNAL_MOOD_BY_TEMPLATE_MOOD[memory.mood] ?? 'Cozy',
+      location: memory.location,
       tags: [memory.rarity || 'common'],
       unread: !memory.viewed
     };
     
     player.journal.entries.push(gameMemory);
     
-    // Store full memory data (in a real app, this might be in a separate store)
-    const memories = this.getStoredMemories();
-    memories.set(memory.id, memory);
-    this.setStoredMemories(memories);
+    // Full record lives alongside the journal entry in the same save
+    this.getStoredMemories()[memory.id] = memory;
     
     this.gameState.saveGame();
   }
@@ -363,7 +432,7 @@ export class MemoryGenerator {
     if (!player.journal?.entries) return [];
     
     return player.journal.entries
-      .map((journalEntry: GameMemory) => memories.get(journalEntry.memoryId))
+      .map((journalEntry: GameMemory) => memories[journalEntry.memoryId])
       .filter((memory): memory is Memory => memory !== undefined)
       .sort((a: Memory, b: Memory) => b.timestamp - a.timestamp);
   }
@@ -391,21 +460,18 @@ export class MemoryGenerator {
    * Mark memory as viewed
    */
   markMemoryAsViewed(memoryId: string): void {
-    const memories = this.getStoredMemories();
-    const memory = memories.get(memoryId);
+    const memory = this.getStoredMemories()[memoryId];
     
     if (memory && !memory.viewed) {
       memory.viewed = true;
-      memories.set(memoryId, memory);
-      this.setStoredMemories(memories);
       
       // Update journal entry
       const player = this.gameState.getPlayer();
       const journalEntry = player.journal?.entries.find((m: GameMemory) => m.memoryId === memoryId);
       if (journalEntry) {
         journalEntry.unread = false;
-        this.gameState.saveGame();
       }
+      this.gameState.saveGame();
       
       // Award bond XP for viewing memory
       if (memory.taggedNPCs.length > 0) {
@@ -420,21 +486,12 @@ export class MemoryGenerator {
    * Toggle memory favorite status
    */
   toggleMemoryFavorite(memoryId: string): boolean {
-    const memories = this.getStoredMemories();
-    const memory = memories.get(memoryId);
+    const memory = this.getStoredMemories()[memoryId];
     
     if (memory) {
+      // GameMemory doesn't have a favorited field, so it only lives on the full record
       memory.favorited = !memory.favorited;
-      memories.set(memoryId, memory);
-      this.setStoredMemories(memories);
-      
-      // Update journal entry  
-      const player = this.gameState.getPlayer();
-      const journalEntry = player.journal?.entries.find((m: GameMemory) => m.memoryId === memoryId);
-      if (journalEntry) {
-        // Note: GameMemory doesn't have favorited field, so we only store in localStorage
-        this.gameState.saveGame();
-      }
+      this.gameState.saveGame();
       
       return memory.favorited;
     }
@@ -446,35 +503,17 @@ export class MemoryGenerator {
    * Get memory by ID
    */
   getMemory(memoryId: string): Memory | null {
-    const memories = this.getStoredMemories();
-    return memories.get(memoryId) || null;
+    return this.getStoredMemories()[memoryId] || null;
   }
 
   /**
-   * Get stored memories from localStorage
+   * Full memory records stored on the player save
    */
-  private getStoredMemories(): Map<string, Memory> {
-    try {
-      const stored = localStorage.getItem('meetcute_memories');
-      if (stored) {
-        const data = JSON.parse(stored);
-        return new Map(Object.entries(data));
-      }
-    } catch (error) {
-      console.warn('Failed to load memories from storage:', error);
-    }
-    return new Map();
-  }
-
-  /**
-   * Save memories to localStorage
-   */
-  private setStoredMemories(memories: Map<string, Memory>): void {
-    try {
-      const data = Object.fromEntries(memories);
-      localStorage.setItem('meetcute_memories', JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save memories to storage:', error);
+  private getStoredMemories(): Record<string, Memory> {
+    const player = this.gameState.getPlayer();
+    if (!player.memories) {
+      player.memories = {};
     }
+    return player.memories;
   }
 }
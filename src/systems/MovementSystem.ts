@@ -5,6 +5,7 @@
 
 import type { TileSystem, TilePosition } from './TileSystem';
 import type { EventSystem } from './EventSystem';
+import { RandomService, type RandomStream } from './RandomService';
 
 export interface MovingCharacter {
   id: string;
@@ -25,10 +26,16 @@ export class MovementSystem {
   private tileSystem: TileSystem;
   private eventSystem: EventSystem;
   private updateInterval: number | null = null;
+  private rng: RandomStream;
 
-  constructor(tileSystem: TileSystem, eventSystem: EventSystem) {
+  constructor(
+    tileSystem: TileSystem,
+    eventSystem: EventSystem,
+    random: RandomService = new RandomService()
+  ) {
     this.tileSystem = tileSystem;
     this.eventSystem = eventSystem;
+    this.rng = random.stream('movement');
   }
 
   /**
@@ -230,8 +237,8 @@ export class MovementSystem {
 
     for (let i = 0; i < maxAttempts; i++) {
       const pos: TilePosition = {
-        x: Math.floor(Math.random() * (width - 4)) + 2, // Avoid edges
-        y: Math.floor(Math.random() * (height - 4)) + 2,
+        x: Math.floor(this.rng.next() * (width - 4)) + 2, // Avoid edges
+        y: Math.floor(this.rng.next() * (height - 4)) + 2,
       };
 
       if (this.isPositionAvailable(pos, '')) {
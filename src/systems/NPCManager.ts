@@ -7,6 +7,7 @@ import { EventSystem } from './EventSystem';
 import { GameStateManager } from './GameStateManager';
 import { NpcId } from '@/models/GameTypes';
 import { getNpcPortraitPath } from '@/utils/AssetPaths';
+import { BASE_ORDER_BOND_XP } from './OrderGrading';
 
 export interface NPCData {
   id: NpcId;
@@ -176,7 +177,7 @@ export class NPCManager {
     this.eventSystem.on('order:completed', (data) => {
       const order = data.order as any;
       if (order?.kind === 'NPC' && order.npcId) {
-        this.addBondXP(order.npcId as NpcId, 25);
+        this.addBondXP(order.npcId as NpcId, data.outcome?.bondXp ?? BASE_ORDER_BOND_XP);
       }
     });
 
@@ -293,7 +294,8 @@ export class NPCManager {
         level: npc.bondLevel,
         unreadDmCount: 0,
         callAvailable: npc.unlockedFeatures.calls,
-        scenesSeen: []
+        scenesSeen: [],
+        chainProgress: {}
       };
     } else {
       player.npc[npcId].level = npc.bondLevel;
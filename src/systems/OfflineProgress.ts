@@ -0,0 +1,82 @@
+/**
+ * OfflineProgress - Catches the café up on the time the player was away
+ */
+
+import type { EventSystem } from './EventSystem';
+import type { GameStateManager } from './GameStateManager';
+import type { OrderGenerator } from './OrderGenerator';
+import type { ConversationManager } from './ConversationManager';
+import type { DMMessage, NpcId } from '@/models/GameTypes';
+
+// Shorter absences still catch up, they just don't warrant a summary
+export const OFFLINE_SUMMARY_MIN_AWAY_MS = 5 * 60 * 1000;
+
+export interface OfflineSummary {
+  awayMs: number;
+  expiredOrders: number;
+  newOrders: number;
+  messages: Array<{ npcId: NpcId; count: number }>;
+}
+
+export class OfflineProgress {
+  private summary: OfflineSummary | null = null;
+
+  constructor(
+    private eventSystem: EventSystem,
+    private gameState: GameStateManager,
+    private orderGenerator: OrderGenerator,
+    private conversationManager: ConversationManager
+  ) {}
+
+  /**
+   * Apply everything that would have happened since the save was last seen.
+   * Call once the order board and conversations are loaded.
+   */
+  catchUp(now = Date.now()): OfflineSummary | null {
+    const lastSeenAt = this.gameState.getPreviousLastSeenAt();
+    this.summary = null;
+    if (lastSeenAt === null) return null;
+
+    const awayMs = Math.max(0, now - lastSeenAt);
+    const orders = this.orderGenerator.catchUp(awayMs, now);
+    const delivered = this.conversationManager.deliverQueuedMessages(now);
+
+    const summary: OfflineSummary = {
+      awayMs,
+      expiredOrders: orders.expired.length,
+      newOrders: orders.generated.length,
+      messages: this.countBySender(delivered),
+    };
+
+    const somethingHappened = summary.expiredOrders > 0 || summary.newOrders > 0 || summary.messages.length > 0;
+    if (awayMs < OFFLINE_SUMMARY_MIN_AWAY_MS || !somethingHappened) {
+      return null;
+    }
+
+    this.summary = summary;
+    this.eventSystem.emit('offline:caught_up', { summary });
+    console.log(`🌙 Caught up on ${Math.round(awayMs / 60000)} minutes away`);
+    return summary;
+  }
+
+  /**
+   * The summary still waiting to be shown, if any
+   */
+  getSummary(): OfflineSummary | null {
+    return this.summary;
+  }
+
+  dismissSummary(): void {
+    this.summary = null;
+  }
+
+  private countBySender(messages: DMMessage[]): OfflineSummary['messages'] {
+    const counts = new Map<NpcId, number>();
+    messages.forEach(message => {
+      if (message.senderId !== 'player') {
+        counts.set(message.senderId, (counts.get(message.senderId) ?? 0) + 1);
+      }
+    });
+    return Array.from(counts, ([npcId, count]) => ({ npcId, count }));
+  }
+}
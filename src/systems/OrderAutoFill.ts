@@ -0,0 +1,130 @@
+/**
+ * OrderAutoFill - Proposes which owned flavors to put in an order's slots
+ * Every proposal goes through OrderResolver, so auto-fill never suggests a submission the order would turn down
+ */
+
+import type { OrderResolver, OrderResolution, SlotResolution } from './OrderResolver';
+import type { OrderBase, PlayerFlavor, Rarity } from '@/models/GameTypes';
+import type { OutcomeTier } from './OrderGrading';
+
+/**
+ * best-grade chases the highest outcome tier; save-flavors spends the cheapest flavors that still fit
+ */
+export type AutoFillStrategy = 'best-grade' | 'save-flavors';
+
+export interface SlotSuggestion {
+  slotIndex: number;
+  flavorId: string;
+  reason: string;
+}
+
+export interface OrderSuggestion {
+  orderId: string;
+  strategy: AutoFillStrategy;
+  flavorIds: string[]; // One per slot, in slot order
+  slots: SlotSuggestion[];
+  tier: OutcomeTier;
+}
+
+/**
+ * Spare eligible flavors per slot at which auto-fill stops spending the valuable ones
+ */
+export const LARGE_SURPLUS_PER_SLOT = 3;
+
+// Keeps the search small for big collections; candidates are ranked first, so the cut drops the least likely picks
+const MAX_CANDIDATES_PER_SLOT = 8;
+
+const RARITY_VALUE: Record<Rarity, number> = { '3★': 0, '4★': 2, '5★': 4 };
+
+/**
+ * How much a flavor is worth keeping back: its level plus a premium for rarity
+ */
+export function getFlavorValue(level: number, rarity: Rarity): number {
+  return level + RARITY_VALUE[rarity];
+}
+
+/**
+ * The best assignment for an order from the player's collection, or null when nothing fulfills it
+ */
+export function suggestFlavors(order: OrderBase, resolver: OrderResolver): OrderSuggestion | null {
+  const slotCount = order.requirements.slots.length;
+  const candidates = order.requirements.slots.map((_, index) => resolver.getEligibleFlavors(order, index));
+  if (slotCount === 0 || candidates.some(list => list.length === 0)) return null;
+
+  const eligibleCount = new Set(candidates.flat().map(flavor => flavor.flavorId)).size;
+  const surplusPerSlot = (eligibleCount - slotCount) / slotCount;
+  const strategy: AutoFillStrategy = surplusPerSlot >= LARGE_SURPLUS_PER_SLOT ? 'save-flavors' : 'best-grade';
+
+  const value = (flavor: PlayerFlavor) => getFlavorValue(flavor.level, resolver.getFlavorDef(flavor.flavorId)?.rarity ?? '3★');
+  const ranked = candidates.map(list =>
+    [...list]
+      .sort((a, b) => (strategy === 'save-flavors' ? value(a) - value(b) : value(b) - value(a)))
+      .slice(0, MAX_CANDIDATES_PER_SLOT)
+  );
+
+  let best: { flavorIds: string[]; resolution: OrderResolution; cost: number } | null = null;
+  const isBetter = (score: number, cost: number): boolean => {
+    if (!best) return true;
+    const bestScore = best.resolution.grade?.score ?? 0;
+    if (strategy === 'save-flavors') {
+      return cost < best.cost || (cost === best.cost && score > bestScore);
+    }
+    return score > bestScore || (score === bestScore && cost < best.cost);
+  };
+
+  const chosen: PlayerFlavor[] = [];
+  const search = (slotIndex: number): void => {
+    if (slotIndex === slotCount) {
+      const flavorIds = chosen.map(flavor => flavor.flavorId);
+      const resolution = resolver.resolve(order, flavorIds);
+      if (!resolution.valid) return;
+
+      const cost = chosen.reduce((sum, flavor) => sum + value(flavor), 0);
+      if (isBetter(resolution.grade?.score ?? 0, cost)) {
+        best = { flavorIds, resolution, cost };
+      }
+      return;
+    }
+    for (const flavor of ranked[slotIndex]!) {
+      if (chosen.some(picked => picked.flavorId === flavor.flavorId)) continue;
+      chosen.push(flavor);
+      search(slotIndex + 1);
+      chosen.pop();
+    }
+  };
+  search(0);
+
+  const found = best as { flavorIds: string[]; resolution: OrderResolution; cost: number } | null;
+  if (!found) return null;
+
+  return {
+    orderId: order.orderId,
+    strategy,
+    flavorIds: found.flavorIds,
+    slots: found.resolution.slots.map(slot => ({
+      slotIndex: slot.slotIndex,
+      flavorId: slot.flavorId!,
+      reason: explainSlot(slot, strategy, resolver.getFlavorDef(slot.flavorId!)?.name ?? slot.flavorId!),
+    })),
+    tier: found.resolution.grade?.tier ?? 'Good',
+  };
+}
+
+/**
+ * One line on why a flavor was picked for its slot
+ */
+function explainSlot(slot: SlotResolution, strategy: AutoFillStrategy, name: string): string {
+  const level = slot.level ?? slot.minLevel;
+  const fit = `${name} is ${slot.affinity} at level ${level} (needs ${slot.minLevel}+)`;
+
+  if (strategy === 'save-flavors') {
+    return `${fit}; the lowest-value fit, so your stronger flavors stay free for other orders`;
+  }
+
+  const strengths: string[] = [];
+  if (level > slot.minLevel) strengths.push(`${level - slot.minLevel} level${level - slot.minLevel > 1 ? 's' : ''} to spare`);
+  if (slot.rarity && slot.rarity !== '3★') strengths.push(`${slot.rarity} rarity`);
+  return strengths.length > 0
+    ? `${fit}; ${strengths.join(' and ')} ${strengths.length > 1 ? 'raise' : 'raises'} the grade`
+    : `${fit}; the best you have for this slot`;
+}
@@ -0,0 +1,139 @@
+/**
+ * OrderBatch - Plans serving every order it can in one go
+ * Each flavor can be served once a day, so orders compete for flavors; the plan picks the split worth the most
+ */
+
+import type { OrderResolver } from './OrderResolver';
+import { getTierRule, type OutcomeTier } from './OrderGrading';
+import type { OrderBase, PlayerFlavor } from '@/models/GameTypes';
+
+export interface BatchEntry {
+  order: OrderBase;
+  flavorIds: string[]; // One per slot, in slot order
+  tier: OutcomeTier;
+  coins: number; // Coins at the expected tier, before tips
+  diamonds: number; // Guaranteed diamonds; bonus drops aren't counted
+}
+
+export interface BatchPlan {
+  entries: BatchEntry[];
+  skipped: OrderBase[]; // Orders that can't be served, or lost their flavors to better-paying ones
+  totalCoins: number;
+  totalDiamonds: number;
+}
+
+/**
+ * Coins a diamond is worth when weighing one order against another
+ */
+export const DIAMOND_COIN_VALUE = 10;
+
+// Per-slot candidates and per-order options kept for the board-wide search
+const MAX_CANDIDATES_PER_SLOT = 6;
+const MAX_OPTIONS_PER_ORDER = 6;
+// Past this many search steps the best plan found so far is used
+const SEARCH_BUDGET = 50000;
+
+const rewardValue = (entry: Pick<BatchEntry, 'coins' | 'diamonds'>) => entry.coins + entry.diamonds * DIAMOND_COIN_VALUE;
+
+/**
+ * The most valuable set of orders the collection can serve without reusing a flavor
+ */
+export function planBatch(orders: OrderBase[], resolver: OrderResolver): BatchPlan {
+  const options = orders
+    .map(order => ({ order, options: getOrderOptions(order, resolver) }))
+    .filter(entry => entry.options.length > 0)
+    // Richest orders first, so the bound prunes early
+    .sort((a, b) => rewardValue(b.options[0]!) - rewardValue(a.options[0]!));
+
+  // Best value still reachable from each position, for pruning
+  const remainingBest: number[] = new Array(options.length + 1).fill(0);
+  for (let i = options.length - 1; i >= 0; i--) {
+    remainingBest[i] = remainingBest[i + 1]! + rewardValue(options[i]!.options[0]!);
+  }
+
+  let best: BatchEntry[] = [];
+  let bestValue = 0;
+  let steps = 0;
+  const chosen: BatchEntry[] = [];
+  const used = new Set<string>();
+
+  const search = (index: number, value: number): void => {
+    if (++steps > SEARCH_BUDGET) return;
+    if (value > bestValue) {
+      best = [...chosen];
+      bestValue = value;
+    }
+    if (index === options.length || value + remainingBest[index]! <= bestValue) return;
+
+    for (const option of options[index]!.options) {
+      if (option.flavorIds.some(flavorId => used.has(flavorId))) continue;
+      option.flavorIds.forEach(flavorId => used.add(flavorId));
+      chosen.push(option);
+      search(index + 1, value + rewardValue(option));
+      chosen.pop();
+      option.flavorIds.forEach(flavorId => used.delete(flavorId));
+    }
+    search(index + 1, value);
+  };
+  search(0, 0);
+
+  const served = new Set(best.map(entry => entry.order.orderId));
+  return {
+    entries: best,
+    skipped: orders.filter(order => !served.has(order.orderId)),
+    totalCoins: best.reduce((sum, entry) => sum + entry.coins, 0),
+    totalDiamonds: best.reduce((sum, entry) => sum + entry.diamonds, 0),
+  };
+}
+
+/**
+ * Valid ways to serve one order, most rewarding first
+ * The cheapest option is always kept so a richer order elsewhere can have the good flavors
+ */
+function getOrderOptions(order: OrderBase, resolver: OrderResolver): BatchEntry[] {
+  // Strongest flavors for the grade, plus the weakest so a crowded board still has something to share
+  const candidates = order.requirements.slots.map((_, index) => {
+    const eligible = [...resolver.getEligibleFlavors(order, index)].sort((a, b) => b.level - a.level);
+    if (eligible.length <= MAX_CANDIDATES_PER_SLOT) return eligible;
+    return [...eligible.slice(0, MAX_CANDIDATES_PER_SLOT - 2), ...eligible.slice(-2)];
+  });
+  if (candidates.length === 0 || candidates.some(list => list.length === 0)) return [];
+
+  const found: Array<{ entry: BatchEntry; levels: number }> = [];
+  const chosen: PlayerFlavor[] = [];
+  const search = (slotIndex: number): void => {
+    if (slotIndex === candidates.length) {
+      const flavorIds = chosen.map(flavor => flavor.flavorId);
+      const resolution = resolver.resolve(order, flavorIds);
+      if (!resolution.valid || !resolution.grade) return;
+
+      const rule = getTierRule(resolution.grade.score);
+      found.push({
+        entry: {
+          order,
+          flavorIds,
+          tier: rule.tier,
+          coins: Math.floor(order.rewards.coins * rule.coinMultiplier),
+          diamonds: order.rewards.diamonds ?? 0,
+        },
+        levels: chosen.reduce((sum, flavor) => sum + flavor.level, 0),
+      });
+      return;
+    }
+    for (const flavor of candidates[slotIndex]!) {
+      if (chosen.some(picked => picked.flavorId === flavor.flavorId)) continue;
+      chosen.push(flavor);
+      search(slotIndex + 1);
+      chosen.pop();
+    }
+  };
+  search(0);
+  if (found.length === 0) return [];
+
+  const byReward = [...found].sort((a, b) => rewardValue(b.entry) - rewardValue(a.entry) || a.levels - b.levels);
+  const cheapest = [...found].sort((a, b) => a.levels - b.levels)[0]!;
+  const options = byReward.slice(0, MAX_OPTIONS_PER_ORDER);
+  if (!options.includes(cheapest)) options.push(cheapest);
+
+  return options.map(option => option.entry);
+}
@@ -0,0 +1,109 @@
+/**
+ * Order chains - Authored multi-step NPC requests from src/data/orderChains.json
+ * Each NPC works through their chains in file order, gated by bond level
+ */
+
+import chainData from '@/data/orderChains.json';
+import type { Affinity, NpcId, OrderChainDef, OrderChainStep, PlayerNpc } from '@/models/GameTypes';
+
+const AFFINITIES: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
+const NPC_IDS: NpcId[] = ['aria', 'kai', 'elias'];
+
+export type OrderChainStatus = 'locked' | 'active' | 'completed';
+
+export interface OrderChainProgress {
+  chain: OrderChainDef;
+  status: OrderChainStatus;
+  completedSteps: number;
+}
+
+/**
+ * Check the authored chains; throws with the offending path like the economy tables do
+ */
+export function parseOrderChains(data: unknown): OrderChainDef[] {
+  const chains = (data as { chains?: OrderChainDef[] } | null)?.chains;
+  if (!Array.isArray(chains)) fail('chains', 'must be a list');
+
+  const seen = new Set<string>();
+  chains.forEach((chain, index) => {
+    const path = `chains[${index}]`;
+    if (typeof chain?.chainId !== 'string' || chain.chainId === '') fail(`${path}.chainId`, 'is missing');
+    if (seen.has(chain.chainId)) fail(`${path}.chainId`, `"${chain.chainId}" is used twice`);
+    seen.add(chain.chainId);
+
+    if (!NPC_IDS.includes(chain.npcId)) fail(`${path}.npcId`, `"${chain.npcId}" is not an NPC`);
+    if (!Number.isInteger(chain.requiredBondLevel) || chain.requiredBondLevel < 1) {
+      fail(`${path}.requiredBondLevel`, 'must be a bond level of at least 1');
+    }
+    if (!Array.isArray(chain.steps) || chain.steps.length === 0) fail(`${path}.steps`, 'need at least one step');
+
+    chain.steps.forEach((step, stepIndex) => {
+      const stepPath = `${path}.steps[${stepIndex}]`;
+      if (!Array.isArray(step.slots) || step.slots.length === 0) fail(`${stepPath}.slots`, 'need at least one slot');
+      step.slots.forEach((slot, slotIndex) => {
+        if (!AFFINITIES.includes(slot.affinity)) {
+          fail(`${stepPath}.slots[${slotIndex}].affinity`, `"${slot.affinity}" is not an affinity`);
+        }
+      });
+      if (typeof step.rewards?.coins !== 'number' || step.rewards.coins < 0) {
+        fail(`${stepPath}.rewards.coins`, 'must be a number of at least 0');
+      }
+    });
+
+    if (typeof chain.finaleMemory?.content !== 'string') fail(`${path}.finaleMemory`, 'is missing');
+  });
+
+  return chains;
+}
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid order chains: ${path} ${problem}`);
+}
+
+export const DEFAULT_ORDER_CHAINS: OrderChainDef[] = parseOrderChains(chainData);
+
+export function getOrderChain(chainId: string, chains = DEFAULT_ORDER_CHAINS): OrderChainDef | undefined {
+  return chains.find(chain => chain.chainId === chainId);
+}
+
+/**
+ * Where the NPC stands on each of their chains
+ * Only the first unfinished chain is active; later ones wait their turn even if the bond allows them
+ */
+export function getChainProgress(
+  npcId: NpcId,
+  playerNpc: PlayerNpc | undefined,
+  chains = DEFAULT_ORDER_CHAINS
+): OrderChainProgress[] {
+  const bondLevel = playerNpc?.level ?? 1;
+  let nextFound = false;
+
+  return chains
+    .filter(chain => chain.npcId === npcId)
+    .map(chain => {
+      const completedSteps = Math.min(playerNpc?.chainProgress[chain.chainId] ?? 0, chain.steps.length);
+      if (completedSteps >= chain.steps.length) {
+        return { chain, status: 'completed' as const, completedSteps };
+      }
+
+      const isNext = !nextFound;
+      nextFound = true;
+      const status: OrderChainStatus = isNext && bondLevel >= chain.requiredBondLevel ? 'active' : 'locked';
+      return { chain, status, completedSteps };
+    });
+}
+
+/**
+ * The step the NPC should ask for next, or null when no chain is open to them
+ */
+export function getNextChainStep(
+  npcId: NpcId,
+  playerNpc: PlayerNpc | undefined,
+  chains = DEFAULT_ORDER_CHAINS
+): { chain: OrderChainDef; step: OrderChainStep; index: number } | null {
+  const active = getChainProgress(npcId, playerNpc, chains).find(progress => progress.status === 'active');
+  if (!active) return null;
+
+  const step = active.chain.steps[active.completedSteps]!;
+  return { chain: active.chain, step, index: active.completedSteps };
+}
@@ -1,9 +1,35 @@
 /**
  * Order Generator - Creates procedural customer orders
+ * The board lives in the player's OrderBoardState, so it survives a reload
  */
 
-import type { OrderBase, Affinity, OrderKind } from '@/models/GameTypes';
+import type {
+  OrderBase,
+  OrderBoardState,
+  OrderDifficulty,
+  OrderRequirements,
+  Affinity,
+  OrderKind,
+  OrderChainDef,
+  CustomerArchetypeDef,
+  EconomyTables,
+} from '@/models/GameTypes';
 import type { EventSystem } from './EventSystem';
+import type { GameStateManager } from './GameStateManager';
+import { RandomService, type RandomStream } from './RandomService';
+import type { OrderResolver, OrderResolution } from './OrderResolver';
+import { calculateOutcome, type OrderOutcome } from './OrderGrading';
+import { DEFAULT_ECONOMY, ORDER_DIFFICULTIES } from './EconomyConfig';
+import { getOrderUrgency } from './OrderScheduler';
+import { rollConsumableDrops } from './Consumables';
+import { DEFAULT_ORDER_CHAINS, getNextChainStep } from './OrderChains';
+import {
+  DEFAULT_CUSTOMER_ARCHETYPES,
+  REPUTATION_GAIN,
+  REPUTATION_LOSS_ON_EXPIRY,
+  getCustomerArchetype,
+  getUnlockedVariants,
+} from './CustomerArchetypes';
 import { NpcId } from '@/models/GameTypes';
 
 export interface OrderGeneratorConfig {
@@ -11,51 +37,222 @@ export interface OrderGeneratorConfig {
   maxActiveOrders: number;
   difficultyScaling: number;
   rewardMultiplier: number;
+  economy: EconomyTables; // Bands, slot counts and reward ranges
+  orderChains: OrderChainDef[]; // Authored NPC request chains
+  customerArchetypes: CustomerArchetypeDef[]; // Who places customer orders
+}
+
+export interface OrderCatchUpResult {
+  expired: OrderBase[];
+  generated: OrderBase[];
+}
+
+export interface OrderSubmission {
+  orderId: string;
+  flavorIds: Array<string | null>; // One per slot, in slot order
+}
+
+export interface CompletedOrder {
+  order: OrderBase;
+  resolution?: OrderResolution; // Absent when the order was completed without a submission
+  outcome?: OrderOutcome;
+}
+
+export interface BatchCompletionResult {
+  completed: Array<{ order: OrderBase; resolution: OrderResolution; outcome?: OrderOutcome }>;
+  rejected: Array<{ orderId: string; reasons: string[] }>; // Any rejection means nothing was completed
 }
 
 export class OrderGenerator {
   private eventSystem: EventSystem;
   private config: OrderGeneratorConfig;
   private activeOrders: OrderBase[] = [];
+  private settledOrders: OrderBase[] = []; // Completed or expired today, kept so they stay that way
   private orderIdCounter = 1;
-  private generationInterval: number | null = null;
-
-  constructor(eventSystem: EventSystem, config?: Partial<OrderGeneratorConfig>) {
+  private started = false;
+  private rng: RandomStream;
+
+  constructor(
+    eventSystem: EventSystem,
+    config?: Partial<OrderGeneratorConfig>,
+    random: RandomService = new RandomService(),
+    private resolver: OrderResolver | null = null,
+    private gameState: GameStateManager | null = null
+  ) {
     this.eventSystem = eventSystem;
+    this.rng = random.stream('orders');
     this.config = {
       baseOrdersPerHour: 12, // 1 order every 5 minutes base rate
       maxActiveOrders: 8,
       difficultyScaling: 1.1, // Increases over time
       rewardMultiplier: 1.0,
+      economy: DEFAULT_ECONOMY,
+      orderChains: DEFAULT_ORDER_CHAINS,
+      customerArchetypes: DEFAULT_CUSTOMER_ARCHETYPES,
       ...config
     };
+
+    // A loaded, imported or reset save brings its own board
+    if (this.gameState) {
+      this.eventSystem.on('game:loaded', () => {
+        this.loadBoard();
+        if (this.started && this.isBoardEmpty()) {
+          this.generateInitialOrders();
+          this.saveBoard();
+        }
+      });
+    }
   }
 
   /**
-   * Start generating orders
+   * Open the board: pick up the saved one, or deal a fresh one
+   * OrderScheduler keeps time from here on
    */
   start(): void {
-    if (this.generationInterval) return;
+    if (this.started) return;
+    this.started = true;
 
-    // Calculate interval in milliseconds
-    const intervalMs = (60 * 60 * 1000) / this.config.baseOrdersPerHour;
-    
-    this.generationInterval = window.setInterval(() => {
-      this.generateOrder();
-    }, intervalMs);
+    this.loadBoard();
+    if (this.isBoardEmpty()) {
+      this.generateInitialOrders();
+      this.saveBoard();
+    }
+  }
 
-    // Generate initial orders
-    this.generateInitialOrders();
+  stop(): void {
+    this.started = false;
   }
 
   /**
-   * Stop generating orders
+   * Add the next scheduled customer order, if there's room on the board
    */
-  stop(): void {
-    if (this.generationInterval) {
-      window.clearInterval(this.generationInterval);
-      this.generationInterval = null;
+  generateNext(now = Date.now()): OrderBase | null {
+    const order = this.generateOrder(now);
+    if (order) {
+      this.saveBoard();
+    }
+    return order;
+  }
+
+  /**
+   * Re-rate each open order's urgency by the time it has left
+   */
+  refreshUrgency(now = Date.now()): OrderBase[] {
+    const changed = this.activeOrders.filter(order => {
+      const urgency = getOrderUrgency(order.expiresAt - now);
+      if (order.urgency === urgency) return false;
+      order.urgency = urgency;
+      return true;
+    });
+    if (changed.length === 0) return changed;
+
+    this.saveBoard();
+    changed.forEach(order => {
+      this.eventSystem.emit('order:urgency_changed', { orderId: order.orderId, urgency: order.urgency! });
+    });
+    return changed;
+  }
+
+  /**
+   * Time between generated orders in milliseconds
+   */
+  getGenerationIntervalMs(): number {
+    return (60 * 60 * 1000) / this.config.baseOrdersPerHour;
+  }
+
+  /**
+   * Replay the time the game was closed: sweep expired orders and add the
+   * ones the interval would have generated, up to maxActiveOrders
+   */
+  catchUp(elapsedMs: number, now = Date.now()): OrderCatchUpResult {
+    const expired = this.cleanupExpiredOrders(now);
+    const generated: OrderBase[] = [];
+
+    const intervalMs = this.getGenerationIntervalMs();
+    const missedTicks = Math.floor(Math.max(0, elapsedMs) / intervalMs);
+    const openSlots = Math.max(0, this.config.maxActiveOrders - this.activeOrders.length);
+
+    // Only the most recent ticks can still be on the board; older ones would have been pushed out or expired
+    const ticks = Math.min(missedTicks, openSlots);
+    const lastTickAt = now - (Math.max(0, elapsedMs) % intervalMs);
+    for (let i = ticks - 1; i >= 0; i--) {
+      const order = this.generateOrder(lastTickAt - i * intervalMs);
+      if (order) {
+        generated.push(order);
+      }
+    }
+
+    if (generated.length > 0) {
+      this.saveBoard();
     }
+    if (expired.length > 0 || generated.length > 0) {
+      console.log(`⏰ Order catch-up: ${expired.length} expired, ${generated.length} new`);
+    }
+    return { expired, generated };
+  }
+
+  /**
+   * Replace the whole board with a fresh day's worth of customer and NPC orders
+   * Orders cleared at closing time don't count against the streak
+   */
+  rebuildBoard(): void {
+    const previousOrders = this.activeOrders;
+    this.activeOrders = [];
+    this.settledOrders = [];
+    previousOrders.forEach(order => {
+      order.status = 'expired';
+      this.eventSystem.emit('order:expired', { order });
+    });
+
+    this.generateInitialOrders();
+    this.saveBoard();
+  }
+
+  /**
+   * Replace the in-memory board with the one in the player's save
+   * An order left 'submitted' never finished completing, so it goes back on offer
+   */
+  loadBoard(): void {
+    const board = this.getBoardState();
+    if (!board) return;
+
+    const orders = [...board.npcOrders, ...board.customerOrders].map(order => ({
+      ...order,
+      status: order.status === 'submitted' ? 'available' as const : order.status,
+    }));
+    this.activeOrders = orders.filter(order => order.status === 'available');
+    this.settledOrders = orders.filter(order => order.status !== 'available');
+
+    // Keep new IDs clear of the ones already on the board
+    const highestId = orders.reduce((max, order) => {
+      const counter = Number(order.orderId.split('_').pop());
+      return Number.isFinite(counter) ? Math.max(max, counter) : max;
+    }, 0);
+    this.orderIdCounter = Math.max(this.orderIdCounter, highestId + 1);
+  }
+
+  /**
+   * Write the board, settled orders included, back to the player's save
+   */
+  private saveBoard(): void {
+    const board = this.getBoardState();
+    if (!board || !this.gameState) return;
+
+    const orders = [...this.activeOrders, ...this.settledOrders].map(order => ({ ...order }));
+    this.gameState.updateOrderBoard({
+      ...board,
+      customerOrders: orders.filter(order => order.kind === 'Customer'),
+      npcOrders: orders.filter(order => order.kind === 'NPC'),
+    });
+  }
+
+  private getBoardState(): OrderBoardState | null {
+    if (!this.gameState?.hasPlayer()) return null;
+    return this.gameState.getPlayer().orderBoard;
+  }
+
+  private isBoardEmpty(): boolean {
+    return this.activeOrders.length === 0 && this.settledOrders.length === 0;
   }
 
   /**
@@ -79,7 +276,7 @@ export class OrderGenerator {
     
     npcs.forEach(npcId => {
       // Generate an NPC order with 100% chance for testing
-      if (Math.random() < 1.0) {
+      if (this.rng.next() < 1.0) {
         this.generateNPCOrder(npcId);
       }
     });
@@ -87,6 +284,7 @@ export class OrderGenerator {
 
   /**
    * Generate a specific NPC order
+   * The NPC asks for the next step of their open order chain, or something off-the-cuff if none is open
    */
   private generateNPCOrder(npcId: NpcId): void {
     if (this.activeOrders.length >= this.config.maxActiveOrders) {
@@ -95,11 +293,15 @@ export class OrderGenerator {
 
     const now = Date.now();
     const baseExpiryTime = 4 * 60 * 60 * 1000; // 4 hours
-    const expiryVariance = (Math.random() - 0.5) * 2 * 60 * 60 * 1000; // ±2 hours
+    const expiryVariance = (this.rng.next() - 0.5) * 2 * 60 * 60 * 1000; // ±2 hours
     
-    const complexity = this.determineNPCOrderComplexity(npcId);
-    const requirements = this.generateNPCRequirements(npcId, complexity);
-    const rewards = this.calculateNPCRewards(npcId, complexity, requirements);
+    const chainStep = this.getNextChainStep(npcId);
+    const requirements = chainStep
+      ? { slots: chainStep.step.slots.map(slot => ({ ...slot })) }
+      : this.generateNPCRequirements(npcId);
+    const rewards = chainStep
+      ? { ...chainStep.step.rewards, memory: true }
+      : this.calculateNPCRewards();
 
     const order: OrderBase & { npcId: NpcId } = {
       orderId: `npc_${npcId}_${this.orderIdCounter++}`,
@@ -110,9 +312,16 @@ export class OrderGenerator {
       rewards,
       status: 'available',
       customerType: this.getNPCDisplayName(npcId),
-      urgency: this.determineUrgency(expiryVariance),
+      urgency: getOrderUrgency(baseExpiryTime + expiryVariance),
       npcId // Add NPC ID for memory generation
     };
+    if (chainStep) {
+      order.chain = {
+        chainId: chainStep.chain.chainId,
+        step: chainStep.index,
+        totalSteps: chainStep.chain.steps.length,
+      };
+    }
 
     this.activeOrders.push(order);
     this.eventSystem.emit('order:generated', { order });
@@ -122,63 +331,44 @@ export class OrderGenerator {
   }
 
   /**
-   * Determine complexity for NPC orders (generally higher than regular orders)
+   * The NPC's next chain step, unless that step is already waiting on the board
    */
-  private determineNPCOrderComplexity(_npcId: NpcId): number {
-    // NPC orders are generally more complex and rewarding
-    const weights = [10, 30, 40, 15, 5]; // Favor medium-high complexity
-    const random = Math.random() * 100;
-    
-    let cumulative = 0;
-    for (let i = 0; i < weights.length; i++) {
-      cumulative += weights[i]!;
-      if (random <= cumulative) {
-        return i + 1;
-      }
-    }
-    return 3; // Default to medium complexity
+  private getNextChainStep(npcId: NpcId): ReturnType<typeof getNextChainStep> {
+    if (!this.gameState?.hasPlayer()) return null;
+
+    const next = getNextChainStep(npcId, this.gameState.getPlayer().npc[npcId], this.config.orderChains);
+    const alreadyOffered = this.activeOrders.some(order => order.chain?.chainId === next?.chain.chainId);
+    return next && !alreadyOffered ? next : null;
   }
 
   /**
-   * Generate requirements based on NPC preferences
+   * Generate requirements from the NPC's preferred affinities
    */
-  private generateNPCRequirements(npcId: NpcId, complexity: number): { slots: Array<{ affinity: Affinity; minLevel?: number }> } {
+  private generateNPCRequirements(npcId: NpcId): OrderRequirements {
+    const { minSlots, maxSlots, minLevel } = this.config.economy.orderGeneration.npc;
     const npcPreferences = this.getNPCPreferences(npcId);
-    const slotCount = Math.min(complexity + 1, 5); // NPC orders can be more complex
-    
+    const slotCount = minSlots + this.rng.int(maxSlots - minSlots + 1);
+
     const slots = [];
     for (let i = 0; i < slotCount; i++) {
-      const affinity = npcPreferences[Math.floor(Math.random() * npcPreferences.length)]!;
-      slots.push({
-        affinity,
-        minLevel: complexity >= 3 ? 2 : 1
-      });
+      slots.push({ affinity: this.rng.pick(npcPreferences)!, minLevel });
     }
-    
+
     return { slots };
   }
 
   /**
-   * Calculate rewards for NPC orders (includes memory generation)
+   * NPC orders always pay coins, diamonds and a memory
    */
-  private calculateNPCRewards(_npcId: NpcId, complexity: number, requirements: { slots: Array<{ affinity: Affinity; minLevel?: number }> }): { coins: number; diamonds?: number; memory?: boolean } {
-    const baseCoins = 50; // Higher base than regular orders
-    const complexityBonus = complexity * 25;
-    const slotBonus = requirements.slots.length * 15;
-    
-    const totalCoins = Math.floor(baseCoins + complexityBonus + slotBonus);
-    
-    const rewards: { coins: number; diamonds?: number; memory?: boolean } = { 
-      coins: totalCoins,
+  private calculateNPCRewards(): { coins: number; diamonds?: number; memory?: boolean } {
+    const { coinRewards, diamondRewards, orderGeneration } = this.config.economy;
+    const { coinSpread, diamondSpread } = orderGeneration.npc;
+
+    return {
+      coins: Math.floor((coinRewards.npcBase + this.rng.int(coinSpread + 1)) * this.config.rewardMultiplier),
+      diamonds: diamondRewards.npcBase + this.rng.int(diamondSpread + 1),
       memory: true // NPC orders always generate memories
     };
-    
-    // Higher chance for diamonds on NPC orders
-    if (complexity >= 3 && Math.random() < 0.6) {
-      rewards.diamonds = Math.floor(complexity * 3 + Math.random() * 8);
-    }
-    
-    return rewards;
   }
 
   /**
@@ -210,168 +400,316 @@ export class OrderGenerator {
   /**
    * Generate a single order
    */
-  private generateOrder(): void {
+  private generateOrder(now = Date.now()): OrderBase | null {
     if (this.activeOrders.length >= this.config.maxActiveOrders) {
-      return;
+      return null;
     }
 
-    const order = this.createRandomOrder();
+    const order = this.createRandomOrder(now);
     this.activeOrders.push(order);
     
     this.eventSystem.emit('order:generated', { order });
+    return order;
   }
 
   /**
    * Create a random customer order
+   * The archetype picks the flavors it leans toward, how long it waits and which variant shows up
    */
-  private createRandomOrder(): OrderBase {
-    const now = Date.now();
-    const baseExpiryTime = 4 * 60 * 60 * 1000; // 4 hours base
-    const expiryVariance = Math.random() * 2 * 60 * 60 * 1000; // ±2 hours
+  private createRandomOrder(now = Date.now()): OrderBase {
+    const archetype = this.rollArchetype();
+    const reputation = this.gameState?.getCustomerReputation(archetype.archetypeId) ?? 0;
+    const variant = this.rng.pick(getUnlockedVariants(archetype, reputation))!;
+    const [minHours, maxHours] = archetype.patienceHours;
+    const patienceMs = (minHours + this.rng.next() * (maxHours - minHours)) * 60 * 60 * 1000;
     
-    const complexity = this.determineOrderComplexity();
-    const requirements = this.generateRequirements(complexity);
-    const rewards = this.calculateRewards(complexity, requirements);
+    const difficulty = this.rollDifficulty();
+    const requirements = this.generateRequirements(difficulty, archetype);
+    const rewards = this.calculateRewards(difficulty, variant.coinMultiplier);
 
     return {
       orderId: `customer_${this.orderIdCounter++}`,
       kind: 'Customer' as OrderKind,
       createdAt: now,
-      expiresAt: now + baseExpiryTime + expiryVariance,
+      expiresAt: now + patienceMs,
       requirements,
       rewards,
+      difficulty,
       status: 'available',
-      customerType: this.selectCustomerType(),
-      urgency: this.determineUrgency(expiryVariance)
+      customerType: variant.name,
+      archetypeId: archetype.archetypeId,
+      urgency: getOrderUrgency(patienceMs)
     };
   }
 
   /**
-   * Determine order complexity (1-5)
+   * Pick who walks in by archetype weight
    */
-  private determineOrderComplexity(): number {
-    const weights = [40, 30, 20, 8, 2]; // Favor simpler orders
-    const random = Math.random() * 100;
-    
-    let cumulative = 0;
-    for (let i = 0; i < weights.length; i++) {
-      cumulative += weights[i]!;
-      if (random <= cumulative) {
-        return i + 1;
-      }
+  private rollArchetype(): CustomerArchetypeDef {
+    const archetypes = this.config.customerArchetypes;
+    const totalWeight = archetypes.reduce((sum, archetype) => sum + archetype.weight, 0);
+    let roll = this.rng.next() * totalWeight;
+
+    for (const archetype of archetypes) {
+      roll -= archetype.weight;
+      if (roll < 0) return archetype;
+    }
+    return archetypes[0]!;
+  }
+
+  /**
+   * Pick a difficulty band by its weight in the economy tables
+   */
+  private rollDifficulty(): OrderDifficulty {
+    const bands = this.config.economy.orderGeneration.customerBands;
+    const totalWeight = ORDER_DIFFICULTIES.reduce((sum, difficulty) => sum + bands[difficulty].weightPct, 0);
+    let roll = this.rng.next() * totalWeight;
+
+    for (const difficulty of ORDER_DIFFICULTIES) {
+      roll -= bands[difficulty].weightPct;
+      if (roll < 0) return difficulty;
     }
-    return 1;
+    return 'Easy';
   }
 
   /**
-   * Generate order requirements based on complexity
+   * Generate slots at the band's level floor; a stretch roll asks one slot for a level more
+   * Each slot leans toward the archetype's preferred affinities
    */
-  private generateRequirements(complexity: number): { slots: Array<{ affinity: Affinity; minLevel?: number }> } {
+  private generateRequirements(difficulty: OrderDifficulty, archetype?: CustomerArchetypeDef): OrderRequirements {
+    const { customerBands, stretchChancePct } = this.config.economy.orderGeneration;
+    const band = customerBands[difficulty];
     const affinities: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
-    const slots: Array<{ affinity: Affinity; minLevel?: number }> = [];
-    
-    // Number of slots based on complexity
-    const slotCount = Math.min(complexity, 3);
-    
-    for (let i = 0; i < slotCount; i++) {
-      const affinity = affinities[Math.floor(Math.random() * affinities.length)]!;
-      const slot: { affinity: Affinity; minLevel?: number } = { affinity };
-      
-      // Higher complexity orders may require higher level flavors
-      if (complexity >= 3 && Math.random() < 0.4) {
-        slot.minLevel = Math.floor(Math.random() * 3) + 2; // Level 2-4
-      }
-      
-      slots.push(slot);
+    const preferred = archetype?.preferredAffinities ?? [];
+
+    const slots: OrderRequirements['slots'] = [];
+    for (let i = 0; i < band.slots; i++) {
+      const leansPreferred = preferred.length > 0 && this.rng.next() * 100 < archetype!.preferenceChancePct;
+      slots.push({ affinity: this.rng.pick(leansPreferred ? preferred : affinities)!, minLevel: band.minLevel });
     }
-    
+
+    if (this.rng.next() * 100 < stretchChancePct) {
+      slots[this.rng.int(slots.length)]!.minLevel = band.minLevel + 1;
+    }
+
     return { slots };
   }
 
   /**
-   * Calculate rewards based on complexity and requirements
+   * Coins from the band's range; diamonds are rolled when the order is served
+   * Better-paying customer variants scale the coins
    */
-  private calculateRewards(complexity: number, requirements: { slots: Array<{ affinity: Affinity; minLevel?: number }> }): { coins: number; diamonds?: number } {
-    const baseCoins = 30;
-    const complexityBonus = complexity * 15;
-    
-    // Level requirement bonuses
-    const levelBonus = requirements.slots.reduce((bonus, slot) => {
-      return bonus + (slot.minLevel ? (slot.minLevel - 1) * 10 : 0);
-    }, 0);
-    
-    const totalCoins = Math.floor((baseCoins + complexityBonus + levelBonus) * this.config.rewardMultiplier);
-    
-    const rewards: { coins: number; diamonds?: number } = { coins: totalCoins };
-    
-    // Chance for diamond rewards on complex orders
-    if (complexity >= 4 && Math.random() < 0.3) {
-      rewards.diamonds = Math.floor(complexity * 2 + Math.random() * 5);
-    }
-    
-    return rewards;
+  private calculateRewards(difficulty: OrderDifficulty, coinMultiplier = 1): { coins: number; diamonds?: number } {
+    const { coinRewards, orderGeneration } = this.config.economy;
+    const band = orderGeneration.customerBands[difficulty];
+    const baseCoins = {
+      Easy: coinRewards.customerEasy,
+      Medium: coinRewards.customerMed,
+      Hard: coinRewards.customerHard,
+    }[difficulty];
+
+    return {
+      coins: Math.floor((baseCoins + this.rng.int(band.coinSpread + 1)) * coinMultiplier * this.config.rewardMultiplier),
+    };
   }
 
   /**
-   * Select customer type for variety
+   * Diamonds a customer order drops on top of its coins; bands with a diamond range drop them more often on a streak
    */
-  private selectCustomerType(): string {
-    const types = [
-      'Regular Customer',
-      'Coffee Enthusiast',
-      'Sweet Tooth',
-      'Adventurous Eater',
-      'Health Conscious',
-      'Busy Professional',
-      'Student',
-      'Food Blogger'
-    ];
-    
-    return types[Math.floor(Math.random() * types.length)]!;
+  private rollStreakDiamonds(order: OrderBase): number {
+    if (order.kind !== 'Customer' || !order.difficulty) return 0;
+    const { diamondRewards, orderGeneration } = this.config.economy;
+    const band = orderGeneration.customerBands[order.difficulty];
+    if (!band.diamondRange) return 0;
+
+    const streak = this.gameState?.getOrderStreak() ?? 0;
+    const chances = diamondRewards.customerChancePctByStreak;
+    const diamondChancePct = chances[Math.min(streak, chances.length - 1)] ?? 0;
+    if (this.rng.next() * 100 >= diamondChancePct) return 0;
+    return band.diamondRange[0] + this.rng.int(band.diamondRange[1] - band.diamondRange[0] + 1);
   }
 
   /**
-   * Determine urgency based on expiry variance
+   * Customers served well may leave a tip on top of the coins; only Great and Perfect service earns one
    */
-  private determineUrgency(expiryVariance: number): 'low' | 'medium' | 'high' {
-    if (expiryVariance < -1 * 60 * 60 * 1000) return 'high'; // Less than 3 hours
-    if (expiryVariance < 0) return 'medium'; // Less than 4 hours
-    return 'low'; // 4+ hours
+  private addTip(archetypeId: string, outcome: OrderOutcome): void {
+    const archetype = getCustomerArchetype(archetypeId, this.config.customerArchetypes);
+    if (!archetype || outcome.tier === 'Good') return;
+    if (this.rng.next() * 100 >= archetype.tipping.chancePct) return;
+
+    outcome.tip = Math.max(1, Math.floor((outcome.coins * archetype.tipping.coinPct) / 100));
+    outcome.coins += outcome.tip;
+  }
+
+  /**
+   * Move the player's standing with an archetype, announcing any variant it brings in
+   */
+  private changeReputation(archetypeId: string, delta: number): void {
+    if (!this.gameState?.hasPlayer()) return;
+
+    const previous = this.gameState.getCustomerReputation(archetypeId);
+    this.gameState.changeCustomerReputation(archetypeId, delta);
+    const reputation = this.gameState.getCustomerReputation(archetypeId);
+
+    const archetype = getCustomerArchetype(archetypeId, this.config.customerArchetypes);
+    archetype?.variants
+      .filter(variant => variant.minReputation > previous && variant.minReputation <= reputation)
+      .forEach(variant => {
+        this.eventSystem.emit('ui:notification', {
+          message: `⭐ Word is spreading: ${variant.name} customers will start visiting`,
+          type: 'success',
+        });
+      });
   }
 
   /**
    * Complete an order
+   * When flavors are submitted they must pass the resolver, or the order stays open and this returns null
    */
-  completeOrder(orderId: string): boolean {
+  completeOrder(orderId: string, flavorIds?: Array<string | null>): CompletedOrder | null {
     console.log(`🎯 OrderGenerator.completeOrder called for: ${orderId}`);
     const orderIndex = this.activeOrders.findIndex(o => o.orderId === orderId);
     if (orderIndex === -1) {
       console.log(`❌ Order ${orderId} not found in active orders`);
       console.log(`📋 Available order IDs:`, this.activeOrders.map(o => o.orderId));
-      return false;
+      return null;
     }
 
-    const order = this.activeOrders[orderIndex];
+    const order = this.activeOrders[orderIndex]!;
+    let resolution: OrderResolution | undefined;
+    if (flavorIds) {
+      if (!this.resolver) {
+        throw new Error('OrderGenerator needs an OrderResolver to check submitted flavors');
+      }
+      resolution = this.resolver.resolve(order, flavorIds);
+      if (!resolution.valid) {
+        this.eventSystem.emit('order:submitted', { orderId, success: false });
+        console.warn(`❌ Order ${orderId} rejected:`, resolution.reasons);
+        return null;
+      }
+
+      order.status = 'submitted';
+      this.saveBoard();
+      this.eventSystem.emit('order:submitted', { orderId, success: true });
+    }
+
+    const outcome = this.settleOrder(order, resolution);
+    return { order, resolution, outcome };
+  }
+
+  /**
+   * Serve several orders as one transaction: every submission is checked first,
+   * and if any fails, or two share a flavor, none of them are completed
+   */
+  completeOrders(submissions: OrderSubmission[]): BatchCompletionResult {
+    if (!this.resolver) {
+      throw new Error('OrderGenerator needs an OrderResolver to check submitted flavors');
+    }
+
+    const checked: Array<{ order: OrderBase; resolution: OrderResolution }> = [];
+    const rejected: BatchCompletionResult['rejected'] = [];
+    const claimed = new Set<string>();
+    submissions.forEach(({ orderId, flavorIds }) => {
+      const order = this.activeOrders.find(o => o.orderId === orderId);
+      if (!order) {
+        rejected.push({ orderId, reasons: ['This order is no longer available'] });
+        return;
+      }
+
+      const resolution = this.resolver!.resolve(order, flavorIds);
+      const reasons = [...resolution.reasons];
+      flavorIds.forEach(flavorId => {
+        if (flavorId && claimed.has(flavorId)) reasons.push(`${flavorId} is already going to another order`);
+        if (flavorId) claimed.add(flavorId);
+      });
+      if (reasons.length > 0) {
+        rejected.push({ orderId, reasons });
+      } else {
+        checked.push({ order, resolution });
+      }
+    });
+
+    if (rejected.length > 0) {
+      rejected.forEach(({ orderId }) => this.eventSystem.emit('order:submitted', { orderId, success: false }));
+      console.warn(`❌ Batch of ${submissions.length} orders rejected:`, rejected);
+      return { completed: [], rejected };
+    }
+
+    checked.forEach(({ order }) => {
+      order.status = 'submitted';
+    });
+    this.saveBoard();
+    checked.forEach(({ order }) => this.eventSystem.emit('order:submitted', { orderId: order.orderId, success: true }));
+
+    const completed = checked.map(({ order, resolution }) => ({
+      order,
+      resolution,
+      outcome: this.settleOrder(order, resolution, true),
+    }));
+    return { completed, rejected };
+  }
+
+  /**
+   * Take an order off the board as completed and pay out its side effects
+   * Batch completions are flagged so listeners can leave the results screen to the batch
+   */
+  private settleOrder(order: OrderBase, resolution?: OrderResolution, batch = false): OrderOutcome | undefined {
     console.log(`📦 Completing order:`, order);
-    this.activeOrders.splice(orderIndex, 1);
+    // Judged by the streak the order is served on, so one built since the board was dealt still pays
+    const streakDiamonds = this.rollStreakDiamonds(order);
+    if (streakDiamonds > 0) {
+      order.rewards = { ...order.rewards, diamonds: (order.rewards.diamonds ?? 0) + streakDiamonds };
+    }
+    this.activeOrders = this.activeOrders.filter(o => o !== order);
+    order.status = 'completed';
+    this.settledOrders.push(order);
+    this.saveBoard();
+    if (order.kind === 'Customer') {
+      this.gameState?.extendOrderStreak();
+    }
+    if (order.chain && order.npcId) {
+      this.gameState?.completeChainStep(order.npcId, order.chain);
+    }
+    const outcome = resolution?.grade
+      ? calculateOutcome(order, resolution.grade, () => this.rng.next())
+      : undefined;
+    if (outcome) {
+      outcome.consumables = rollConsumableDrops(order, outcome.tier, this.config.economy.consumableDrops, () => this.rng.next());
+    }
+    if (order.archetypeId) {
+      if (outcome) this.addTip(order.archetypeId, outcome);
+      this.changeReputation(order.archetypeId, REPUTATION_GAIN[outcome?.tier ?? 'Good']);
+    }
     
-    console.log(`📡 Emitting order:completed event for order ${orderId}`);
-    this.eventSystem.emit('order:completed', { order });
-    return true;
+    console.log(`📡 Emitting order:completed event for order ${order.orderId}`);
+    this.eventSystem.emit('order:completed', { order, resolution, outcome, ...(batch ? { batch } : {}) });
+    return outcome;
   }
 
   /**
    * Remove expired orders
    */
-  cleanupExpiredOrders(): void {
-    const now = Date.now();
+  cleanupExpiredOrders(now = Date.now()): OrderBase[] {
     const expiredOrders = this.activeOrders.filter(o => o.expiresAt < now);
-    
+    if (expiredOrders.length === 0) return expiredOrders;
+
+    this.activeOrders = this.activeOrders.filter(o => o.expiresAt >= now);
+    expiredOrders.forEach(order => {
+      order.status = 'expired';
+      this.settledOrders.push(order);
+    });
+    this.saveBoard();
+    if (expiredOrders.some(order => order.kind === 'Customer')) {
+      this.gameState?.breakOrderStreak();
+    }
+    expiredOrders.forEach(order => {
+      if (order.archetypeId) this.changeReputation(order.archetypeId, -REPUTATION_LOSS_ON_EXPIRY);
+    });
+
     expiredOrders.forEach(order => {
       this.eventSystem.emit('order:expired', { order });
     });
-    
-    this.activeOrders = this.activeOrders.filter(o => o.expiresAt >= now);
+    return expiredOrders;
   }
 
   /**
@@ -407,12 +745,6 @@ export class OrderGenerator {
    */
   updateConfig(newConfig: Partial<OrderGeneratorConfig>): void {
     this.config = { ...this.config, ...newConfig };
-    
-    // Restart with new config if currently running
-    if (this.generationInterval) {
-      this.stop();
-      this.start();
-    }
   }
 
   /**
@@ -421,5 +753,6 @@ export class OrderGenerator {
   destroy(): void {
     this.stop();
     this.activeOrders = [];
+    this.settledOrders = [];
   }
 }
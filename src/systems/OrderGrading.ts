@@ -0,0 +1,107 @@
+/**
+ * Order grading - Scores a valid submission and turns the score into a quality tier
+ */
+
+import type { ConsumableAmounts, OrderBase, Rarity } from '@/models/GameTypes';
+import type { SlotResolution } from './OrderResolver';
+
+export type OutcomeTier = 'Good' | 'Great' | 'Perfect';
+
+export interface GradeFactor {
+  label: string;
+  points: number;
+  maxPoints: number;
+}
+
+export interface OrderGrade {
+  tier: OutcomeTier;
+  score: number; // 0-1 share of the points this order could award
+  breakdown: GradeFactor[];
+}
+
+/**
+ * What a finished order actually paid out
+ */
+export interface OrderOutcome {
+  tier: OutcomeTier;
+  breakdown: GradeFactor[];
+  coins: number;
+  diamonds: number;
+  bondXp: number;
+  tip?: number; // Customer tip, already included in coins
+  consumables?: ConsumableAmounts; // Drops for flavor upgrades
+}
+
+export interface OutcomeTierRule {
+  tier: OutcomeTier;
+  minScore: number;
+  coinMultiplier: number;
+  bonusDiamondChance: number;
+  bondXpMultiplier: number;
+}
+
+// Highest tier first; the first rule whose minScore is met wins
+export const OUTCOME_TIERS: OutcomeTierRule[] = [
+  { tier: 'Perfect', minScore: 0.75, coinMultiplier: 1.5, bonusDiamondChance: 0.35, bondXpMultiplier: 2 },
+  { tier: 'Great', minScore: 0.45, coinMultiplier: 1.25, bonusDiamondChance: 0.15, bondXpMultiplier: 1.5 },
+  { tier: 'Good', minScore: 0, coinMultiplier: 1, bonusDiamondChance: 0, bondXpMultiplier: 1 },
+];
+
+export const BASE_ORDER_BOND_XP = 25;
+
+const POINTS_PER_MATCH = 2;
+const MAX_LEVEL_SURPLUS = 2;
+const RARITY_POINTS: Record<Rarity, number> = { '3★': 0, '4★': 1, '5★': 2 };
+const FAVORITE_POINTS = 2;
+
+/**
+ * Score the slots of a valid submission
+ * NPC favorites only count on NPC orders, so customer orders grade on the first three factors
+ */
+export function gradeOrder(
+  order: OrderBase,
+  slots: SlotResolution[],
+  favoriteAffinities: readonly string[] = []
+): OrderGrade {
+  const slotCount = slots.length;
+  const factor = (label: string, perSlot: (slot: SlotResolution) => number, maxPerSlot: number): GradeFactor => ({
+    label,
+    points: slots.reduce((sum, slot) => sum + (slot.passed ? perSlot(slot) : 0), 0),
+    maxPoints: maxPerSlot * slotCount,
+  });
+
+  const breakdown = [
+    factor('Affinity matches', () => POINTS_PER_MATCH, POINTS_PER_MATCH),
+    factor('Level surplus', slot => Math.min(MAX_LEVEL_SURPLUS, Math.max(0, (slot.level ?? 0) - slot.minLevel)), MAX_LEVEL_SURPLUS),
+    factor('Flavor rarity', slot => (slot.rarity ? RARITY_POINTS[slot.rarity] : 0), RARITY_POINTS['5★']),
+  ];
+  if (order.kind === 'NPC' && order.npcId) {
+    breakdown.push(factor('Favorite flavors', slot => (favoriteAffinities.includes(slot.affinity) ? FAVORITE_POINTS : 0), FAVORITE_POINTS));
+  }
+
+  const points = breakdown.reduce((sum, f) => sum + f.points, 0);
+  const maxPoints = breakdown.reduce((sum, f) => sum + f.maxPoints, 0);
+  const score = maxPoints > 0 ? points / maxPoints : 0;
+
+  return { tier: getTierRule(score).tier, score, breakdown };
+}
+
+export function getTierRule(score: number): OutcomeTierRule {
+  return OUTCOME_TIERS.find(rule => score >= rule.minScore) ?? OUTCOME_TIERS[OUTCOME_TIERS.length - 1]!;
+}
+
+/**
+ * Apply a grade to an order's base rewards; `roll` decides the bonus diamonds
+ */
+export function calculateOutcome(order: OrderBase, grade: OrderGrade, roll: () => number): OrderOutcome {
+  const rule = getTierRule(grade.score);
+  const bonusDiamonds = roll() < rule.bonusDiamondChance ? 1 + Math.floor(roll() * 3) : 0;
+
+  return {
+    tier: rule.tier,
+    breakdown: grade.breakdown,
+    coins: Math.floor(order.rewards.coins * rule.coinMultiplier),
+    diamonds: (order.rewards.diamonds ?? 0) + bonusDiamonds,
+    bondXp: order.kind === 'NPC' ? Math.floor(BASE_ORDER_BOND_XP * rule.bondXpMultiplier) : 0,
+  };
+}
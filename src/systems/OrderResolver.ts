@@ -0,0 +1,172 @@
+/**
+ * OrderResolver - Decides whether a set of flavors actually fulfills an order
+ * The single authority for order submissions, shared by the UI and OrderGenerator
+ */
+
+import type { GameStateManager } from './GameStateManager';
+import { gradeOrder, type OrderGrade } from './OrderGrading';
+import { DEFAULT_ECONOMY } from './EconomyConfig';
+import type { Affinity, FlavorDef, OrderBase, PlayerFlavor, Rarity } from '@/models/GameTypes';
+
+export type FlavorDefLookup = (flavorId: string) => Pick<FlavorDef, 'flavorId' | 'name' | 'affinity' | 'rarity' | 'basePower' | 'secondaryAffinity'> | undefined;
+export type FavoriteAffinitiesLookup = (npcId: string) => readonly string[];
+
+export interface SlotResolution {
+  slotIndex: number;
+  affinity: Affinity;
+  minLevel: number;
+  flavorId: string | null;
+  power: number;
+  level?: number;
+  rarity?: Rarity;
+  passed: boolean;
+  reason?: string;
+}
+
+export interface OrderResolution {
+  orderId: string;
+  valid: boolean;
+  slots: SlotResolution[];
+  totalPower: number;
+  minPower?: number;
+  reasons: string[]; // Every failure, slot problems first
+  grade?: OrderGrade; // Only for valid submissions
+}
+
+/**
+ * Flavor power grows by half its base power per level above 1, and ascension stars raise the base
+ */
+export function getFlavorPower(
+  basePower: number,
+  level: number,
+  ascension = 0,
+  powerBonusPerStar = DEFAULT_ECONOMY.ascension.powerBonusPerStar
+): number {
+  return Math.floor(basePower * (1 + ascension * powerBonusPerStar) * (1 + (level - 1) * 0.5));
+}
+
+/**
+ * Whether a flavor can fill a slot asking for this affinity; Flavor Lab hybrids fill either of theirs
+ */
+export function matchesAffinity(def: Pick<FlavorDef, 'affinity' | 'secondaryAffinity'>, affinity: Affinity): boolean {
+  return def.affinity === affinity || def.secondaryAffinity === affinity;
+}
+
+export class OrderResolver {
+  constructor(
+    private gameState: GameStateManager,
+    private lookupFlavorDef: FlavorDefLookup,
+    private lookupFavoriteAffinities: FavoriteAffinitiesLookup = () => []
+  ) {}
+
+  getFlavorDef(flavorId: string): ReturnType<FlavorDefLookup> {
+    return this.lookupFlavorDef(flavorId);
+  }
+
+  /**
+   * Check a submission, one flavor per slot in slot order
+   */
+  resolve(order: OrderBase, flavorIds: Array<string | null | undefined>): OrderResolution {
+    const player = this.gameState.getPlayer();
+    const usedToday = new Set(player.orderBoard.usedFlavorIds);
+    const seen = new Set<string>();
+
+    const slots = order.requirements.slots.map((slot, slotIndex): SlotResolution => {
+      const flavorId = flavorIds[slotIndex] ?? null;
+      const minLevel = slot.minLevel ?? 1;
+      const result: SlotResolution = { slotIndex, affinity: slot.affinity, minLevel, flavorId, power: 0, passed: false };
+      const fail = (reason: string) => ({ ...result, reason });
+
+      if (!flavorId) return fail('no flavor chosen');
+
+      const owned = player.flavors.find(f => f.flavorId === flavorId);
+      if (!owned) return fail(`${flavorId} is not in your collection`);
+
+      const def = this.lookupFlavorDef(flavorId);
+      if (!def) return fail(`${flavorId} is not a known flavor`);
+
+      if (seen.has(flavorId)) return fail(`${def.name} is already used in another slot`);
+      seen.add(flavorId);
+
+      if (usedToday.has(flavorId)) return fail(`${def.name} was already served today`);
+      if (!matchesAffinity(def, slot.affinity)) return fail(`${def.name} is ${def.affinity}, not ${slot.affinity}`);
+      if (owned.level < minLevel) return fail(`${def.name} is level ${owned.level}, needs level ${minLevel}`);
+
+      return {
+        ...result,
+        power: getFlavorPower(def.basePower, owned.level, owned.ascension),
+        level: owned.level,
+        rarity: def.rarity,
+        passed: true,
+      };
+    });
+
+    const totalPower = slots.reduce((sum, slot) => sum + slot.power, 0);
+    const minPower = order.requirements.minPower;
+    const reasons = slots
+      .filter(slot => !slot.passed)
+      .map(slot => `Slot ${slot.slotIndex + 1}: ${slot.reason}`);
+
+    if (flavorIds.length > slots.length) {
+      reasons.push(`${flavorIds.length} flavors submitted for ${slots.length} slots`);
+    }
+    if (minPower !== undefined && totalPower < minPower) {
+      reasons.push(`Total power ${totalPower} is below the required ${minPower}`);
+    }
+
+    const valid = reasons.length === 0;
+    const favorites = order.npcId ? this.lookupFavoriteAffinities(order.npcId) : [];
+
+    return {
+      orderId: order.orderId,
+      valid,
+      slots,
+      totalPower,
+      minPower,
+      reasons,
+      grade: valid ? gradeOrder(order, slots, favorites) : undefined,
+    };
+  }
+
+  /**
+   * Owned flavors that could go in a slot, ignoring the rest of the order
+   */
+  getEligibleFlavors(order: OrderBase, slotIndex: number): PlayerFlavor[] {
+    const slot = order.requirements.slots[slotIndex];
+    if (!slot) return [];
+
+    const player = this.gameState.getPlayer();
+    const usedToday = new Set(player.orderBoard.usedFlavorIds);
+    return player.flavors.filter(flavor => {
+      const def = this.lookupFlavorDef(flavor.flavorId);
+      return !!def &&
+        matchesAffinity(def, slot.affinity) &&
+        flavor.level >= (slot.minLevel ?? 1) &&
+        !usedToday.has(flavor.flavorId);
+    });
+  }
+
+  /**
+   * Whether the player owns any combination of flavors that fulfills the order
+   */
+  canFulfill(order: OrderBase): boolean {
+    const candidates = order.requirements.slots.map((_, index) => this.getEligibleFlavors(order, index));
+    const chosen: string[] = [];
+
+    // Orders have at most a handful of slots, so a plain backtracking search is plenty
+    const search = (slotIndex: number): boolean => {
+      if (slotIndex === candidates.length) {
+        return this.resolve(order, chosen).valid;
+      }
+      for (const flavor of candidates[slotIndex]!) {
+        if (chosen.includes(flavor.flavorId)) continue;
+        chosen.push(flavor.flavorId);
+        if (search(slotIndex + 1)) return true;
+        chosen.pop();
+      }
+      return false;
+    };
+
+    return search(0);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * OrderScheduler - The order board's clock
+ * Ages open orders, expires them on time and refills the board at the generation rate
+ */
+
+import type { EventSystem } from './EventSystem';
+import type { OrderGenerator } from './OrderGenerator';
+import type { OrderBase } from '@/models/GameTypes';
+
+export type OrderUrgency = NonNullable<OrderBase['urgency']>;
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Urgency from the time an order has left: under an hour is urgent, under two is priority
+ */
+export function getOrderUrgency(remainingMs: number): OrderUrgency {
+  if (remainingMs < HOUR) return 'high';
+  if (remainingMs < 2 * HOUR) return 'medium';
+  return 'low';
+}
+
+export class OrderScheduler {
+  private tickInterval: number | null = null;
+  private nextGenerationAt = 0;
+
+  constructor(
+    private eventSystem: EventSystem,
+    private orderGenerator: OrderGenerator,
+    private tickMs = 15 * 1000
+  ) {}
+
+  start(now = Date.now()): void {
+    if (this.tickInterval) return;
+
+    // Time spent closed is OfflineProgress's job, so the first new order is a full interval away
+    this.nextGenerationAt = now + this.orderGenerator.getGenerationIntervalMs();
+    this.tickInterval = window.setInterval(() => {
+      this.tick();
+    }, this.tickMs);
+  }
+
+  stop(): void {
+    if (this.tickInterval) {
+      window.clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  /**
+   * Expire what's overdue, re-rate urgency and add any orders that have come due
+   */
+  tick(now = Date.now()): void {
+    this.orderGenerator.cleanupExpiredOrders(now);
+    this.orderGenerator.refreshUrgency(now);
+
+    // A throttled background tab can miss several generation slots; each one still gets its chance
+    const intervalMs = this.orderGenerator.getGenerationIntervalMs();
+    if (this.nextGenerationAt === 0) {
+      this.nextGenerationAt = now + intervalMs;
+    }
+    while (this.nextGenerationAt <= now) {
+      this.orderGenerator.generateNext(this.nextGenerationAt);
+      this.nextGenerationAt += intervalMs;
+    }
+
+    this.eventSystem.emit('order:tick', { now });
+  }
+
+  destroy(): void {
+    this.stop();
+  }
+}
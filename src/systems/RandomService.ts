@@ -0,0 +1,97 @@
+/**
+ * RandomService - Seeded randomness for every gameplay system
+ * Each system draws from its own named stream, so adding a roll in one
+ * place never shifts the results of another
+ */
+
+export type RandomStreamName = 'orders' | 'gacha' | 'memories' | 'dialogue' | 'movement';
+
+/**
+ * FNV-1a hash of a seed string into 32 bits
+ */
+export function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A single mulberry32 sequence
+ */
+export class RandomStream {
+  private state = 0;
+
+  constructor(seed: string) {
+    this.reseed(seed);
+  }
+
+  reseed(seed: string): void {
+    this.state = hashSeed(seed);
+  }
+
+  /**
+   * Float in [0, 1), a drop-in for Math.random()
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [0, maxExclusive)
+   */
+  int(maxExclusive: number): number {
+    return Math.floor(this.next() * maxExclusive);
+  }
+
+  pick<T>(items: readonly T[]): T | undefined {
+    return items[this.int(items.length)];
+  }
+}
+
+export class RandomService {
+  private seed: string;
+  private streams = new Map<RandomStreamName, RandomStream>();
+
+  constructor(seed: string = String(Date.now())) {
+    this.seed = seed;
+  }
+
+  getSeed(): string {
+    return this.seed;
+  }
+
+  /**
+   * Restart every stream from a new seed; streams already handed out follow along
+   */
+  reseed(seed: string): void {
+    this.seed = seed;
+    this.streams.forEach((stream, name) => stream.reseed(this.streamSeed(name)));
+  }
+
+  /**
+   * Restart one stream from its own seed, leaving every other stream where it is
+   */
+  reseedStream(name: RandomStreamName, seed: string): void {
+    this.stream(name).reseed(`${seed}:${name}`);
+  }
+
+  stream(name: RandomStreamName): RandomStream {
+    let stream = this.streams.get(name);
+    if (!stream) {
+      stream = new RandomStream(this.streamSeed(name));
+      this.streams.set(name, stream);
+    }
+    return stream;
+  }
+
+  private streamSeed(name: RandomStreamName): string {
+    return `${this.seed}:${name}`;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Portable save files for Meet Cute Cafe
+ * Versioned, checksummed JSON used to move a full save between browsers
+ */
+
+import type { RawSaveData } from './SaveMigrations';
+
+export const SAVE_FILE_FORMAT = 'meet-cute-cafe-save';
+
+export interface SaveFile {
+  format: typeof SAVE_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  checksum: string;
+  player: Record<string, any>;
+}
+
+/**
+ * Raised when an imported file is unreadable, tampered with or too new
+ */
+export class SaveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveImportError';
+  }
+}
+
+/**
+ * FNV-1a over the version and serialized player - catches edits, not a signature
+ */
+export function computeSaveChecksum(version: number, player: unknown): string {
+  const text = `${version}:${JSON.stringify(player)}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Wrap a save in the portable file envelope
+ */
+export function createSaveFile(save: RawSaveData): SaveFile {
+  return {
+    format: SAVE_FILE_FORMAT,
+    version: save.version,
+    exportedAt: Date.now(),
+    checksum: computeSaveChecksum(save.version, save.player),
+    player: save.player,
+  };
+}
+
+/**
+ * Validate a save file and unwrap it; migrations are left to the caller
+ */
+export function parseSaveFile(contents: string, maxVersion: number): RawSaveData {
+  let file: Partial<SaveFile>;
+  try {
+    file = JSON.parse(contents);
+  } catch {
+    throw new SaveImportError('This file is not a Meet Cute Cafe save (invalid JSON).');
+  }
+
+  if (!file || file.format !== SAVE_FILE_FORMAT) {
+    throw new SaveImportError('This file is not a Meet Cute Cafe save.');
+  }
+
+  if (!Number.isInteger(file.version) || file.version! < 1) {
+    throw new SaveImportError('This save file has no valid schema version.');
+  }
+
+  if (file.version! > maxVersion) {
+    throw new SaveImportError(
+      `This save was made by a newer version of the game (schema v${file.version}, this build supports up to v${maxVersion}).`
+    );
+  }
+
+  if (!file.player || typeof file.player !== 'object' || typeof file.player.playerId !== 'string') {
+    throw new SaveImportError('This save file has no player data.');
+  }
+
+  if (file.checksum !== computeSaveChecksum(file.version!, file.player)) {
+    throw new SaveImportError('This save file has been modified or corrupted (checksum mismatch).');
+  }
+
+  return { version: file.version!, player: file.player, savedAt: file.exportedAt };
+}
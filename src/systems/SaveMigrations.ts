@@ -0,0 +1,238 @@
+/**
+ * Save Migrations for Meet Cute Cafe
+ * Ordered, versioned upgrade steps that bring old saves up to the current schema
+ */
+
+import type { NpcId } from '@/models/GameTypes';
+import { getLocalDay } from './DayCycle';
+
+/**
+ * Loosely typed save as read from storage - older versions don't match `Player`
+ */
+export interface RawSaveData {
+  version: number;
+  player: Record<string, any>;
+  savedAt?: number;
+}
+
+/**
+ * Extra inputs a step may need beyond the save itself
+ */
+export interface MigrationContext {
+  /** Raw values of standalone keys older builds wrote next to the save */
+  legacy: Record<string, string | null>;
+}
+
+/**
+ * A single migration step from `from` to `from + 1`
+ */
+export interface SaveMigration {
+  from: number;
+  description: string;
+  migrate(save: RawSaveData, context: MigrationContext): RawSaveData;
+}
+
+/**
+ * Keys that used to live beside the save before it owned everything
+ */
+export const LEGACY_STORAGE_KEYS = {
+  memories: 'meetcute_memories',
+  conversations: 'meet_cute_cafe_conversations',
+} as const;
+
+/**
+ * Raised when a migration step is missing or throws
+ */
+export class SaveMigrationError extends Error {
+  constructor(
+    public readonly fromVersion: number,
+    public readonly toVersion: number,
+    public readonly originalError?: unknown
+  ) {
+    super(
+      `Save migration v${fromVersion} → v${toVersion} failed` +
+        (originalError instanceof Error ? `: ${originalError.message}` : '')
+    );
+    this.name = 'SaveMigrationError';
+  }
+}
+
+const ALL_NPCS: NpcId[] = ['aria', 'kai', 'elias'];
+
+/**
+ * Registered migrations, one per version bump, in ascending order
+ */
+export const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: 1,
+    description: 'Backfill player fields that early builds bolted on later',
+    migrate(save) {
+      const player = { ...save.player };
+      const now = Date.now();
+
+      player.pity = player.pity ?? {};
+      player.bannersSeen = player.bannersSeen ?? [];
+      player.pendingActions = player.pendingActions ?? [];
+      player.tokens = player.tokens ?? 0;
+      player.consumables = {
+        sugar: 0,
+        coffee: 0,
+        mint: 0,
+        pepper: 0,
+        salt: 0,
+        ...player.consumables,
+      };
+      player.settings = {
+        sfx: 0.8,
+        music: 0.6,
+        tts: true,
+        notifications: true,
+        locale: 'en',
+        ...player.settings,
+      };
+      player.journal = { entries: [], ...player.journal };
+      player.orderBoard = player.orderBoard ?? {
+        day: getLocalDay(now),
+        customerOrders: [],
+        npcOrders: [],
+      };
+
+      const npc = { ...player.npc };
+      ALL_NPCS.forEach(npcId => {
+        npc[npcId] = npc[npcId] ?? {
+          npcId,
+          bondXp: 0,
+          level: 1,
+          unreadDmCount: 0,
+          callAvailable: false,
+          scenesSeen: [],
+        };
+      });
+      player.npc = npc;
+
+      return { ...save, version: 2, player };
+    },
+  },
+  {
+    from: 2,
+    description: 'Fold standalone memory and conversation stores into the player',
+    migrate(save, context) {
+      const player = { ...save.player };
+
+      const memories = parseLegacy(context, LEGACY_STORAGE_KEYS.memories);
+      player.memories = {
+        ...(memories && typeof memories === 'object' && !Array.isArray(memories) ? memories : {}),
+        ...player.memories,
+      };
+
+      // Stored as Map entries: [npcId, conversation][]
+      const conversations = parseLegacy(context, LEGACY_STORAGE_KEYS.conversations);
+      player.conversations = {
+        ...(Array.isArray(conversations) ? Object.fromEntries(conversations) : {}),
+        ...player.conversations,
+      };
+
+      return { ...save, version: 3, player };
+    },
+  },
+  {
+    from: 3,
+    description: 'Track flavors used today on the order board',
+    migrate(save) {
+      const player = { ...save.player };
+      player.orderBoard = { usedFlavorIds: [], ...player.orderBoard };
+      return { ...save, version: 4, player };
+    },
+  },
+  {
+    from: 4,
+    description: 'Start customer order streaks at zero',
+    migrate(save) {
+      const player = { ...save.player };
+      player.orderStreak = { current: 0, best: 0, ...player.orderStreak };
+      return { ...save, version: 5, player };
+    },
+  },
+  {
+    from: 5,
+    description: 'Start every NPC at the beginning of their order chains',
+    migrate(save) {
+      const player = { ...save.player };
+      const npc = { ...player.npc };
+      Object.keys(npc).forEach(npcId => {
+        npc[npcId] = { chainProgress: {}, ...npc[npcId] };
+      });
+      player.npc = npc;
+      return { ...save, version: 6, player };
+    },
+  },
+  {
+    from: 6,
+    description: 'Start reputation with every customer archetype at zero',
+    migrate(save) {
+      const player = { ...save.player };
+      player.customerReputation = player.customerReputation ?? {};
+      return { ...save, version: 7, player };
+    },
+  },
+  {
+    from: 7,
+    description: 'Start with no Flavor Lab recipes discovered',
+    migrate(save) {
+      const player = { ...save.player };
+      player.discoveredRecipes = player.discoveredRecipes ?? [];
+      return { ...save, version: 8, player };
+    },
+  },
+];
+
+/**
+ * Parse a legacy blob, skipping it rather than failing the whole upgrade
+ */
+function parseLegacy(context: MigrationContext, key: string): unknown {
+  const raw = context.legacy[key];
+  if (!raw) return null;
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    console.warn(`Ignoring unreadable legacy data in ${key}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Run every migration between the save's version and `targetVersion` in order
+ */
+export function runMigrations(
+  save: RawSaveData,
+  targetVersion: number,
+  migrations: SaveMigration[] = SAVE_MIGRATIONS,
+  context: MigrationContext = { legacy: {} }
+): RawSaveData {
+  let current = save;
+
+  while (current.version < targetVersion) {
+    const fromVersion = current.version;
+    const step = migrations.find(m => m.from === fromVersion);
+    if (!step) {
+      throw new SaveMigrationError(fromVersion, fromVersion + 1);
+    }
+
+    try {
+      current = step.migrate(current, context);
+    } catch (error) {
+      throw new SaveMigrationError(fromVersion, fromVersion + 1, error);
+    }
+
+    if (current.version !== fromVersion + 1) {
+      throw new SaveMigrationError(
+        fromVersion,
+        fromVersion + 1,
+        new Error(`step produced version ${current.version}`)
+      );
+    }
+  }
+
+  return current;
+}
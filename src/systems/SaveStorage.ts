@@ -0,0 +1,162 @@
+/**
+ * Save Storage backends for Meet Cute Cafe
+ * Async key/value stores that game systems persist through
+ */
+
+export interface SaveStorage {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  list(prefix?: string): Promise<string[]>;
+}
+
+/**
+ * Browser localStorage - simple, synchronous underneath, ~5MB quota
+ * Any other Web Storage area (sessionStorage, a test double) can stand in for it
+ */
+export class LocalSaveStorage implements SaveStorage {
+  constructor(private store: Storage = localStorage) {}
+
+  async get(key: string): Promise<string | null> {
+    return this.store.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.setItem(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.store.removeItem(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < this.store.length; i++) {
+      const key = this.store.key(i);
+      if (key !== null && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Plain in-memory map - used by tests and as a last-resort fallback
+ */
+export class MemorySaveStorage implements SaveStorage {
+  private store = new Map<string, string>();
+
+  async get(key: string): Promise<string | null> {
+    return this.store.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async remove(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    return Array.from(this.store.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+const IDB_STORE_NAME = 'saves';
+
+/**
+ * IndexedDB - no practical size cap, so journal and DM history can grow freely.
+ * Keys missing from the database are looked up in `legacy` (usually localStorage)
+ * and moved across on first read, so existing saves carry over.
+ */
+export class IndexedDBSaveStorage implements SaveStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'meet-cute-cafe',
+    private legacy?: SaveStorage
+  ) {}
+
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', store => store.get(key));
+    if (typeof value === 'string') {
+      return value;
+    }
+
+    if (!this.legacy) return null;
+
+    const legacyValue = await this.legacy.get(key);
+    if (legacyValue !== null) {
+      await this.set(key, legacyValue);
+      await this.legacy.remove(key);
+    }
+    return legacyValue;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async remove(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+    if (this.legacy) {
+      await this.legacy.remove(key);
+    }
+  }
+
+  async list(prefix = ''): Promise<string[]> {
+    const keys = await this.request<unknown[]>('readonly', store => store.getAllKeys());
+    const result = new Set(
+      keys.filter((key): key is string => typeof key === 'string' && key.startsWith(prefix))
+    );
+
+    if (this.legacy) {
+      (await this.legacy.list(prefix)).forEach(key => result.add(key));
+    }
+    return Array.from(result);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE_NAME);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async request<T>(
+    mode: 'readonly' | 'readwrite',
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(IDB_STORE_NAME, mode);
+      const request = operation(transaction.objectStore(IDB_STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Pick the best backend the current browser supports
+ */
+export function createDefaultSaveStorage(): SaveStorage {
+  if (IndexedDBSaveStorage.isAvailable()) {
+    return new IndexedDBSaveStorage('meet-cute-cafe', new LocalSaveStorage());
+  }
+  return new LocalSaveStorage();
+}
@@ -0,0 +1,514 @@
+/**
+ * Save Validation for Meet Cute Cafe
+ * Runtime checks for persisted records, repairing what can be repaired
+ */
+
+import type {
+  Affinity,
+  Conversation,
+  DMMessage,
+  Memory,
+  MemoryFormat,
+  MemoryRecord,
+  NpcId,
+  OrderBase,
+  Player,
+  PlayerFlavor,
+  PlayerNpc,
+} from '@/models/GameTypes';
+
+/**
+ * One fix applied to loaded data
+ */
+export interface SaveRepair {
+  /** Where the problem was, e.g. `player.flavors[3]` */
+  path: string;
+  problem: string;
+  fix: string;
+}
+
+/**
+ * Something odd in loaded data that was left as it is
+ */
+export interface SaveWarning {
+  path: string;
+  problem: string;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  repairs: SaveRepair[];
+  warnings: SaveWarning[];
+}
+
+export interface ValidationOptions {
+  /** Flavor ids the game knows about; unknown ones are kept and reported as warnings. Skipped when omitted. */
+  knownFlavorIds?: Iterable<string>;
+}
+
+/**
+ * Raised when a record is too broken to repair
+ */
+export class SaveValidationError extends Error {
+  constructor(
+    public readonly path: string,
+    problem: string
+  ) {
+    super(`Invalid save data at ${path}: ${problem}`);
+    this.name = 'SaveValidationError';
+  }
+}
+
+export const NPC_IDS: NpcId[] = ['aria', 'kai', 'elias'];
+export const JOURNAL_MOODS: NonNullable<Memory['mood']>[] = ['Cozy', 'Playful', 'Tender', 'Yearning', 'Bittersweet'];
+
+const AFFINITIES: Affinity[] = ['Sweet', 'Salty', 'Bitter', 'Spicy', 'Fresh'];
+const MEMORY_FORMATS: MemoryFormat[] = ['Drabble', 'DM', 'VN'];
+const ORDER_STATUSES: OrderBase['status'][] = ['available', 'submitted', 'completed', 'expired'];
+const CONSUMABLES = ['sugar', 'coffee', 'mint', 'pepper', 'salt'] as const;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isNpcId = (value: unknown): value is NpcId =>
+  NPC_IDS.includes(value as NpcId);
+
+/**
+ * Collects repairs and warnings while walking a record
+ */
+class Validator {
+  readonly repairs: SaveRepair[] = [];
+  readonly warnings: SaveWarning[] = [];
+  private knownFlavorIds: Set<string> | null;
+
+  constructor(options: ValidationOptions = {}) {
+    this.knownFlavorIds = options.knownFlavorIds ? new Set(options.knownFlavorIds) : null;
+  }
+
+  repair(path: string, problem: string, fix: string): void {
+    this.repairs.push({ path, problem, fix });
+  }
+
+  warn(path: string, problem: string): void {
+    this.warnings.push({ path, problem });
+  }
+
+  /**
+   * Non-negative number, or the fallback
+   */
+  amount(value: unknown, path: string, fallback = 0): number {
+    if (!isFiniteNumber(value)) {
+      this.repair(path, `not a number (${JSON.stringify(value)})`, `set to ${fallback}`);
+      return fallback;
+    }
+    if (value < 0) {
+      this.repair(path, `negative (${value})`, 'set to 0');
+      return 0;
+    }
+    return value;
+  }
+
+  timestamp(value: unknown, path: string, fallback: number): number {
+    if (!isFiniteNumber(value) || value < 0) {
+      this.repair(path, 'missing or invalid timestamp', 'set to now');
+      return fallback;
+    }
+    return value;
+  }
+
+  list<T>(value: unknown, path: string, item: (raw: unknown, itemPath: string) => T | null): T[] {
+    if (!Array.isArray(value)) {
+      if (value !== undefined) {
+        this.repair(path, 'not a list', 'reset to empty');
+      }
+      return [];
+    }
+
+    const items: T[] = [];
+    value.forEach((raw, index) => {
+      const validated = item(raw, `${path}[${index}]`);
+      if (validated !== null) items.push(validated);
+    });
+    return items;
+  }
+
+  player(value: unknown): Player {
+    if (!isObject(value)) {
+      throw new SaveValidationError('player', 'not an object');
+    }
+    if (typeof value.playerId !== 'string' || value.playerId === '') {
+      throw new SaveValidationError('player.playerId', 'missing player id');
+    }
+
+    const now = Date.now();
+    const raw = value;
+
+    const consumables = {} as Player['consumables'];
+    CONSUMABLES.forEach(key => {
+      consumables[key] = this.amount(raw.consumables?.[key], `player.consumables.${key}`);
+    });
+
+    const flavors = this.dedupeFlavors(
+      this.list(raw.flavors, 'player.flavors', (item, path) => this.playerFlavor(item, path))
+    );
+
+    const npc = {} as Player['npc'];
+    NPC_IDS.forEach(npcId => {
+      npc[npcId] = this.playerNpc(raw.npc?.[npcId], npcId, `player.npc.${npcId}`);
+    });
+
+    const memories: Player['memories'] = {};
+    if (raw.memories !== undefined && !isObject(raw.memories)) {
+      this.repair('player.memories', 'not an object', 'reset to empty');
+    }
+    Object.entries(isObject(raw.memories) ? raw.memories : {}).forEach(([id, record]) => {
+      const memory = this.memoryRecord(record, `player.memories.${id}`);
+      if (memory) {
+        if (memory.id !== id) {
+          this.repair(`player.memories.${id}.id`, `does not match its key (${memory.id})`, 'set to key');
+          memory.id = id;
+        }
+        memories[id] = memory;
+      }
+    });
+
+    const conversations: Player['conversations'] = {};
+    Object.entries(isObject(raw.conversations) ? raw.conversations : {}).forEach(([npcId, record]) => {
+      const path = `player.conversations.${npcId}`;
+      if (!isNpcId(npcId)) {
+        this.repair(path, 'unknown NPC', 'dropped');
+        return;
+      }
+      const conversation = this.conversation(record, npcId, path);
+      if (conversation) conversations[npcId] = conversation;
+    });
+
+    const orderBoard = isObject(raw.orderBoard) ? raw.orderBoard : {};
+    if (!isObject(raw.orderBoard)) {
+      this.repair('player.orderBoard', 'missing', 'reset to an empty board');
+    }
+
+    const orderStreak = isObject(raw.orderStreak) ? raw.orderStreak : {};
+    const streak = this.amount(orderStreak.current, 'player.orderStreak.current');
+
+    const pity: Player['pity'] = {};
+    Object.entries(isObject(raw.pity) ? raw.pity : {}).forEach(([bannerId, count]) => {
+      pity[bannerId] = this.amount(count, `player.pity.${bannerId}`);
+    });
+
+    const customerReputation: Player['customerReputation'] = {};
+    Object.entries(isObject(raw.customerReputation) ? raw.customerReputation : {}).forEach(([archetypeId, reputation]) => {
+      customerReputation[archetypeId] = this.amount(reputation, `player.customerReputation.${archetypeId}`);
+    });
+
+    const settings = isObject(raw.settings) ? raw.settings : {};
+
+    return {
+      ...raw,
+      playerId: raw.playerId,
+      createdAt: this.timestamp(raw.createdAt, 'player.createdAt', now),
+      lastSeenAt: this.timestamp(raw.lastSeenAt, 'player.lastSeenAt', now),
+      coins: this.amount(raw.coins, 'player.coins'),
+      diamonds: this.amount(raw.diamonds, 'player.diamonds'),
+      tokens: this.amount(raw.tokens, 'player.tokens'),
+      consumables,
+      flavors,
+      journal: {
+        ...(isObject(raw.journal) ? raw.journal : {}),
+        entries: this.list(raw.journal?.entries, 'player.journal.entries', (item, path) => this.journalEntry(item, path)),
+      },
+      memories,
+      conversations,
+      npc,
+      dailySeed: typeof raw.dailySeed === 'string' ? raw.dailySeed : `${new Date(now).toISOString().split('T')[0]}-${raw.playerId}`,
+      orderBoard: {
+        ...orderBoard,
+        day: typeof orderBoard.day === 'string' ? orderBoard.day : new Date(now).toISOString().split('T')[0]!,
+        customerOrders: this.list(orderBoard.customerOrders, 'player.orderBoard.customerOrders', (item, path) => this.order(item, path)),
+        npcOrders: this.list(orderBoard.npcOrders, 'player.orderBoard.npcOrders', (item, path) => this.order(item, path)),
+        usedFlavorIds: this.list(orderBoard.usedFlavorIds, 'player.orderBoard.usedFlavorIds', item => (typeof item === 'string' ? item : null)),
+      },
+      orderStreak: {
+        current: streak,
+        best: Math.max(streak, this.amount(orderStreak.best, 'player.orderStreak.best')),
+      },
+      customerReputation,
+      bannersSeen: this.list(raw.bannersSeen, 'player.bannersSeen', item => (typeof item === 'string' ? item : null)),
+      discoveredRecipes: this.list(raw.discoveredRecipes, 'player.discoveredRecipes', item => (typeof item === 'string' ? item : null)),
+      pity,
+      settings: {
+        ...settings,
+        sfx: isFiniteNumber(settings.sfx) ? Math.min(1, Math.max(0, settings.sfx)) : 0.8,
+        music: isFiniteNumber(settings.music) ? Math.min(1, Math.max(0, settings.music)) : 0.6,
+        tts: typeof settings.tts === 'boolean' ? settings.tts : true,
+        notifications: typeof settings.notifications === 'boolean' ? settings.notifications : true,
+        duplicatePulls: settings.duplicatePulls === 'keep' ? 'keep' : 'convert',
+        locale: 'en',
+      },
+      pendingActions: this.list(raw.pendingActions, 'player.pendingActions', item => (isObject(item) ? (item as Player['pendingActions'][number]) : null)),
+    };
+  }
+
+  playerFlavor(value: unknown, path: string): PlayerFlavor | null {
+    if (!isObject(value) || typeof value.flavorId !== 'string' || value.flavorId === '') {
+      this.repair(path, 'flavor without an id', 'dropped');
+      return null;
+    }
+    // Kept so a renamed or removed catalog entry never wipes the player's progress on it
+    if (this.knownFlavorIds && !this.knownFlavorIds.has(value.flavorId)) {
+      this.warn(path, `unknown flavor id "${value.flavorId}"`);
+    }
+
+    let level = value.level;
+    if (!Number.isInteger(level) || level < 1) {
+      this.repair(`${path}.level`, `invalid level (${JSON.stringify(level)})`, 'set to 1');
+      level = 1;
+    }
+
+    const flavor: PlayerFlavor = {
+      ...value,
+      flavorId: value.flavorId,
+      level,
+      acquiredAt: this.timestamp(value.acquiredAt, `${path}.acquiredAt`, Date.now()),
+    };
+    // The ascension track is optional; only check it once a flavor has started on it
+    if (value.ascension !== undefined) flavor.ascension = Math.floor(this.amount(value.ascension, `${path}.ascension`));
+    if (value.duplicates !== undefined) flavor.duplicates = Math.floor(this.amount(value.duplicates, `${path}.duplicates`));
+    return flavor;
+  }
+
+  /**
+   * Keep one entry per flavor id, the highest level wins
+   */
+  private dedupeFlavors(flavors: PlayerFlavor[]): PlayerFlavor[] {
+    const byId = new Map<string, PlayerFlavor>();
+    flavors.forEach(flavor => {
+      const existing = byId.get(flavor.flavorId);
+      if (existing) {
+        this.repair(`player.flavors`, `duplicate flavor "${flavor.flavorId}"`, 'kept the highest level');
+        if (flavor.level > existing.level) byId.set(flavor.flavorId, flavor);
+        return;
+      }
+      byId.set(flavor.flavorId, flavor);
+    });
+    return Array.from(byId.values());
+  }
+
+  playerNpc(value: unknown, npcId: NpcId, path: string): PlayerNpc {
+    if (!isObject(value)) {
+      this.repair(path, 'missing NPC entry', 'created at bond level 1');
+      return { npcId, bondXp: 0, level: 1, unreadDmCount: 0, callAvailable: false, scenesSeen: [], chainProgress: {} };
+    }
+
+    let level = value.level;
+    if (!Number.isInteger(level) || level < 1) {
+      this.repair(`${path}.level`, `invalid level (${JSON.stringify(level)})`, 'set to 1');
+      level = 1;
+    }
+
+    return {
+      ...value,
+      npcId,
+      bondXp: this.amount(value.bondXp, `${path}.bondXp`),
+      level,
+      unreadDmCount: this.amount(value.unreadDmCount, `${path}.unreadDmCount`),
+      callAvailable: value.callAvailable === true,
+      scenesSeen: this.list(value.scenesSeen, `${path}.scenesSeen`, item => (typeof item === 'string' ? item : null)),
+      chainProgress: this.chainProgress(value.chainProgress, `${path}.chainProgress`),
+    };
+  }
+
+  /**
+   * Steps completed per chain; whole numbers only
+   */
+  private chainProgress(value: unknown, path: string): Record<string, number> {
+    if (!isObject(value)) {
+      if (value !== undefined) {
+        this.repair(path, 'not an object', 'reset to empty');
+      }
+      return {};
+    }
+
+    const progress: Record<string, number> = {};
+    Object.entries(value).forEach(([chainId, steps]) => {
+      if (!Number.isInteger(steps) || steps < 0) {
+        this.repair(`${path}.${chainId}`, `invalid step count (${JSON.stringify(steps)})`, 'dropped');
+        return;
+      }
+      progress[chainId] = steps;
+    });
+    return progress;
+  }
+
+  journalEntry(value: unknown, path: string): Memory | null {
+    if (!isObject(value) || typeof value.memoryId !== 'string' || !isNpcId(value.npcId)) {
+      this.repair(path, 'journal entry without a memory id or NPC', 'dropped');
+      return null;
+    }
+
+    const entry: Memory = {
+      ...value,
+      memoryId: value.memoryId,
+      npcId: value.npcId,
+      createdAt: this.timestamp(value.createdAt, `${path}.createdAt`, Date.now()),
+      keyframeId: typeof value.keyframeId === 'string' ? value.keyframeId : `keyframe_${value.memoryId}`,
+      summary: typeof value.summary === 'string' ? value.summary : '',
+      format: MEMORY_FORMATS.includes(value.format) ? value.format : 'Drabble',
+      unread: value.unread !== false,
+    };
+
+    if (entry.mood !== undefined && !JOURNAL_MOODS.includes(entry.mood)) {
+      this.repair(`${path}.mood`, `unknown mood "${entry.mood}"`, 'removed');
+      delete entry.mood;
+    }
+    return entry;
+  }
+
+  memoryRecord(value: unknown, path: string): MemoryRecord | null {
+    if (!isObject(value) || typeof value.content !== 'string') {
+      this.repair(path, 'memory without content', 'dropped');
+      return null;
+    }
+
+    const taggedNPCs = this.list(value.taggedNPCs, `${path}.taggedNPCs`, (item, itemPath) => {
+      if (isNpcId(item)) return item;
+      this.repair(itemPath, `unknown NPC "${item}"`, 'untagged');
+      return null;
+    });
+
+    const record: MemoryRecord = {
+      ...value,
+      id: typeof value.id === 'string' ? value.id : '',
+      content: value.content,
+      taggedNPCs,
+      taggedPets: this.list(value.taggedPets, `${path}.taggedPets`, item => (typeof item === 'string' ? item : null)),
+      mood: typeof value.mood === 'string' ? value.mood : 'cozy',
+      location: typeof value.location === 'string' ? value.location : 'Café Counter',
+      timestamp: this.timestamp(value.timestamp, `${path}.timestamp`, Date.now()),
+      isPublished: value.isPublished === true,
+      viewed: value.viewed === true,
+      favorited: value.favorited === true,
+    };
+
+    if (record.rarity !== undefined && !['common', 'rare', 'epic'].includes(record.rarity)) {
+      this.repair(`${path}.rarity`, `unknown rarity "${record.rarity}"`, 'removed');
+      delete record.rarity;
+    }
+    return record;
+  }
+
+  order(value: unknown, path: string): OrderBase | null {
+    if (
+      !isObject(value) ||
+      typeof value.orderId !== 'string' ||
+      (value.kind !== 'Customer' && value.kind !== 'NPC') ||
+      !isFiniteNumber(value.createdAt) ||
+      !isFiniteNumber(value.expiresAt)
+    ) {
+      this.repair(path, 'order without id, kind or timing', 'dropped');
+      return null;
+    }
+
+    const slots = Array.isArray(value.requirements?.slots) ? value.requirements.slots : null;
+    if (!slots || slots.some((slot: any) => !AFFINITIES.includes(slot?.affinity))) {
+      this.repair(`${path}.requirements`, 'missing or unknown affinity slots', 'order dropped');
+      return null;
+    }
+
+    const order: OrderBase = {
+      ...value,
+      orderId: value.orderId,
+      kind: value.kind,
+      createdAt: value.createdAt,
+      expiresAt: value.expiresAt,
+      requirements: value.requirements,
+      rewards: {
+        ...(isObject(value.rewards) ? value.rewards : {}),
+        coins: this.amount(value.rewards?.coins, `${path}.rewards.coins`),
+      },
+      status: ORDER_STATUSES.includes(value.status) ? value.status : 'available',
+    };
+
+    if (order.npcId !== undefined && !isNpcId(order.npcId)) {
+      this.repair(`${path}.npcId`, `unknown NPC "${order.npcId}"`, 'removed');
+      delete order.npcId;
+    }
+    return order;
+  }
+
+  conversation(value: unknown, npcId: NpcId, path: string): Conversation | null {
+    if (!isObject(value)) {
+      this.repair(path, 'not an object', 'dropped');
+      return null;
+    }
+
+    const messages = this.list(value.messages, `${path}.messages`, (item, itemPath) => this.dmMessage(item, npcId, itemPath));
+    const unreadCount = messages.filter(msg => msg.senderId === npcId && !msg.read).length;
+    if (value.unreadCount !== unreadCount) {
+      this.repair(`${path}.unreadCount`, `out of sync (${JSON.stringify(value.unreadCount)})`, `recounted as ${unreadCount}`);
+    }
+
+    return {
+      ...value,
+      npcId,
+      messages,
+      lastMessageAt: messages.reduce(
+        (latest, msg) => Math.max(latest, msg.timestamp),
+        isFiniteNumber(value.lastMessageAt) ? value.lastMessageAt : 0
+      ),
+      unreadCount,
+    };
+  }
+
+  private dmMessage(value: unknown, npcId: NpcId, path: string): DMMessage | null {
+    if (
+      !isObject(value) ||
+      typeof value.id !== 'string' ||
+      typeof value.content !== 'string' ||
+      (value.senderId !== 'player' && value.senderId !== npcId)
+    ) {
+      this.repair(path, 'message without id, content or a valid sender', 'dropped');
+      return null;
+    }
+
+    return {
+      ...value,
+      id: value.id,
+      senderId: value.senderId,
+      content: value.content,
+      timestamp: this.timestamp(value.timestamp, `${path}.timestamp`, 0),
+      read: value.read === true,
+    };
+  }
+}
+
+/**
+ * Validate and repair a whole player. Throws SaveValidationError if it has no identity.
+ */
+export function validatePlayer(value: unknown, options?: ValidationOptions): ValidationResult<Player> {
+  const validator = new Validator(options);
+  return { value: validator.player(value), repairs: validator.repairs, warnings: validator.warnings };
+}
+
+export function validatePlayerFlavor(value: unknown, options?: ValidationOptions): ValidationResult<PlayerFlavor | null> {
+  const validator = new Validator(options);
+  return { value: validator.playerFlavor(value, 'flavor'), repairs: validator.repairs, warnings: validator.warnings };
+}
+
+export function validateMemoryRecord(value: unknown): ValidationResult<MemoryRecord | null> {
+  const validator = new Validator();
+  return { value: validator.memoryRecord(value, 'memory'), repairs: validator.repairs, warnings: validator.warnings };
+}
+
+export function validateOrder(value: unknown): ValidationResult<OrderBase | null> {
+  const validator = new Validator();
+  return { value: validator.order(value, 'order'), repairs: validator.repairs, warnings: validator.warnings };
+}
+
+export function validateConversation(value: unknown, npcId: NpcId): ValidationResult<Conversation | null> {
+  const validator = new Validator();
+  return { value: validator.conversation(value, npcId, 'conversation'), repairs: validator.repairs, warnings: validator.warnings };
+}
@@ -8,13 +8,14 @@ import type { GameStateManager } from '@/systems/GameStateManager';
 import type { Player } from '@/models/GameTypes';
 import { getPlayerPortraitPath, getLogoPath } from '@/utils/AssetPaths';
 
-export type HeaderVariant = 'welcome' | 'cafe-hub' | 'orders' | 'flavor-collection' | 'gacha' | 'journal' | 'conversation-history' | 'dm' | 'settings' | 'results';
+export type HeaderVariant = 'welcome' | 'cafe-hub' | 'orders' | 'flavor-collection' | 'fusion-lab' | 'gacha' | 'journal' | 'conversation-history' | 'dm' | 'settings' | 'results';
 
 export interface HeaderConfig {
   showCurrencies: boolean;
   showBackButton: boolean;
   title?: string;
   currencies?: ('coins' | 'diamonds' | 'tickets')[];
+  showStreak?: boolean;
 }
 
 const HEADER_CONFIGS: Record<HeaderVariant, HeaderConfig> = {
@@ -32,6 +33,7 @@ const HEADER_CONFIGS: Record<HeaderVariant, HeaderConfig> = {
     showBackButton: true,
     title: 'Orders',
     currencies: ['coins', 'diamonds'],
+    showStreak: true,
   },
   'flavor-collection': {
     showCurrencies: true,
@@ -39,6 +41,12 @@ const HEADER_CONFIGS: Record<HeaderVariant, HeaderConfig> = {
     title: 'Flavor Collection',
     currencies: ['coins'],
   },
+  'fusion-lab': {
+    showCurrencies: true,
+    showBackButton: true,
+    title: 'Flavor Lab',
+    currencies: ['coins'],
+  },
   gacha: {
     showCurrencies: true,
     showBackButton: true,
@@ -134,6 +142,12 @@ export class PersistentHeader {
     this.eventSystem.on('game:saved', () => {
       this.updateCurrencies();
     });
+
+    this.eventSystem.on('order:streak_changed', () => {
+      if (HEADER_CONFIGS[this.currentVariant].showStreak) {
+        this.updateContent();
+      }
+    });
   }
 
   /**
@@ -249,14 +263,30 @@ export class PersistentHeader {
   /**
    * Render right section
    */
-  private renderRightSection(_config: HeaderConfig): string {
+  private renderRightSection(config: HeaderConfig): string {
     return `
+      ${config.showStreak ? this.renderStreak() : ''}
       <button class="header-btn settings-btn" data-action="settings">
         <span class="material-icons">settings</span>
       </button>
     `;
   }
 
+  /**
+   * Render the customer order streak
+   */
+  private renderStreak(): string {
+    if (!this.player) return '';
+
+    const { current, best } = this.player.orderStreak;
+    return `
+      <div class="order-streak${current > 0 ? ' order-streak--active' : ''}" title="Best streak: ${best}">
+        <span class="streak-icon">🔥</span>
+        <span class="streak-value">${current}</span>
+      </div>
+    `;
+  }
+
   /**
    * Render currencies
    */
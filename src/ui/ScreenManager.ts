@@ -12,6 +12,7 @@ export type ScreenId =
   | 'orders'
   | 'order-results'
   | 'flavor-collection'
+  | 'fusion-lab'
   | 'gacha'
   | 'journal'
   | 'memory-detail'
@@ -10,12 +10,17 @@ import { TileSystem } from '@/systems/TileSystem';
 import { MovementSystem } from '@/systems/MovementSystem';
 import { placeholderAssets } from '@/utils/PlaceholderAssets';
 import type { ScreenData } from '../ScreenManager';
+import type { OfflineProgress, OfflineSummary } from '@/systems/OfflineProgress';
+import { AFFINITY_CONSUMABLE, CONSUMABLES } from '@/systems/EconomyConfig';
+import { CONSUMABLE_EMOJI } from '@/systems/Consumables';
+import type { Affinity, ConsumableId } from '@/models/GameTypes';
 
 export class CafeHubScreen extends BaseScreen {
   private _tileSystem: TileSystem | null = null;
   private movementSystem: MovementSystem | null = null;
   private animationUpdateInterval: number | null = null;
   private _generatedAssets: Record<string, string> | null = null;
+  private pantryOpen = false;
 
   constructor(
     eventSystem: EventSystem,
@@ -76,6 +81,16 @@ export class CafeHubScreen extends BaseScreen {
         <div class="counter-ui-elements">
           ${this.renderCounterUIElements()}
         </div>
+
+        <!-- "While you were away" summary -->
+        <div class="away-summary-container">
+          ${this.renderAwaySummary()}
+        </div>
+
+        <!-- Consumables inventory -->
+        <div class="pantry-container">
+          ${this.renderPantry()}
+        </div>
       </div>
 
       <style>
@@ -154,12 +169,14 @@ export class CafeHubScreen extends BaseScreen {
     const { width, tileSize } = this.tileSystem.getDimensions();
     const counterX = width - 2; // Counter position
     
-    const uiElements = [
+    const uiElements: Array<{ id: string; icon: string; label: string; navigate?: string; yOffset: number }> = [
       { id: 'orders', icon: 'assignment', label: 'Orders', navigate: 'orders', yOffset: 1 },
       { id: 'flavors', icon: 'science', label: 'Flavors', navigate: 'flavor-collection', yOffset: 3 },
       { id: 'gacha', icon: 'casino', label: 'Gacha', navigate: 'gacha', yOffset: 5 },
       { id: 'memories', icon: 'favorite', label: 'Memories', navigate: 'journal', yOffset: 7 },
-      { id: 'messages', icon: 'chat', label: 'Messages', navigate: 'conversation-history', yOffset: 9 }
+      { id: 'messages', icon: 'chat', label: 'Messages', navigate: 'conversation-history', yOffset: 9 },
+      // Opens the pantry panel in place rather than another screen
+      { id: 'pantry', icon: 'kitchen', label: 'Pantry', yOffset: 11 }
     ];
 
     return uiElements.map(element => `
@@ -172,7 +189,7 @@ export class CafeHubScreen extends BaseScreen {
         z-index: 15;
         cursor: pointer;
         transition: transform 0.2s ease;
-      " data-navigate="${element.navigate}">
+      " ${element.navigate ? `data-navigate="${element.navigate}"` : `data-panel="${element.id}"`}>
         <div class="ui-icon-container">
           <span class="material-icons ui-icon">${element.icon}</span>
         </div>
@@ -181,13 +198,118 @@ export class CafeHubScreen extends BaseScreen {
     `).join('');
   }
 
+  private get offlineProgress(): OfflineProgress | undefined {
+    return (window as any).game?.getSystems().offlineProgress;
+  }
+
+  /**
+   * Render the catch-up summary from the last time away, if there is one
+   */
+  private renderAwaySummary(): string {
+    const summary = this.offlineProgress?.getSummary();
+    if (!summary) return '';
+
+    const lines = [
+      summary.newOrders > 0 ? `${summary.newOrders} new order${summary.newOrders === 1 ? '' : 's'} came in` : '',
+      summary.expiredOrders > 0 ? `${summary.expiredOrders} order${summary.expiredOrders === 1 ? '' : 's'} expired` : '',
+      ...summary.messages.map(({ npcId, count }) => {
+        const name = npcId.charAt(0).toUpperCase() + npcId.slice(1);
+        return `${name} sent you ${count} message${count === 1 ? '' : 's'}`;
+      }),
+    ].filter(Boolean);
+
+    return `
+      <div class="away-summary">
+        <div class="away-summary-header">
+          <span class="material-icons">bedtime</span>
+          <h3>While you were away</h3>
+          <span class="away-summary-duration">${this.formatAwayTime(summary)}</span>
+        </div>
+        <ul class="away-summary-list">
+          ${lines.map(line => `<li>${line}</li>`).join('')}
+        </ul>
+        <button class="btn btn--primary away-summary-dismiss" data-dismiss="away-summary">Got it</button>
+      </div>
+    `;
+  }
+
+  private formatAwayTime(summary: OfflineSummary): string {
+    const minutes = Math.floor(summary.awayMs / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+  }
+
+  private refreshAwaySummary(): void {
+    const container = this.querySelector('.away-summary-container');
+    if (container) {
+      container.innerHTML = this.renderAwaySummary();
+    }
+  }
+
+  /**
+   * Consumables on hand and the flavors each one upgrades
+   */
+  private renderPantry(): string {
+    if (!this.pantryOpen) return '';
+
+    const { consumables } = this.gameState.getPlayer();
+    const affinities = Object.entries(AFFINITY_CONSUMABLE) as Array<[Affinity, ConsumableId]>;
+
+    return `
+      <div class="pantry-panel">
+        <div class="pantry-header">
+          <span class="material-icons">kitchen</span>
+          <h3>Pantry</h3>
+        </div>
+        <ul class="pantry-list">
+          ${CONSUMABLES.map(consumable => `
+            <li class="pantry-item">
+              <span class="pantry-icon">${CONSUMABLE_EMOJI[consumable]}</span>
+              <span class="pantry-name">${consumable.charAt(0).toUpperCase() + consumable.slice(1)}</span>
+              <span class="pantry-use">${affinities.find(([, own]) => own === consumable)?.[0] ?? ''} upgrades</span>
+              <span class="pantry-count">${consumables[consumable]}</span>
+            </li>
+          `).join('')}
+        </ul>
+        <p class="pantry-hint">Orders drop the ingredients their flavors call for.</p>
+        <button class="btn btn--primary pantry-close" data-dismiss="pantry">Close</button>
+      </div>
+    `;
+  }
+
+  private refreshPantry(): void {
+    const container = this.querySelector('.pantry-container');
+    if (container) {
+      container.innerHTML = this.renderPantry();
+    }
+  }
+
   /**
    * Setup event listeners for UI interactions
    */
   protected override setupEventListeners(): void {
     // Handle counter UI element clicks
     this.element.addEventListener('click', (e) => {
+      if ((e.target as Element).closest('[data-dismiss="away-summary"]')) {
+        this.offlineProgress?.dismissSummary();
+        this.refreshAwaySummary();
+        return;
+      }
+
+      if ((e.target as Element).closest('[data-dismiss="pantry"]')) {
+        this.pantryOpen = false;
+        this.refreshPantry();
+        return;
+      }
+
       const uiItem = (e.target as Element).closest('.counter-ui-item');
+      if (uiItem?.getAttribute('data-panel') === 'pantry') {
+        this.pantryOpen = !this.pantryOpen;
+        this.refreshPantry();
+        return;
+      }
       if (uiItem) {
         const navigate = uiItem.getAttribute('data-navigate');
         if (navigate) {
@@ -213,7 +335,11 @@ export class CafeHubScreen extends BaseScreen {
       // Ensure tileSystem is initialized
       const tileSystem = this.tileSystem; // This will initialize it via the getter
       
-      this.movementSystem = new MovementSystem(tileSystem, this.eventSystem);
+      this.movementSystem = new MovementSystem(
+        tileSystem,
+        this.eventSystem,
+        (window as any).game?.getSystems().random
+      );
       
       // Add default characters
       const characters = MovementSystem.createDefaultCharacters();
@@ -479,6 +605,118 @@ export class CafeHubScreen extends BaseScreen {
         opacity: 1;
       }
 
+      /* While you were away */
+      .away-summary {
+        position: absolute;
+        top: 16px;
+        left: 50%;
+        transform: translateX(-50%);
+        width: min(320px, calc(100% - 32px));
+        background: rgba(255, 255, 255, 0.95);
+        border: 2px solid #8e44ad;
+        border-radius: 12px;
+        padding: 16px;
+        box-shadow: 0 4px 12px rgba(142, 68, 173, 0.3);
+        z-index: 30;
+      }
+
+      .away-summary-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        color: #8e44ad;
+      }
+
+      .away-summary-header h3 {
+        flex: 1;
+        margin: 0;
+        font-size: 16px;
+      }
+
+      .away-summary-duration {
+        font-size: 12px;
+        opacity: 0.8;
+      }
+
+      .away-summary-list {
+        margin: 12px 0;
+        padding-left: 20px;
+        font-size: 14px;
+        color: #4a4a4a;
+      }
+
+      .away-summary-dismiss {
+        width: 100%;
+      }
+
+      /* Pantry */
+      .pantry-panel {
+        position: absolute;
+        bottom: 16px;
+        left: 16px;
+        width: min(300px, calc(100% - 32px));
+        background: rgba(255, 255, 255, 0.95);
+        border: 2px solid #8e44ad;
+        border-radius: 12px;
+        padding: 16px;
+        box-shadow: 0 4px 12px rgba(142, 68, 173, 0.3);
+        z-index: 30;
+      }
+
+      .pantry-header {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        color: #8e44ad;
+      }
+
+      .pantry-header h3 {
+        margin: 0;
+        font-size: 16px;
+      }
+
+      .pantry-list {
+        list-style: none;
+        margin: 12px 0;
+        padding: 0;
+      }
+
+      .pantry-item {
+        display: flex;
+        align-items: center;
+        gap: 8px;
+        padding: 4px 0;
+        font-size: 14px;
+        color: #4a4a4a;
+      }
+
+      .pantry-name {
+        flex: 1;
+        font-weight: 600;
+      }
+
+      .pantry-use {
+        font-size: 12px;
+        opacity: 0.7;
+      }
+
+      .pantry-count {
+        min-width: 32px;
+        text-align: right;
+        font-weight: 700;
+        color: #8e44ad;
+      }
+
+      .pantry-hint {
+        margin: 0 0 12px;
+        font-size: 12px;
+        color: #7f8c8d;
+      }
+
+      .pantry-close {
+        width: 100%;
+      }
+
       .cafe-status-panel {
         background: rgba(255, 255, 255, 0.9);
         border-radius: 12px;
@@ -570,6 +808,10 @@ export class CafeHubScreen extends BaseScreen {
     
     // Set the correct header variant for cafe hub
     this.eventSystem.emit('header:set_variant', { variant: 'cafe-hub' });
+
+    // Catch-up runs after the screens are built, so pick up its summary on show
+    this.refreshAwaySummary();
+    this.refreshPantry();
     
     // Initialize movement system when screen is shown (but don't start it yet)
     this.initializeMovementSystem();
@@ -6,52 +6,30 @@ import { BaseScreen } from '../BaseScreen';
 import type { EventSystem } from '@/systems/EventSystem';
 import type { GameStateManager } from '@/systems/GameStateManager';
 import type { AssetManager } from '@/systems/AssetManager';
-import type { GachaSystem } from '@/systems/GachaSystem';
+import { DEFAULT_FLAVOR_CATALOG } from '@/systems/FlavorCatalog';
+import { FlavorUpgradeService } from '@/systems/FlavorUpgradeService';
+import { CONSUMABLE_EMOJI, listConsumables } from '@/systems/Consumables';
+import { getFlavorPower } from '@/systems/OrderResolver';
 import type { ScreenData } from '../ScreenManager';
-import type { PlayerFlavor, Affinity, Rarity } from '@/models/GameTypes';
-
-interface FlavorData {
-  flavorId: string;
-  name: string;
-  affinity: Affinity;
-  rarity: Rarity;
-  description: string;
-  basePower: number;
-}
+import type { PlayerFlavor, Affinity, FlavorDef, UpgradeCost } from '@/models/GameTypes';
 
 export class FlavorCollectionScreen extends BaseScreen {
-  private _flavorDatabase: FlavorData[] | null = null;
-  private gachaSystem: GachaSystem | null = null;
   private modalVideo: HTMLVideoElement | null = null;
 
   constructor(
     eventSystem: EventSystem,
     gameState: GameStateManager,
-    assetManager: AssetManager
+    assetManager: AssetManager,
+    private flavorUpgrades: FlavorUpgradeService = new FlavorUpgradeService(eventSystem, gameState)
   ) {
     super('flavor-collection', eventSystem, gameState, assetManager);
     this.ensureStarterFlavors();
   }
 
-  private get flavorDatabase(): FlavorData[] {
-    if (!this._flavorDatabase) {
-      // Get gacha system from global game object
-      if (!this.gachaSystem && (window as any).game) {
-        this.gachaSystem = (window as any).game.getSystems().gachaSystem;
-      }
-      
-      if (this.gachaSystem) {
-        // Use gacha system's flavor database
-        this._flavorDatabase = this.gachaSystem.getAllFlavorDefs();
-      } else {
-        // Fallback to local database
-        this._flavorDatabase = this.createFlavorDatabase();
-      }
-    }
-    return this._flavorDatabase;
-  }
-
   protected createContent(): string {
+    // BaseScreen renders once from its constructor, before flavorUpgrades is assigned; onScreenShow renders the real screen
+    if (!this.flavorUpgrades) return '';
+
     const player = this.gameState.getPlayer();
     const npcFilter = 'all'; // Filter by NPC
 
@@ -66,6 +44,10 @@ export class FlavorCollectionScreen extends BaseScreen {
             </button>
             ${this.renderNPCFilters()}
           </div>
+          <button class="btn btn--secondary lab-entry" data-navigate="fusion-lab">
+            <span class="material-icons">science</span>
+            Flavor Lab
+          </button>
         </div>
 
         <div class="collection-grid">
@@ -125,8 +107,8 @@ export class FlavorCollectionScreen extends BaseScreen {
     // Apply NPC filter
     if (npcFilter !== 'all') {
       flavors = flavors.filter(flavor => {
-        const flavorData = this.getFlavorData(flavor.flavorId);
-        return flavorData && 'npcId' in flavorData && flavorData.npcId === npcFilter;
+        const flavorData = this.getFlavorDef(flavor.flavorId);
+        return flavorData?.npcId === npcFilter;
       });
     }
 
@@ -141,7 +123,7 @@ export class FlavorCollectionScreen extends BaseScreen {
    * Render individual flavor card
    */
   private renderFlavorCard(playerFlavor: PlayerFlavor): string {
-    const flavorData = this.getFlavorData(playerFlavor.flavorId);
+    const flavorData = this.getFlavorDef(playerFlavor.flavorId);
     if (!flavorData) return '';
 
     const currentPower = this.calculateFlavorPower(playerFlavor, flavorData);
@@ -149,13 +131,12 @@ export class FlavorCollectionScreen extends BaseScreen {
       { ...playerFlavor, level: playerFlavor.level + 1 }, 
       flavorData
     );
-    const canUpgrade = this.canUpgradeFlavor(playerFlavor);
-    const upgradeCost = this.getUpgradeCost(playerFlavor.level);
+    const levelCap = this.flavorUpgrades.getLevelCap(playerFlavor.flavorId);
 
     // Get preview asset for the flavor
-    const previewAsset = 'previewAsset' in flavorData ? (flavorData as any).previewAsset : null;
-    const npcId = 'npcId' in flavorData ? (flavorData as any).npcId : 'unknown';
-    const storyTagline = 'storyTagline' in flavorData ? (flavorData as any).storyTagline : flavorData.description;
+    const previewAsset = flavorData.previewAsset ?? null;
+    const npcId = flavorData.npcId;
+    const storyTagline = flavorData.storyTagline;
 
     return `
       <div class="memory-preview-card flavor-preview-card" 
@@ -182,7 +163,7 @@ export class FlavorCollectionScreen extends BaseScreen {
           
           <!-- Flavor affinity badge (top right) -->
           <div class="memory-date-badge affinity-badge affinity-badge--${flavorData.affinity.toLowerCase()}">
-            ${flavorData.affinity.toUpperCase()}
+            ${flavorData.affinity.toUpperCase()}${flavorData.secondaryAffinity ? ` / ${flavorData.secondaryAffinity.toUpperCase()}` : ''}
           </div>
           
           ${playerFlavor.favorite ? '<div class="favorite-indicator">⭐</div>' : ''}
@@ -203,7 +184,7 @@ export class FlavorCollectionScreen extends BaseScreen {
               <span class="stat-label">Power</span>
               <span class="stat-value">${currentPower}</span>
             </div>
-            ${playerFlavor.level < 10 ? `
+            ${playerFlavor.level < levelCap ? `
               <div class="stat-item">
                 <span class="stat-label">Next</span>
                 <span class="stat-value">${nextLevelPower}</span>
@@ -251,7 +232,7 @@ export class FlavorCollectionScreen extends BaseScreen {
   private getAffinityCount(affinity: Affinity): number {
     const player = this.gameState.getPlayer();
     return player.flavors.filter(flavor => {
-      const flavorData = this.getFlavorData(flavor.flavorId);
+      const flavorData = this.getFlavorDef(flavor.flavorId);
       return flavorData?.affinity === affinity;
     }).length;
   }
@@ -262,8 +243,8 @@ export class FlavorCollectionScreen extends BaseScreen {
   private getNPCFlavorCount(npcId: string): number {
     const player = this.gameState.getPlayer();
     return player.flavors.filter(flavor => {
-      const flavorData = this.getFlavorData(flavor.flavorId);
-      return flavorData && 'npcId' in flavorData && flavorData.npcId === npcId;
+      const flavorData = this.getFlavorDef(flavor.flavorId);
+      return flavorData?.npcId === npcId;
     }).length;
   }
 
@@ -284,93 +265,31 @@ export class FlavorCollectionScreen extends BaseScreen {
   private getTotalPower(): number {
     const player = this.gameState.getPlayer();
     return player.flavors.reduce((total, flavor) => {
-      const flavorData = this.getFlavorData(flavor.flavorId);
+      const flavorData = this.getFlavorDef(flavor.flavorId);
       if (!flavorData) return total;
       return total + this.calculateFlavorPower(flavor, flavorData);
     }, 0);
   }
 
   /**
-   * Calculate flavor power based on level
+   * Calculate flavor power based on level and ascension stars
    */
-  private calculateFlavorPower(flavor: PlayerFlavor, flavorData: FlavorData): number {
-    return Math.floor(flavorData.basePower * (1 + (flavor.level - 1) * 0.5));
-  }
-
-  /**
-   * Check if flavor can be upgraded
-   */
-  private canUpgradeFlavor(flavor: PlayerFlavor): boolean {
-    if (flavor.level >= 10) return false;
-    
-    const cost = this.getUpgradeCost(flavor.level);
-    const player = this.gameState.getPlayer();
-    
-    return player.coins >= cost.coins;
+  private calculateFlavorPower(flavor: PlayerFlavor, flavorData: FlavorDef): number {
+    return getFlavorPower(flavorData.basePower, flavor.level, flavor.ascension);
   }
 
   /**
-   * Get upgrade cost for level
+   * Upgrade cost as shown on the button, e.g. "🪙 200 · 🍯 3 · ☕ 1"
    */
-  private getUpgradeCost(currentLevel: number): { coins: number } {
-    return {
-      coins: Math.floor(100 * Math.pow(1.5, currentLevel - 1))
-    };
+  private formatUpgradeCost(cost: UpgradeCost): string {
+    return [`🪙 ${cost.coins}`, ...listConsumables(cost.consumables).map(([consumable, amount]) => `${CONSUMABLE_EMOJI[consumable]} ${amount}`)].join(' · ');
   }
 
   /**
    * Get flavor data by ID
    */
-  private getFlavorData(flavorId: string): FlavorData | undefined {
-    return this.flavorDatabase.find(f => f.flavorId === flavorId);
-  }
-
-  /**
-   * Create flavor database
-   */
-  private createFlavorDatabase(): FlavorData[] {
-    return [
-      {
-        flavorId: 'sweet_vanilla',
-        name: 'Vanilla Dream',
-        affinity: 'Sweet',
-        rarity: '3★',
-        description: 'A classic vanilla flavor that brings comfort and warmth.',
-        basePower: 10
-      },
-      {
-        flavorId: 'sweet_chocolate',
-        name: 'Rich Chocolate',
-        affinity: 'Sweet',
-        rarity: '3★',
-        description: 'Indulgent chocolate that melts hearts.',
-        basePower: 12
-      },
-      {
-        flavorId: 'salty_caramel',
-        name: 'Salted Caramel',
-        affinity: 'Salty',
-        rarity: '3★',
-        description: 'Perfect balance of sweet and salty.',
-        basePower: 11
-      },
-      {
-        flavorId: 'bitter_coffee',
-        name: 'Dark Roast',
-        affinity: 'Bitter',
-        rarity: '3★',
-        description: 'Bold coffee flavor that energizes the soul.',
-        basePower: 13
-      },
-      {
-        flavorId: 'fresh_mint',
-        name: 'Cool Mint',
-        affinity: 'Fresh',
-        rarity: '3★',
-        description: 'Refreshing mint that awakens the senses.',
-        basePower: 9
-      }
-    ];
+  private getFlavorDef(flavorId: string): FlavorDef | undefined {
+    return DEFAULT_FLAVOR_CATALOG.get(flavorId);
   }
 
   /**
@@ -378,9 +297,7 @@ export class FlavorCollectionScreen extends BaseScreen {
    */
   private ensureStarterFlavors(): void {
     const player = this.gameState.getPlayer();
-    const starterFlavorIds = ['sweet_vanilla', 'salty_caramel', 'bitter_coffee', 'fresh_mint'];
-    
-    starterFlavorIds.forEach(flavorId => {
+    DEFAULT_FLAVOR_CATALOG.getStarterFlavorIds().forEach(flavorId => {
       const hasFlavorAlready = player.flavors.some(f => f.flavorId === flavorId);
       if (!hasFlavorAlready) {
         const starterFlavor: PlayerFlavor = {
@@ -397,6 +314,9 @@ export class FlavorCollectionScreen extends BaseScreen {
    * Handle screen show
    */
   protected override onScreenShow(_data?: ScreenData): void {
+    // Flavors can change elsewhere (gacha, the Flavor Lab) while this screen is hidden
+    // BaseScreen binds handlers right after this, so only refresh the markup
+    this.element.innerHTML = this.createContent();
     this.eventSystem.emit('header:set_variant', { variant: 'flavor-collection' });
   }
 
@@ -445,6 +365,14 @@ export class FlavorCollectionScreen extends BaseScreen {
         break;
       }
       
+      case 'ascend-flavor': {
+        const flavorId = element.getAttribute('data-flavor-id');
+        if (flavorId) {
+          this.ascendFlavor(flavorId);
+        }
+        break;
+      }
+      
       case 'close-modal': {
         this.closeFlavorModal();
         break;
@@ -494,7 +422,7 @@ export class FlavorCollectionScreen extends BaseScreen {
   private openFlavorModal(flavorId: string): void {
     const player = this.gameState.getPlayer();
     const playerFlavor = player.flavors.find(f => f.flavorId === flavorId);
-    const flavorData = this.getFlavorData(flavorId);
+    const flavorData = this.getFlavorDef(flavorId);
     
     if (!playerFlavor || !flavorData) return;
 
@@ -507,13 +435,17 @@ export class FlavorCollectionScreen extends BaseScreen {
     title.textContent = flavorData.name;
     
     const currentPower = this.calculateFlavorPower(playerFlavor, flavorData);
-    const canUpgrade = this.canUpgradeFlavor(playerFlavor);
-    const upgradeCost = this.getUpgradeCost(playerFlavor.level);
+    const quote = this.flavorUpgrades.getQuote(flavorId);
+    const ascension = this.flavorUpgrades.getAscensionQuote(flavorId);
+    const ascendedPower = this.calculateFlavorPower(
+      { ...playerFlavor, ascension: ascension.stars + 1 },
+      flavorData
+    );
 
     // Get extended flavor data
-    const previewAsset = 'previewAsset' in flavorData ? (flavorData as any).previewAsset : null;
-    const npcId = 'npcId' in flavorData ? (flavorData as any).npcId : 'unknown';
-    const storyTagline = 'storyTagline' in flavorData ? (flavorData as any).storyTagline : flavorData.description;
+    const previewAsset = flavorData.previewAsset ?? null;
+    const npcId = flavorData.npcId;
+    const storyTagline = flavorData.storyTagline;
     const nextLevelPower = this.calculateFlavorPower(
       { ...playerFlavor, level: playerFlavor.level + 1 }, 
       flavorData
@@ -545,7 +477,7 @@ export class FlavorCollectionScreen extends BaseScreen {
             
             <!-- Flavor affinity badge (top right) -->
             <div class="memory-date-badge affinity-badge affinity-badge--${flavorData.affinity.toLowerCase()}">
-              ${flavorData.affinity.toUpperCase()}
+              ${flavorData.affinity.toUpperCase()}${flavorData.secondaryAffinity ? ` / ${flavorData.secondaryAffinity.toUpperCase()}` : ''}
             </div>
             
             ${playerFlavor.favorite ? '<div class="favorite-indicator">⭐</div>' : ''}
@@ -580,7 +512,7 @@ export class FlavorCollectionScreen extends BaseScreen {
               </div>
               <div class="stat-card">
                 <div class="stat-label">Level</div>
-                <div class="stat-value">${playerFlavor.level}/10</div>
+                <div class="stat-value">${playerFlavor.level}/${quote.levelCap}</div>
               </div>
               <div class="stat-card">
                 <div class="stat-label">Acquired</div>
@@ -588,7 +520,7 @@ export class FlavorCollectionScreen extends BaseScreen {
               </div>
             </div>
             
-            ${playerFlavor.level < 10 ? `
+            ${quote.cost ? `
               <div class="upgrade-preview">
                 <div class="upgrade-label">Next Level Preview</div>
                 <div class="power-comparison">
@@ -599,6 +531,27 @@ export class FlavorCollectionScreen extends BaseScreen {
                 </div>
               </div>
             ` : ''}
+
+            <div class="ascension-panel">
+              <div class="upgrade-label">Ascension</div>
+              <div class="ascension-stars">
+                ${'★'.repeat(ascension.stars)}${'☆'.repeat(ascension.maxStars - ascension.stars)}
+              </div>
+              ${ascension.stars < ascension.maxStars ? `
+                <div class="ascension-progress">
+                  Duplicates held: ${ascension.duplicatesHeld}/${ascension.duplicatesNeeded}
+                  ${ascension.tokens > 0 ? ` · 🎟️ ${ascension.tokens} tokens cover the rest` : ''}
+                </div>
+                <div class="power-comparison">
+                  <span class="current-power">${currentPower}</span>
+                  <span class="arrow">→</span>
+                  <span class="next-power">${ascendedPower}</span>
+                  <span class="power-increase">(+${ascendedPower - currentPower}, level cap +${this.flavorUpgrades.getAscensionCapBonus()})</span>
+                </div>
+              ` : `
+                <div class="ascension-progress">Fully ascended</div>
+              `}
+            </div>
           </div>
 
           <!-- Description -->
@@ -609,14 +562,17 @@ export class FlavorCollectionScreen extends BaseScreen {
 
           <!-- Actions -->
           <div class="flavor-actions-extended">
-            ${playerFlavor.level < 10 ? `
-              <button class="btn ${canUpgrade ? 'btn--primary' : 'btn--disabled'}" 
+            ${quote.cost ? `
+              <button class="btn ${quote.valid ? 'btn--primary' : 'btn--disabled'}" 
                       data-action="upgrade-flavor" 
                       data-flavor-id="${flavorId}"
-                      ${!canUpgrade ? 'disabled' : ''}>
+                      ${!quote.valid ? 'disabled' : ''}>
                 <span class="material-icons">trending_up</span>
-                Upgrade (🪙 ${upgradeCost.coins})
+                Upgrade (${this.formatUpgradeCost(quote.cost)})
               </button>
+              ${quote.reasons.length > 0 ? `
+                <div class="upgrade-shortfall">${quote.reasons.join(' · ')}</div>
+              ` : ''}
             ` : `
               <div class="max-level-notice">
                 <span class="material-icons">star</span>
@@ -624,6 +580,19 @@ export class FlavorCollectionScreen extends BaseScreen {
               </div>
             `}
             
+            ${ascension.stars < ascension.maxStars ? `
+              <button class="btn ${ascension.valid ? 'btn--primary' : 'btn--disabled'}"
+                      data-action="ascend-flavor"
+                      data-flavor-id="${flavorId}"
+                      ${!ascension.valid ? 'disabled' : ''}>
+                <span class="material-icons">auto_awesome</span>
+                Ascend to ${ascension.stars + 1}★
+              </button>
+              ${ascension.reasons.length > 0 ? `
+                <div class="upgrade-shortfall">${ascension.reasons.join(' · ')}</div>
+              ` : ''}
+            ` : ''}
+
             <button class="btn btn--secondary" 
                     data-action="toggle-favorite" 
                     data-flavor-id="${flavorId}">
@@ -667,25 +636,33 @@ export class FlavorCollectionScreen extends BaseScreen {
    * Upgrade flavor
    */
   private upgradeFlavor(flavorId: string): void {
-    const player = this.gameState.getPlayer();
-    const flavorIndex = player.flavors.findIndex(f => f.flavorId === flavorId);
+    const quote = this.flavorUpgrades.upgrade(flavorId);
+
+    if (!quote.valid) {
+      this.showError(quote.reasons[0] ?? 'This flavor can\'t be upgraded right now');
+      return;
+    }
+
+    this.showSuccess(`${this.getFlavorDef(flavorId)?.name} upgraded to level ${quote.level + 1}!`);
     
-    if (flavorIndex === -1) return;
+    // Refresh display
+    this.closeFlavorModal();
+    this.updateContent();
+  }
 
-    const flavor = player.flavors[flavorIndex]!;
-    const cost = this.getUpgradeCost(flavor.level);
+  /**
+   * Spend duplicates and tokens on the next ascension star
+   */
+  private ascendFlavor(flavorId: string): void {
+    const quote = this.flavorUpgrades.ascend(flavorId);
 
-    if (!this.canUpgradeFlavor(flavor)) {
-      this.showError('Not enough coins to upgrade!');
+    if (!quote.valid) {
+      this.showError(quote.reasons[0] ?? 'This flavor can\'t be ascended right now');
       return;
     }
 
-    // Spend coins and upgrade
-    this.gameState.spendCoins(cost.coins);
-    flavor.level++;
-    
-    this.showSuccess(`${this.getFlavorData(flavorId)?.name} upgraded to level ${flavor.level}!`);
-    
+    this.showSuccess(`${this.getFlavorDef(flavorId)?.name} ascended to ${quote.stars + 1}★!`);
+
     // Refresh display
     this.closeFlavorModal();
     this.updateContent();
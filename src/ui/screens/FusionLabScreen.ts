@@ -0,0 +1,222 @@
+/**
+ * Fusion Lab Screen - Combine owned flavors into Flavor Lab hybrids and browse the recipe book
+ */
+
+import { BaseScreen } from '../BaseScreen';
+import type { EventSystem } from '@/systems/EventSystem';
+import type { GameStateManager } from '@/systems/GameStateManager';
+import { DEFAULT_FLAVOR_CATALOG } from '@/systems/FlavorCatalog';
+import type { FusionLab, FusionQuote } from '@/systems/FusionLab';
+import { CONSUMABLE_EMOJI, listConsumables } from '@/systems/Consumables';
+import type { ScreenData } from '../ScreenManager';
+import type { FlavorDef, FusionRecipe, UpgradeCost } from '@/models/GameTypes';
+
+/** The biggest recipe takes three flavors */
+const MAX_INGREDIENTS = 3;
+
+export class FusionLabScreen extends BaseScreen {
+  private selected: string[] = [];
+
+  constructor(
+    eventSystem: EventSystem,
+    gameState: GameStateManager,
+    private fusionLab: FusionLab
+  ) {
+    super('fusion-lab', eventSystem, gameState, null as any);
+  }
+
+  protected createContent(): string {
+    // Nothing to draw until the constructor has assigned fusionLab; every show renders afresh
+    if (!this.fusionLab) return '';
+
+    const quote = this.fusionLab.getQuote(this.selected);
+
+    return `
+      <div class="fusion-lab-screen">
+        <section class="lab-bench">
+          <div class="lab-bench-slots">
+            ${Array.from({ length: MAX_INGREDIENTS }, (_, index) => this.renderBenchSlot(this.selected[index])).join('<span class="lab-plus">+</span>')}
+          </div>
+
+          ${this.renderPreview(quote)}
+
+          <div class="lab-bench-actions">
+            <button class="btn ${this.selected.length >= 2 ? 'btn--primary' : 'btn--disabled'}"
+                    data-action="fuse" ${this.selected.length < 2 ? 'disabled' : ''}>
+              <span class="material-icons">science</span>
+              ${quote.recipe && !quote.discovered ? 'Try Combination' : 'Fuse'}
+            </button>
+            <button class="btn btn--secondary" data-action="clear-bench">
+              <span class="material-icons">clear</span>
+              Clear
+            </button>
+          </div>
+        </section>
+
+        <section class="lab-ingredients">
+          <h3>Your Flavors</h3>
+          <div class="lab-ingredient-grid">
+            ${this.renderIngredients()}
+          </div>
+        </section>
+
+        <section class="recipe-book">
+          <h3>Recipe Book</h3>
+          ${this.fusionLab.getRecipeBook().map(({ recipe, discovered }) => this.renderRecipe(recipe, discovered)).join('')}
+        </section>
+      </div>
+    `;
+  }
+
+  private renderBenchSlot(flavorId: string | undefined): string {
+    const flavor = flavorId ? DEFAULT_FLAVOR_CATALOG.get(flavorId) : undefined;
+    if (!flavor) {
+      return '<div class="lab-bench-slot lab-bench-slot--empty">Pick a flavor</div>';
+    }
+
+    return `
+      <div class="lab-bench-slot" data-action="toggle-ingredient" data-flavor-id="${flavor.flavorId}">
+        <div class="lab-flavor-name">${flavor.name}</div>
+        <div class="lab-flavor-affinity">${this.formatAffinities(flavor)}</div>
+      </div>
+    `;
+  }
+
+  /**
+   * What the bench would make; undiscovered recipes only hint that something reacts
+   */
+  private renderPreview(quote: FusionQuote): string {
+    if (this.selected.length < 2) {
+      return '<div class="lab-preview">Pick two or three flavors to combine.</div>';
+    }
+
+    const { recipe } = quote;
+    if (recipe && !quote.discovered) {
+      return '<div class="lab-preview lab-preview--unknown">These flavors are reacting... fuse them to find out what they make.</div>';
+    }
+
+    const result = recipe ? DEFAULT_FLAVOR_CATALOG.get(recipe.resultFlavorId) : undefined;
+    return `
+      <div class="lab-preview">
+        ${recipe && result ? `
+          <div class="lab-preview-result">${result.rarity} ${result.name} · ${this.formatAffinities(result)}</div>
+          <div class="lab-preview-cost">${this.formatCost(recipe.cost)}</div>
+        ` : ''}
+        ${quote.reasons.length > 0 ? `<div class="upgrade-shortfall">${quote.reasons.join(' · ')}</div>` : ''}
+      </div>
+    `;
+  }
+
+  private renderIngredients(): string {
+    const player = this.gameState.getPlayer();
+
+    return player.flavors.map(owned => {
+      const flavor = DEFAULT_FLAVOR_CATALOG.get(owned.flavorId);
+      if (!flavor) return '';
+
+      const isSelected = this.selected.includes(flavor.flavorId);
+      return `
+        <button class="lab-ingredient ${isSelected ? 'lab-ingredient--selected' : ''}"
+                data-action="toggle-ingredient" data-flavor-id="${flavor.flavorId}">
+          <span class="lab-flavor-name">${flavor.name}</span>
+          <span class="lab-flavor-affinity">${flavor.rarity} · ${this.formatAffinities(flavor)}</span>
+        </button>
+      `;
+    }).join('');
+  }
+
+  private renderRecipe(recipe: FusionRecipe, discovered: boolean): string {
+    const result = DEFAULT_FLAVOR_CATALOG.get(recipe.resultFlavorId);
+
+    if (!discovered || !result) {
+      return `
+        <div class="recipe-entry recipe-entry--unknown">
+          <div class="recipe-ingredients">${recipe.ingredients.map(() => '?').join(' + ')} → ???</div>
+          <div class="recipe-hint">${recipe.hint}</div>
+        </div>
+      `;
+    }
+
+    return `
+      <div class="recipe-entry">
+        <div class="recipe-ingredients">${recipe.ingredients.join(' + ')} → ${result.name}</div>
+        <div class="recipe-hint">${result.rarity} · ${this.formatAffinities(result)} · ${this.formatCost(recipe.cost)}</div>
+      </div>
+    `;
+  }
+
+  /**
+   * e.g. "Sweet / Fresh" for a hybrid
+   */
+  private formatAffinities(flavor: FlavorDef): string {
+    return flavor.secondaryAffinity ? `${flavor.affinity} / ${flavor.secondaryAffinity}` : flavor.affinity;
+  }
+
+  private formatCost(cost: UpgradeCost): string {
+    return [`🪙 ${cost.coins}`, ...listConsumables(cost.consumables).map(([consumable, amount]) => `${CONSUMABLE_EMOJI[consumable]} ${amount}`)].join(' · ');
+  }
+
+  protected override onScreenShow(_data?: ScreenData): void {
+    // BaseScreen binds handlers right after this, so only refresh the markup
+    this.selected = [];
+    this.element.innerHTML = this.createContent();
+    this.eventSystem.emit('header:set_variant', { variant: 'fusion-lab' });
+  }
+
+  protected override handleAction(action: string, element: HTMLElement): void {
+    switch (action) {
+      case 'toggle-ingredient': {
+        const flavorId = element.getAttribute('data-flavor-id');
+        if (flavorId) {
+          this.toggleIngredient(flavorId);
+        }
+        break;
+      }
+
+      case 'clear-bench':
+        this.selected = [];
+        this.updateContent();
+        break;
+
+      case 'fuse':
+        this.fuse();
+        break;
+
+      default:
+        super.handleAction(action, element);
+    }
+  }
+
+  private toggleIngredient(flavorId: string): void {
+    if (this.selected.includes(flavorId)) {
+      this.selected = this.selected.filter(id => id !== flavorId);
+    } else if (this.selected.length < MAX_INGREDIENTS) {
+      this.selected = [...this.selected, flavorId];
+    } else {
+      this.showError(`The bench holds ${MAX_INGREDIENTS} flavors at most`);
+      return;
+    }
+    this.updateContent();
+  }
+
+  private fuse(): void {
+    const quote = this.fusionLab.fuse(this.selected);
+    const { recipe } = quote;
+
+    if (!quote.valid) {
+      // Trying a real combination still teaches the recipe
+      if (recipe && !quote.discovered) {
+        this.showSuccess('New recipe discovered! Check the recipe book.');
+      } else {
+        this.showError(quote.reasons[0] ?? 'These flavors can\'t be fused right now');
+      }
+      this.updateContent();
+      return;
+    }
+
+    const result = recipe ? DEFAULT_FLAVOR_CATALOG.get(recipe.resultFlavorId) : undefined;
+    this.showSuccess(`${quote.discovered ? '' : 'New recipe! '}You crafted ${result?.name ?? 'a new flavor'}!`);
+    this.selected = [];
+    this.updateContent();
+  }
+}
@@ -246,12 +246,11 @@ export class GachaScreen extends BaseScreen {
 
     // Animate each pull result
     content.innerHTML = '';
-    for (let i = 0; i < result.pulls.length; i++) {
-      const pull = result.pulls[i];
+    for (const pull of result.pulls) {
       const flavor = this.gachaSystem?.getFlavorDef(pull.flavorId);
       
       if (flavor && this.gachaSystem) {
-        const card = this.createResultCard(flavor, pull.isDuplicate);
+        const card = this.createResultCard(flavor, pull.isDuplicate, pull.keptForAscension ?? false);
         content.appendChild(card);
         
         // Animate card appearance
@@ -273,7 +272,7 @@ export class GachaScreen extends BaseScreen {
   /**
    * Create result card element
    */
-  private createResultCard(flavor: any, isDuplicate: boolean): HTMLElement {
+  private createResultCard(flavor: any, isDuplicate: boolean, keptForAscension: boolean): HTMLElement {
     const card = document.createElement('div');
     card.className = `result-card result-card--${flavor.rarity.replace('★', 'star')} ${isDuplicate ? 'result-card--duplicate' : ''}`;
     
@@ -282,7 +281,9 @@ export class GachaScreen extends BaseScreen {
       <div class="card-name">${flavor.name}</div>
       <div class="card-affinity">${flavor.affinity}</div>
       <div class="card-power">Power: ${flavor.basePower}</div>
-      ${isDuplicate ? '<div class="card-duplicate">Duplicate</div>' : '<div class="card-new">NEW!</div>'}
+      ${keptForAscension
+        ? '<div class="card-duplicate">Kept for ascension</div>'
+        : isDuplicate ? '<div class="card-duplicate">Duplicate</div>' : '<div class="card-new">NEW!</div>'}
     `;
 
     return card;
@@ -4,10 +4,13 @@
 
 import { BaseScreen } from '../BaseScreen';
 import type { EventSystem } from '@/systems/EventSystem';
-import type { GameStateManager } from '@/systems/GameStateManager';
+import type { GameStateManager, SaveSlotSummary } from '@/systems/GameStateManager';
 import type { ScreenData } from '../ScreenManager';
+import { escapeHtml } from '@/utils/Html';
 
 export class MenuScreen extends BaseScreen {
+  private slots: SaveSlotSummary[] = [];
+
   constructor(
     eventSystem: EventSystem,
     gameState: GameStateManager
@@ -49,6 +52,8 @@ export class MenuScreen extends BaseScreen {
             ` : ''}
           </div>
           
+          ${this.renderSlotPicker()}
+          
           <div class="menu-footer">
             <p>Version 0.1.0 - Development Build</p>
           </div>
@@ -57,6 +62,79 @@ export class MenuScreen extends BaseScreen {
     `;
   }
 
+  /**
+   * Render save slot picker
+   */
+  private renderSlotPicker(): string {
+    if (this.slots.length === 0) return '';
+
+    return `
+      <div class="save-slots">
+        <div class="save-slots-header">
+          <h2 class="save-slots-title">Save Slots</h2>
+          <button class="menu-btn menu-btn--secondary save-slot-create" data-action="create-slot">
+            <span class="material-icons">add</span>
+            New Slot
+          </button>
+        </div>
+        <ul class="save-slot-list">
+          ${this.slots.map(slot => this.renderSlot(slot)).join('')}
+        </ul>
+      </div>
+    `;
+  }
+
+  private renderSlot(slot: SaveSlotSummary): string {
+    const bonds = Object.entries(slot.bondLevels)
+      .map(([npcId, level]) => `${npcId.charAt(0).toUpperCase()}${npcId.slice(1)} ${level}`)
+      .join(' · ');
+
+    return `
+      <li class="save-slot ${slot.isActive ? 'save-slot--active' : ''}">
+        <div class="save-slot-info">
+          <div class="save-slot-name">${escapeHtml(slot.name)}${slot.isActive ? ' <span class="save-slot-badge">Current</span>' : ''}</div>
+          <div class="save-slot-details">
+            ${slot.hasSave ? `
+              <span>🪙 ${slot.coins ?? 0}</span>
+              <span>Last played ${slot.lastSeenAt ? new Date(slot.lastSeenAt).toLocaleString() : 'never'}</span>
+              ${bonds ? `<span>💕 ${bonds}</span>` : ''}
+            ` : '<span>Empty - starts a fresh café</span>'}
+          </div>
+        </div>
+        <div class="save-slot-actions">
+          ${!slot.isActive ? `
+            <button class="save-slot-btn" data-action="switch-slot" data-slot-id="${slot.id}" title="Switch to this slot">
+              <span class="material-icons">login</span>
+            </button>
+          ` : ''}
+          ${slot.hasSave ? `
+            <button class="save-slot-btn" data-action="duplicate-slot" data-slot-id="${slot.id}" title="Duplicate">
+              <span class="material-icons">content_copy</span>
+            </button>
+          ` : ''}
+          ${!slot.isActive ? `
+            <button class="save-slot-btn" data-action="delete-slot" data-slot-id="${slot.id}" title="Delete">
+              <span class="material-icons">delete</span>
+            </button>
+          ` : ''}
+        </div>
+      </li>
+    `;
+  }
+
+  protected override onScreenShow(_data?: ScreenData): void {
+    this.refreshSlots();
+  }
+
+  private async refreshSlots(): Promise<void> {
+    try {
+      this.slots = await this.gameState.listSaveSlots();
+      this.updateContent();
+    } catch (error) {
+      console.error('Failed to list save slots:', error);
+    }
+  }
+
   protected override setupEventListeners(): void {
     super.setupEventListeners();
     
@@ -78,6 +156,22 @@ export class MenuScreen extends BaseScreen {
         this.resetGame();
         break;
       
+      case 'create-slot':
+        this.createSlot();
+        break;
+      
+      case 'switch-slot':
+        this.switchSlot(element.dataset.slotId);
+        break;
+      
+      case 'duplicate-slot':
+        this.duplicateSlot(element.dataset.slotId);
+        break;
+      
+      case 'delete-slot':
+        this.deleteSlot(element.dataset.slotId);
+        break;
+      
       default:
         super.handleAction(action, element);
     }
@@ -89,14 +183,14 @@ export class MenuScreen extends BaseScreen {
     this.eventSystem.emit('ui:show_screen', { screenId: 'cafe-hub' });
   }
 
-  private startNewGame(): void {
+  private async startNewGame(): Promise<void> {
     const confirm = window.confirm(
       'Are you sure you want to start a new game? This will create a fresh save file.'
     );
     
     if (confirm) {
       // Reset game state
-      this.gameState.resetGame();
+      await this.gameState.resetGame();
       
       // Show header
       this.eventSystem.emit('header:show');
@@ -106,18 +200,58 @@ export class MenuScreen extends BaseScreen {
     }
   }
 
-  private resetGame(): void {
+  private async resetGame(): Promise<void> {
     const confirm = window.confirm(
       'Are you sure you want to reset all save data? This action cannot be undone!'
     );
     
     if (confirm) {
       // Reset game state
-      this.gameState.resetGame();
+      await this.gameState.resetGame();
       
       // Refresh the menu screen
-      this.updateContent();
+      await this.refreshSlots();
     }
   }
-}
 
+  private async createSlot(): Promise<void> {
+    const name = window.prompt('Name for the new save slot:', 'New Café');
+    if (name === null) return;
+
+    await this.gameState.createSaveSlot(name);
+    await this.refreshSlots();
+  }
+
+  private async switchSlot(slotId?: string): Promise<void> {
+    if (!slotId) return;
+
+    await this.gameState.switchSaveSlot(slotId);
+    // Systems cache player state at startup, so restart on the new slot
+    window.location.reload();
+  }
+
+  private async duplicateSlot(slotId?: string): Promise<void> {
+    const source = this.slots.find(slot => slot.id === slotId);
+    if (!source) return;
+
+    const name = window.prompt('Name for the copy:', `${source.name} (copy)`);
+    if (name === null) return;
+
+    await this.gameState.duplicateSaveSlot(source.id, name);
+    await this.refreshSlots();
+  }
+
+  private async deleteSlot(slotId?: string): Promise<void> {
+    const slot = this.slots.find(s => s.id === slotId);
+    if (!slot) return;
+
+    const confirm = window.confirm(
+      `Delete the save slot "${slot.name}"? This action cannot be undone!`
+    );
+    
+    if (confirm) {
+      await this.gameState.deleteSaveSlot(slot.id);
+      await this.refreshSlots();
+    }
+  }
+}
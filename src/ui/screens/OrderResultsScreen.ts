@@ -8,7 +8,9 @@ import { EventSystem } from '@/systems/EventSystem';
 import { GameStateManager } from '@/systems/GameStateManager';
 import { MemoryGenerator, Memory } from '@/systems/MemoryGenerator';
 import { NPCManager } from '@/systems/NPCManager';
-import { NpcId } from '@/models/GameTypes';
+import { ConsumableAmounts, NpcId, OrderBase } from '@/models/GameTypes';
+import type { OrderOutcome } from '@/systems/OrderGrading';
+import { CONSUMABLE_EMOJI, listConsumables, sumConsumables } from '@/systems/Consumables';
 import { getMemoryPlaceholderPath } from '@/utils/AssetPaths';
 
 export interface OrderResultsData {
@@ -22,10 +24,20 @@ export interface OrderResultsData {
   memoryId?: string; // If a memory was generated
   orderType: 'Customer' | 'NPC';
   customerType?: string;
+  outcome?: OrderOutcome; // Graded payout; absent for orders completed without a submission
+}
+
+/**
+ * One order from a "serve all" batch
+ */
+export interface BatchOrderResult {
+  order: OrderBase;
+  outcome?: OrderOutcome;
 }
 
 export class OrderResultsScreen extends BaseScreen {
   private resultsData: OrderResultsData | null = null;
+  private batchResults: BatchOrderResult[] | null = null;
   private generatedMemory: Memory | null = null;
   private memoryGenerator!: MemoryGenerator;
   private npcManager!: NPCManager;
@@ -47,7 +59,11 @@ export class OrderResultsScreen extends BaseScreen {
       this.npcManager = systems.npcManager;
     }
 
-    if (data && data.order) {
+    this.batchResults = data?.batch ?? null;
+    if (this.batchResults) {
+      this.resultsData = null;
+      this.generatedMemory = null;
+    } else if (data && data.order) {
       // Convert order data to OrderResultsData format
       const order = data.order;
       this.resultsData = {
@@ -56,7 +72,8 @@ export class OrderResultsScreen extends BaseScreen {
         npcId: order.npcId,
         memoryId: data.newMemoryId, // Only exists for NPC orders
         orderType: order.kind,
-        customerType: order.customerType
+        customerType: order.customerType,
+        outcome: data.outcome
       };
       
       // Load the generated memory ONLY if newMemoryId is provided (NPC orders only)
@@ -74,12 +91,17 @@ export class OrderResultsScreen extends BaseScreen {
   }
 
   protected override createContent(): string {
+    if (this.batchResults) {
+      return this.renderBatchResults(this.batchResults);
+    }
     if (!this.resultsData) {
       return '<div class="error">No order results to display</div>';
     }
 
-    const { rewards, orderType, customerType, npcId } = this.resultsData;
+    const { rewards, orderType, customerType, npcId, outcome } = this.resultsData;
     const npc = npcId ? this.npcManager?.getNPC(npcId) : null;
+    const coins = outcome?.coins ?? rewards.coins;
+    const diamonds = outcome?.diamonds ?? rewards.diamonds;
 
     return `
       <div class="order-results-screen">
@@ -87,6 +109,7 @@ export class OrderResultsScreen extends BaseScreen {
           <div class="completion-badge">
             <span class="material-icons completion-icon">check_circle</span>
             <h2>Order Complete!</h2>
+            ${outcome ? `<span class="outcome-tier tier--${outcome.tier.toLowerCase()}">${outcome.tier}</span>` : ''}
           </div>
           
           <div class="order-info">
@@ -110,23 +133,47 @@ export class OrderResultsScreen extends BaseScreen {
             <div class="reward-item coins">
               <span class="material-icons reward-icon">monetization_on</span>
               <div class="reward-details">
-                <span class="reward-amount">+${rewards.coins}</span>
+                <span class="reward-amount">+${coins}</span>
                 <span class="reward-label">Coins</span>
               </div>
             </div>
             
-            ${rewards.diamonds ? `
+            ${diamonds ? `
               <div class="reward-item diamonds">
                 <span class="material-icons reward-icon">diamond</span>
                 <div class="reward-details">
-                  <span class="reward-amount">+${rewards.diamonds}</span>
+                  <span class="reward-amount">+${diamonds}</span>
                   <span class="reward-label">Diamonds</span>
                 </div>
               </div>
             ` : ''}
+
+            ${outcome?.tip ? `
+              <div class="reward-item tip">
+                <span class="material-icons reward-icon">volunteer_activism</span>
+                <div class="reward-details">
+                  <span class="reward-amount">+${outcome.tip}</span>
+                  <span class="reward-label">Tip (included)</span>
+                </div>
+              </div>
+            ` : ''}
+
+            ${outcome?.bondXp ? `
+              <div class="reward-item bond">
+                <span class="material-icons reward-icon">favorite</span>
+                <div class="reward-details">
+                  <span class="reward-amount">+${outcome.bondXp}</span>
+                  <span class="reward-label">Bond XP</span>
+                </div>
+              </div>
+            ` : ''}
+
+            ${this.renderConsumableRewards(outcome?.consumables ?? {})}
           </div>
         </div>
 
+        ${outcome ? this.renderOutcomeBreakdown(outcome) : ''}
+
         ${this.generatedMemory ? this.renderMemoryPreview() : ''}
 
         <div class="results-actions">
@@ -149,6 +196,112 @@ export class OrderResultsScreen extends BaseScreen {
     `;
   }
 
+  /**
+   * Combined results for a "serve all" batch
+   */
+  private renderBatchResults(results: BatchOrderResult[]): string {
+    const coins = results.reduce((sum, { order, outcome }) => sum + (outcome?.coins ?? order.rewards.coins), 0);
+    const diamonds = results.reduce((sum, { order, outcome }) => sum + (outcome?.diamonds ?? order.rewards.diamonds ?? 0), 0);
+    const bondXp = results.reduce((sum, { outcome }) => sum + (outcome?.bondXp ?? 0), 0);
+
+    return `
+      <div class="order-results-screen">
+        <div class="results-header">
+          <div class="completion-badge">
+            <span class="material-icons completion-icon">check_circle</span>
+            <h2>${results.length} Order${results.length === 1 ? '' : 's'} Complete!</h2>
+          </div>
+        </div>
+
+        <div class="rewards-section">
+          <h3>Rewards Earned</h3>
+          <div class="rewards-grid">
+            <div class="reward-item coins">
+              <span class="material-icons reward-icon">monetization_on</span>
+              <div class="reward-details">
+                <span class="reward-amount">+${coins}</span>
+                <span class="reward-label">Coins</span>
+              </div>
+            </div>
+
+            ${diamonds ? `
+              <div class="reward-item diamonds">
+                <span class="material-icons reward-icon">diamond</span>
+                <div class="reward-details">
+                  <span class="reward-amount">+${diamonds}</span>
+                  <span class="reward-label">Diamonds</span>
+                </div>
+              </div>
+            ` : ''}
+
+            ${bondXp ? `
+              <div class="reward-item bond">
+                <span class="material-icons reward-icon">favorite</span>
+                <div class="reward-details">
+                  <span class="reward-amount">+${bondXp}</span>
+                  <span class="reward-label">Bond XP</span>
+                </div>
+              </div>
+            ` : ''}
+
+            ${this.renderConsumableRewards(sumConsumables(results.map(({ outcome }) => outcome?.consumables)))}
+          </div>
+        </div>
+
+        <div class="outcome-breakdown">
+          <h3>Orders served</h3>
+          <ul class="breakdown-list">
+            ${results.map(({ order, outcome }) => `
+              <li class="breakdown-item">
+                <span class="breakdown-label">${order.customerType ?? order.orderId}</span>
+                ${outcome ? `<span class="outcome-tier tier--${outcome.tier.toLowerCase()}">${outcome.tier}</span>` : ''}
+                <span class="breakdown-points">+${outcome?.coins ?? order.rewards.coins} 🪙</span>
+              </li>
+            `).join('')}
+          </ul>
+        </div>
+
+        <div class="results-actions">
+          <button class="btn btn-primary" data-action="continue">
+            <span class="material-icons">arrow_forward</span>
+            Continue
+          </button>
+        </div>
+      </div>
+    `;
+  }
+
+  /**
+   * One reward tile per consumable dropped
+   */
+  private renderConsumableRewards(consumables: ConsumableAmounts): string {
+    return listConsumables(consumables).map(([consumable, amount]) => `
+      <div class="reward-item consumable">
+        <span class="reward-icon">${CONSUMABLE_EMOJI[consumable]}</span>
+        <div class="reward-details">
+          <span class="reward-amount">+${amount}</span>
+          <span class="reward-label">${consumable.charAt(0).toUpperCase() + consumable.slice(1)}</span>
+        </div>
+      </div>
+    `).join('');
+  }
+
+  private renderOutcomeBreakdown(outcome: OrderOutcome): string {
+    return `
+      <div class="outcome-breakdown">
+        <h3>How it went</h3>
+        <ul class="breakdown-list">
+          ${outcome.breakdown.map(factor => `
+            <li class="breakdown-item">
+              <span class="breakdown-label">${factor.label}</span>
+              <span class="breakdown-points">${factor.points} / ${factor.maxPoints}</span>
+            </li>
+          `).join('')}
+        </ul>
+      </div>
+    `;
+  }
+
   private renderMemoryPreview(): string {
     console.log('🎨 renderMemoryPreview called, generatedMemory:', !!this.generatedMemory);
     if (!this.generatedMemory) {
@@ -371,6 +524,60 @@ export class OrderResultsScreen extends BaseScreen {
         color: #e91e63;
       }
 
+      .reward-item.bond .reward-icon {
+        color: #e57373;
+      }
+
+      .outcome-tier {
+        display: inline-block;
+        margin-top: 10px;
+        padding: 4px 14px;
+        border-radius: 14px;
+        font-weight: 700;
+        color: white;
+      }
+
+      .tier--good { background: #78909c; }
+      .tier--great { background: #42a5f5; }
+      .tier--perfect { background: linear-gradient(135deg, #ffb300, #e91e63); }
+
+      .outcome-breakdown {
+        margin-bottom: 30px;
+        padding: 15px 20px;
+        background: white;
+        border-radius: 12px;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+      }
+
+      .outcome-breakdown h3 {
+        margin: 0 0 10px;
+        color: #333;
+        font-size: 1.1em;
+      }
+
+      .breakdown-list {
+        list-style: none;
+        margin: 0;
+        padding: 0;
+      }
+
+      .breakdown-item {
+        display: flex;
+        justify-content: space-between;
+        padding: 6px 0;
+        border-bottom: 1px solid #f0f0f0;
+        color: #555;
+      }
+
+      .breakdown-item:last-child {
+        border-bottom: none;
+      }
+
+      .breakdown-points {
+        font-weight: 600;
+        color: #333;
+      }
+
       .reward-details {
         display: flex;
         flex-direction: column;
@@ -7,25 +7,33 @@ import type { EventSystem } from '@/systems/EventSystem';
 import type { GameStateManager } from '@/systems/GameStateManager';
 import type { AssetManager } from '@/systems/AssetManager';
 import type { OrderGenerator } from '@/systems/OrderGenerator';
+import type { OrderResolver } from '@/systems/OrderResolver';
 import type { ScreenData } from '../ScreenManager';
-import type { OrderBase, Affinity } from '@/models/GameTypes';
+import type { OrderBase, Affinity, NpcId } from '@/models/GameTypes';
 import { getNpcPortraitPath } from '@/utils/AssetPaths';
+import { getChainProgress, getOrderChain, type OrderChainProgress } from '@/systems/OrderChains';
+import { getCustomerArchetype } from '@/systems/CustomerArchetypes';
+import { suggestFlavors } from '@/systems/OrderAutoFill';
+import { planBatch, type BatchPlan } from '@/systems/OrderBatch';
+import { DEFAULT_FLAVOR_CATALOG } from '@/systems/FlavorCatalog';
+import { sumConsumables } from '@/systems/Consumables';
 
 export class OrdersScreen extends BaseScreen {
-  private _mockOrders: OrderBase[] | null = null;
-  private _staticNPCOrders: OrderBase[] | null = null;
   private orderGenerator: OrderGenerator | null = null;
-  private usedFlavorIds: Set<string> = new Set(); // Track flavors used today
+  private orderResolver: OrderResolver | null = null;
   private currentOrderId: string | null = null; // Track current order being fulfilled
+  private batchPlan: BatchPlan | null = null; // Previewed "serve all" plan awaiting confirmation
 
   constructor(
     eventSystem: EventSystem,
     gameState: GameStateManager,
     assetManager: AssetManager,
-    orderGenerator?: OrderGenerator
+    orderGenerator?: OrderGenerator,
+    orderResolver?: OrderResolver
   ) {
     super('orders', eventSystem, gameState, assetManager);
     this.orderGenerator = orderGenerator || null;
+    this.orderResolver = orderResolver || null;
     console.log('🏗️ OrdersScreen constructor - OrderGenerator available:', !!this.orderGenerator);
     if (this.orderGenerator) {
       console.log('📊 OrderGenerator active orders:', this.orderGenerator.getActiveOrders().length);
@@ -33,19 +41,11 @@ export class OrdersScreen extends BaseScreen {
     this.setupOrderEventListeners();
   }
 
-  private get mockOrders(): OrderBase[] {
-    // Use OrderGenerator orders if available, otherwise fall back to static mock orders
-    if (this.orderGenerator) {
-      const generatedOrders = this.orderGenerator.getActiveOrders();
-      console.log(`📋 Using OrderGenerator orders: ${generatedOrders.length} orders`);
-      return generatedOrders; // Only use generated orders, no static ones
-    }
-    
-    console.log(`📋 Using static mock orders (no OrderGenerator)`);
-    if (!this._mockOrders) {
-      this._mockOrders = OrdersScreen.createMockOrders();
-    }
-    return this._mockOrders;
+  /**
+   * Orders still on offer; the board itself is kept by OrderGenerator
+   */
+  private get orders(): OrderBase[] {
+    return this.orderGenerator?.getActiveOrders() ?? [];
   }
 
 
@@ -70,10 +70,43 @@ export class OrdersScreen extends BaseScreen {
         this.updateContent();
       }
     });
+
+    // Countdowns and urgency change in place so an open flavor picker isn't thrown away
+    this.eventSystem.on('order:tick', ({ now }) => {
+      if (this.isActive) {
+        this.refreshTimers(now);
+      }
+    });
+
+    this.eventSystem.on('order:urgency_changed', ({ orderId, urgency }) => {
+      const card = this.isActive ? this.querySelector(`[data-order-card="${orderId}"]`) : null;
+      if (!card) return;
+
+      card.classList.remove('order-card--low', 'order-card--medium', 'order-card--high');
+      card.classList.add(`order-card--${urgency}`);
+      const label = card.querySelector('.order-urgency');
+      if (label) {
+        label.textContent = this.getUrgencyLabel(urgency);
+      }
+    });
+
+    this.eventSystem.on('order:chain_advanced', () => {
+      if (this.isActive) {
+        this.updateContent();
+      }
+    });
+
+    // Used flavors come back at the start of each day
+    this.eventSystem.on('day:rollover', () => {
+      if (this.isActive) {
+        this.closeFlavorSelectionModal();
+        this.updateContent();
+      }
+    });
   }
 
   protected createContent(): string {
-    const allOrders = this.mockOrders;
+    const allOrders = this.orders;
     console.log('🎨 OrdersScreen.createContent - All orders:', allOrders.map(o => ({ id: o.orderId, kind: o.kind })));
     
     const customerOrders = allOrders.filter(order => order.kind === 'Customer');
@@ -95,9 +128,14 @@ export class OrdersScreen extends BaseScreen {
               <span class="summary-value">${npcOrders.length}</span>
             </div>
           </div>
+          <button class="btn btn--primary btn-serve-all" data-action="preview-serve-all" ${allOrders.some(order => this.canFulfillOrder(order)) ? '' : 'disabled'}>
+            🍽️ Serve All Possible
+          </button>
         </div>
 
         <div class="orders-content">
+          ${this.renderChainTracker()}
+
           <!-- NPC Orders Section -->
           <div class="orders-section">
             <div class="section-header">
@@ -139,6 +177,49 @@ export class OrdersScreen extends BaseScreen {
     `;
   }
 
+  /**
+   * Each NPC's order chains: what's underway, what's done and what their bond still has to unlock
+   */
+  private renderChainTracker(): string {
+    if (!this.gameState.hasPlayer()) return '';
+
+    const npcs = this.gameState.getPlayer().npc;
+    const progress = (Object.keys(npcs) as NpcId[]).flatMap(npcId => getChainProgress(npcId, npcs[npcId]));
+    if (progress.length === 0) return '';
+
+    return `
+      <div class="orders-section chain-tracker">
+        <div class="section-header">
+          <h3>📜 Order Chains</h3>
+          <p class="section-description">Multi-step requests that end in a special memory</p>
+        </div>
+        <div class="chain-list">
+          ${progress.map(entry => this.renderChainProgress(entry)).join('')}
+        </div>
+      </div>
+    `;
+  }
+
+  private renderChainProgress({ chain, status, completedSteps }: OrderChainProgress): string {
+    const statusLabel = {
+      active: `Step ${completedSteps + 1} of ${chain.steps.length}`,
+      completed: 'Completed',
+      locked: `Unlocks at bond level ${chain.requiredBondLevel}`,
+    }[status];
+
+    return `
+      <div class="chain-entry chain-entry--${status}" data-chain-id="${chain.chainId}">
+        <div class="chain-title">${chain.title}</div>
+        <div class="chain-steps">
+          ${chain.steps.map((step, index) => `
+            <span class="chain-step ${index < completedSteps ? 'chain-step--done' : ''}" title="${step.title}"></span>
+          `).join('')}
+        </div>
+        <div class="chain-status">${statusLabel}</div>
+      </div>
+    `;
+  }
+
   /**
    * Render NPC order card
    */
@@ -146,6 +227,8 @@ export class OrdersScreen extends BaseScreen {
     const npcId = order.npcId!;
     const npcName = npcId.charAt(0).toUpperCase() + npcId.slice(1);
     const canFulfill = this.canFulfillOrder(order);
+    const chainStep = order.chain ? getOrderChain(order.chain.chainId)?.steps[order.chain.step] : undefined;
+    const finishesChain = order.chain !== undefined && order.chain.step === order.chain.totalSteps - 1;
     
     return `
       <div class="order-card order-card--npc ${canFulfill ? '' : 'order-card--locked'}">
@@ -154,7 +237,10 @@ export class OrdersScreen extends BaseScreen {
           <img src="${getNpcPortraitPath(npcId as any)}" alt="${npcName}" class="npc-avatar" />
           <div class="npc-request">
             <div class="npc-name">${npcName}'s Special Request</div>
-            <div class="npc-message">"${this.getNPCOrderMessage(npcId)}"</div>
+            ${order.chain && chainStep ? `
+              <div class="npc-chain-step">${chainStep.title} · Step ${order.chain.step + 1} of ${order.chain.totalSteps}</div>
+            ` : ''}
+            <div class="npc-message">"${chainStep?.message ?? this.getNPCOrderMessage(npcId)}"</div>
           </div>
         </div>
         
@@ -185,8 +271,8 @@ export class OrdersScreen extends BaseScreen {
               <span class="reward-value">${order.rewards.diamonds || 0} Diamonds</span>
             </div>
             <div class="reward-item">
-              <span class="reward-icon">💕</span>
-              <span class="reward-value">New Memory</span>
+              <span class="reward-icon">${finishesChain ? '🌟' : '💕'}</span>
+              <span class="reward-value">${finishesChain ? 'Special Memory' : 'New Memory'}</span>
             </div>
           </div>
         </div>
@@ -219,16 +305,14 @@ export class OrdersScreen extends BaseScreen {
     const timeLeft = this.formatTimeLeft(order.expiresAt - Date.now());
     
     return `
-      <div class="order-card order-card--customer ${canFulfill ? '' : 'order-card--locked'} ${urgencyClass}">
+      <div class="order-card order-card--customer ${canFulfill ? '' : 'order-card--locked'} ${urgencyClass}" data-order-card="${order.orderId}">
         <!-- Customer Info -->
         <div class="order-customer-header">
-          <div class="customer-avatar">${this.getCustomerAvatar(order.customerType)}</div>
+          <div class="customer-avatar">${this.getCustomerAvatar(order)}</div>
           <div class="customer-request">
             <div class="customer-name">${order.customerType || `Customer #${order.orderId.slice(-3)}`}</div>
-            <div class="order-urgency">
-              ${order.urgency === 'high' ? '🔥 Urgent' : order.urgency === 'medium' ? '⚡ Priority' : '☕ Regular'} Order
-            </div>
-            <div class="order-timer">⏰ ${timeLeft}</div>
+            <div class="order-urgency">${this.getUrgencyLabel(order.urgency)}</div>
+            <div class="order-timer" data-expires-at="${order.expiresAt}">⏰ ${timeLeft}</div>
           </div>
         </div>
         
@@ -315,20 +399,24 @@ export class OrdersScreen extends BaseScreen {
   }
 
   /**
-   * Get customer avatar based on type
+   * Avatar from the order's customer archetype
    */
-  private getCustomerAvatar(customerType?: string): string {
-    const avatarMap: Record<string, string> = {
-      'Regular Customer': '👤',
-      'Coffee Enthusiast': '☕',
-      'Sweet Tooth': '🍯',
-      'Adventurous Eater': '🌟',
-      'Health Conscious': '🥗',
-      'Busy Professional': '💼',
-      'Student': '🎓',
-      'Food Blogger': '📱'
-    };
-    return avatarMap[customerType || ''] || '👤';
+  private getCustomerAvatar(order: OrderBase): string {
+    return getCustomerArchetype(order.archetypeId)?.avatar ?? '👤';
+  }
+
+  private getUrgencyLabel(urgency: OrderBase['urgency']): string {
+    return `${urgency === 'high' ? '🔥 Urgent' : urgency === 'medium' ? '⚡ Priority' : '☕ Regular'} Order`;
+  }
+
+  /**
+   * Rewrite every countdown on the board for the current time
+   */
+  private refreshTimers(now = Date.now()): void {
+    this.element.querySelectorAll<HTMLElement>('[data-expires-at]').forEach(timer => {
+      const expiresAt = Number(timer.dataset.expiresAt);
+      timer.textContent = `⏰ ${this.formatTimeLeft(expiresAt - now)}`;
+    });
   }
 
   /**
@@ -351,113 +439,9 @@ export class OrdersScreen extends BaseScreen {
    * Check if player can fulfill order
    */
   private canFulfillOrder(order: OrderBase): boolean {
-    return order.requirements.slots.every(slot => {
-      // For now, simplified check - assume player has all affinities at level 1
-      // This allows testing of the order completion flow
-      const requiredLevel = slot.minLevel || 1;
-      return requiredLevel <= 2; // Allow orders up to level 2
-    });
+    return this.orderResolver?.canFulfill(order) ?? false;
   }
 
-  /**
-   * Generate mock orders for testing
-   */
-  private static createMockOrders(): OrderBase[] {
-    const now = Date.now();
-    const oneHour = 60 * 60 * 1000;
-
-    // Mock NPC orders
-    const npcOrders: OrderBase[] = [
-      {
-        orderId: 'npc_aria_001',
-        kind: 'NPC',
-        createdAt: now,
-        expiresAt: now + oneHour * 8,
-        npcId: 'aria',
-        requirements: {
-          slots: [
-            { affinity: 'Sweet', minLevel: 1 },
-            { affinity: 'Fresh', minLevel: 1 }
-          ]
-        },
-        rewards: {
-          coins: 200,
-          diamonds: 15,
-          memoryCandidate: true
-        },
-        status: 'available'
-      },
-      {
-        orderId: 'npc_kai_001',
-        kind: 'NPC',
-        createdAt: now,
-        expiresAt: now + oneHour * 8,
-        npcId: 'kai',
-        requirements: {
-          slots: [
-            { affinity: 'Spicy', minLevel: 1 }
-          ]
-        },
-        rewards: {
-          coins: 180,
-          diamonds: 12,
-          memoryCandidate: true
-        },
-        status: 'available'
-      }
-    ];
-
-    // Mock customer orders
-    const customerOrders: OrderBase[] = [
-      {
-        orderId: 'customer_001',
-        kind: 'Customer',
-        createdAt: now,
-        expiresAt: now + oneHour * 4,
-        requirements: {
-          slots: [{ affinity: 'Sweet' }]
-        },
-        rewards: { coins: 50 },
-        status: 'available'
-      },
-      {
-        orderId: 'customer_002',
-        kind: 'Customer',
-        createdAt: now,
-        expiresAt: now + oneHour * 4,
-        requirements: {
-          slots: [
-            { affinity: 'Bitter' },
-            { affinity: 'Sweet' }
-          ]
-        },
-        rewards: { coins: 120 },
-        status: 'available'
-      },
-      {
-        orderId: 'customer_003',
-        kind: 'Customer',
-        createdAt: now,
-        expiresAt: now + oneHour * 4,
-        requirements: {
-          slots: [
-            { affinity: 'Salty', minLevel: 2 },
-            { affinity: 'Spicy' },
-            { affinity: 'Fresh' }
-          ]
-        },
-        rewards: { 
-          coins: 250,
-          diamonds: 5 
-        },
-        status: 'available'
-      }
-    ];
-
-    return [...npcOrders, ...customerOrders];
-  }
-
-
   /**
    * Setup event listeners
    */
@@ -503,8 +487,8 @@ export class OrdersScreen extends BaseScreen {
       console.log(`📋 Active order IDs:`, activeOrders.map(o => o.orderId));
       console.log(`🎯 Trying to complete:`, orderId);
       
-      const success = this.orderGenerator.completeOrder(orderId);
-      if (success) {
+      const completed = this.orderGenerator.completeOrder(orderId);
+      if (completed) {
         console.log(`✅ Order ${orderId} completed successfully!`);
         // Update the display
         this.updateContent();
@@ -551,6 +535,23 @@ export class OrdersScreen extends BaseScreen {
         break;
       }
       
+      case 'auto-fill-order': {
+        if (this.currentOrderId) {
+          this.autoFillOrder(this.currentOrderId);
+        }
+        break;
+      }
+      
+      case 'preview-serve-all': {
+        this.previewServeAll();
+        break;
+      }
+
+      case 'confirm-serve-all': {
+        this.serveAll();
+        break;
+      }
+      
       case 'confirm-fulfill-order': {
         if (this.currentOrderId) {
           this.fulfillOrder(this.currentOrderId);
@@ -567,28 +568,21 @@ export class OrdersScreen extends BaseScreen {
    * Open flavor selection modal
    */
   private openFlavorSelectionModal(orderId: string): void {
-    const order = this.mockOrders.find(o => o.orderId === orderId);
+    const order = this.orders.find(o => o.orderId === orderId);
     if (!order) return;
 
     this.currentOrderId = orderId;
     const modal = this.querySelector('#flavor-modal');
+    const title = this.querySelector('#modal-title');
     const body = this.querySelector('#modal-body');
 
     if (!modal || !body) return;
-
-    const player = this.gameState.getPlayer();
-    const selectedFlavors: (string | null)[] = new Array(order.requirements.slots.length).fill(null);
+    if (title) title.textContent = 'Select Flavors';
 
     body.innerHTML = `
       <div class="flavor-selection">
         ${order.requirements.slots.map((slot, index) => {
-          const availableFlavors = player.flavors.filter(pf => {
-            const flavorDef = this.getFlavorDefinition(pf.flavorId);
-            return flavorDef && 
-                   flavorDef.affinity === slot.affinity && 
-                   pf.level >= (slot.minLevel || 1) &&
-                   !this.usedFlavorIds.has(pf.flavorId);
-          });
+          const availableFlavors = this.orderResolver?.getEligibleFlavors(order, index) ?? [];
 
           return `
             <div class="flavor-slot-selection">
@@ -616,8 +610,17 @@ export class OrdersScreen extends BaseScreen {
             </div>
           `;
         }).join('')}
+
+        ${order.requirements.minPower ? `
+          <p class="power-requirement">Needs a total power of ${order.requirements.minPower}+</p>
+        ` : ''}
+        <ul class="submission-errors" id="submission-errors"></ul>
+        <div class="autofill-explanation" id="autofill-explanation"></div>
         
         <div class="modal-actions">
+          <button class="btn btn--secondary" data-action="auto-fill-order">
+            ✨ Auto-fill
+          </button>
           <button class="btn btn--primary" data-action="confirm-fulfill-order" id="confirm-btn" disabled>
             Confirm Selection
           </button>
@@ -646,7 +649,7 @@ export class OrdersScreen extends BaseScreen {
     }
 
     // Check if all slots are filled
-    const order = this.mockOrders.find(o => o.orderId === this.currentOrderId);
+    const order = this.orders.find(o => o.orderId === this.currentOrderId);
     if (order && this.selectedFlavors.size === order.requirements.slots.length) {
       const confirmBtn = this.querySelector('#confirm-btn');
       if (confirmBtn) {
@@ -655,6 +658,119 @@ export class OrdersScreen extends BaseScreen {
     }
   }
 
+  /**
+   * Fill every slot with the suggested flavors and say why each was picked
+   */
+  private autoFillOrder(orderId: string): void {
+    const order = this.orders.find(o => o.orderId === orderId);
+    const suggestion = order && this.orderResolver ? suggestFlavors(order, this.orderResolver) : null;
+    if (!suggestion) {
+      this.showSubmissionErrors(['None of your flavors can fill this order right now']);
+      return;
+    }
+
+    this.showSubmissionErrors([]);
+    suggestion.slots.forEach(slot => this.selectFlavorForSlot(slot.slotIndex, slot.flavorId));
+
+    const explanation = this.querySelector('#autofill-explanation');
+    if (explanation) {
+      explanation.innerHTML = `
+        <p class="autofill-summary">
+          ${suggestion.strategy === 'save-flavors'
+            ? 'You have plenty of flavors for this order, so the cheapest ones that fit were picked.'
+            : 'Picked for the best grade you can reach.'}
+          Expected grade: <strong>${suggestion.tier}</strong>
+        </p>
+        <ul class="autofill-reasons">
+          ${suggestion.slots.map(slot => `<li>Slot ${slot.slotIndex + 1}: ${slot.reason}</li>`).join('')}
+        </ul>
+      `;
+    }
+  }
+
+  /**
+   * Plan the most rewarding way to serve the board and show it before anything is submitted
+   */
+  private previewServeAll(): void {
+    const modal = this.querySelector('#flavor-modal');
+    const title = this.querySelector('#modal-title');
+    const body = this.querySelector('#modal-body');
+    if (!modal || !body || !this.orderResolver) return;
+
+    const plan = planBatch(this.orders, this.orderResolver);
+    this.batchPlan = plan;
+    if (title) title.textContent = 'Serve All Possible';
+
+    body.innerHTML = plan.entries.length === 0 ? `
+      <p class="no-flavors">None of the open orders can be served with today's flavors.</p>
+      <div class="modal-actions">
+        <button class="btn btn--secondary" data-action="close-flavor-modal">Close</button>
+      </div>
+    ` : `
+      <div class="batch-preview">
+        <ul class="batch-entries">
+          ${plan.entries.map(entry => `
+            <li class="batch-entry">
+              <div class="batch-entry-header">
+                <span class="batch-entry-name">${entry.order.kind === 'NPC' ? `💕 ${entry.order.customerType}` : entry.order.customerType ?? 'Customer'}</span>
+                <span class="outcome-tier tier--${entry.tier.toLowerCase()}">${entry.tier}</span>
+              </div>
+              <div class="batch-entry-flavors">
+                ${entry.flavorIds.map(flavorId => this.getFlavorDefinition(flavorId)?.name ?? flavorId).join(' · ')}
+              </div>
+              <div class="batch-entry-rewards">🪙 ${entry.coins}${entry.diamonds ? ` · 💎 ${entry.diamonds}` : ''}</div>
+            </li>
+          `).join('')}
+        </ul>
+        <p class="batch-totals">
+          ${plan.entries.length} order${plan.entries.length === 1 ? '' : 's'} for about 🪙 ${plan.totalCoins}${plan.totalDiamonds ? ` and 💎 ${plan.totalDiamonds}` : ''}
+          ${plan.skipped.length > 0 ? `<br><small>${plan.skipped.length} order${plan.skipped.length === 1 ? '' : 's'} left open</small>` : ''}
+        </p>
+        <ul class="submission-errors" id="submission-errors"></ul>
+        <div class="modal-actions">
+          <button class="btn btn--primary" data-action="confirm-serve-all">Serve ${plan.entries.length}</button>
+          <button class="btn btn--secondary" data-action="close-flavor-modal">Cancel</button>
+        </div>
+      </div>
+    `;
+
+    modal.style.display = 'flex';
+    this.bindEventHandlers();
+  }
+
+  /**
+   * Submit the previewed plan in one go and show the combined results
+   */
+  private serveAll(): void {
+    const plan = this.batchPlan;
+    if (!plan || !this.orderGenerator) return;
+
+    const result = this.orderGenerator.completeOrders(
+      plan.entries.map(entry => ({ orderId: entry.order.orderId, flavorIds: entry.flavorIds }))
+    );
+    if (result.completed.length === 0) {
+      this.showSubmissionErrors(result.rejected.flatMap(({ reasons }) => reasons));
+      return;
+    }
+
+    this.gameState.markFlavorsUsed(plan.entries.flatMap(entry => entry.flavorIds));
+    const coins = result.completed.reduce((sum, { order, outcome }) => sum + (outcome?.coins ?? order.rewards.coins), 0);
+    const diamonds = result.completed.reduce((sum, { order, outcome }) => sum + (outcome?.diamonds ?? order.rewards.diamonds ?? 0), 0);
+    this.gameState.addCoins(coins);
+    if (diamonds) {
+      this.gameState.addDiamonds(diamonds);
+    }
+    this.gameState.addConsumables(sumConsumables(result.completed.map(({ outcome }) => outcome?.consumables)));
+
+    this.closeFlavorSelectionModal();
+    this.eventSystem.emit('ui:show_screen', {
+      screenId: 'order-results',
+      data: {
+        batch: result.completed.map(({ order, outcome }) => ({ order, outcome })),
+      }
+    });
+  }
+
   /**
    * Close flavor selection modal
    */
@@ -664,14 +780,15 @@ export class OrdersScreen extends BaseScreen {
       modal.style.display = 'none';
       this.selectedFlavors.clear();
       this.currentOrderId = null;
+      this.batchPlan = null;
     }
   }
 
   /**
-   * Fulfill order (mock implementation)
+   * Fulfill order
    */
   private fulfillOrder(orderId: string): void {
-    const order = this.mockOrders.find(o => o.orderId === orderId);
+    const order = this.orders.find(o => o.orderId === orderId);
     if (!order) {
       console.error(`Order not found: ${orderId}`);
       return;
@@ -679,54 +796,47 @@ export class OrdersScreen extends BaseScreen {
 
     console.log(`Fulfilling ${order.kind} order: ${orderId}`, order);
 
-    // Mark flavors as used for the day
-    this.selectedFlavors.forEach((flavorId) => {
-      this.usedFlavorIds.add(flavorId);
-    });
-
-    // Award currency rewards
-    this.gameState.addCoins(order.rewards.coins);
-    if (order.rewards.diamonds) {
-      this.gameState.addDiamonds(order.rewards.diamonds);
+    const flavorIds = order.requirements.slots.map((_, index) => this.selectedFlavors.get(index) ?? null);
+    const resolution = this.orderResolver?.resolve(order, flavorIds);
+    if (!resolution?.valid) {
+      this.showSubmissionErrors(resolution?.reasons ?? ['Orders cannot be checked right now']);
+      return;
     }
 
-    // Create memory for NPC orders and track it
-    let newMemoryId: string | undefined;
-    if (order.kind === 'NPC' && order.rewards.memoryCandidate) {
-      newMemoryId = this.createMockMemory(order.npcId!);
+    // OrderGenerator re-checks the flavors before it lets the order go, and rolls the outcome
+    console.log(`Completing ${order.kind} order via OrderGenerator: ${orderId}`);
+    const completed = this.orderGenerator?.completeOrder(orderId, flavorIds) ?? null;
+    if (!completed) {
+      this.showSubmissionErrors(['This order is no longer available']);
+      return;
     }
+    const { outcome } = completed;
 
-    // Remove order from list
-    if (this.orderGenerator && order.kind === 'Customer') {
-      // Use OrderGenerator to complete customer orders
-      console.log(`Completing customer order via OrderGenerator: ${orderId}`);
-      this.orderGenerator.completeOrder(orderId);
-    } else if (order.kind === 'NPC') {
-      // Handle static NPC orders
-      console.log(`Completing NPC order: ${orderId}, current NPC orders:`, this._staticNPCOrders?.length);
-      if (this._staticNPCOrders) {
-        const beforeCount = this._staticNPCOrders.length;
-        this._staticNPCOrders = this._staticNPCOrders.filter(o => o.orderId !== orderId);
-        const afterCount = this._staticNPCOrders.length;
-        console.log(`NPC orders: ${beforeCount} -> ${afterCount}`);
-      }
-    } else {
-      // Handle other static mock orders
-      console.log(`Completing other static order: ${orderId}`);
-      this._mockOrders = this.mockOrders.filter(o => o.orderId !== orderId);
+    // Mark flavors as used for the day
+    this.gameState.markFlavorsUsed(this.selectedFlavors.values());
+
+    // Award currency rewards, scaled by how well the flavors fit
+    this.gameState.addCoins(outcome?.coins ?? order.rewards.coins);
+    const diamonds = outcome?.diamonds ?? order.rewards.diamonds;
+    if (diamonds) {
+      this.gameState.addDiamonds(diamonds);
+    }
+    if (outcome?.consumables) {
+      this.gameState.addConsumables(outcome.consumables);
     }
 
-    // Close modal and navigate to results screen
+    // order:completed has already opened the results screen with the outcome and any memory
     this.closeFlavorSelectionModal();
-    
-    // Navigate to order results screen with order data
-    this.eventSystem.emit('ui:show_screen', {
-      screenId: 'order-results',
-      data: {
-        order: order,
-        newMemoryId: newMemoryId // Only for NPC orders
-      }
-    });
+  }
+
+  /**
+   * List why a submission was turned down, under the slot pickers
+   */
+  private showSubmissionErrors(reasons: string[]): void {
+    const list = this.querySelector('#submission-errors');
+    if (list) {
+      list.innerHTML = reasons.map(reason => `<li>${reason}</li>`).join('');
+    }
   }
 
   /**
@@ -741,36 +851,11 @@ export class OrdersScreen extends BaseScreen {
     return messages[npcId] || "I'd love something special today!";
   }
 
-  /**
-   * Create mock memory (placeholder)
-   */
-  private createMockMemory(npcId: string): string {
-    const memoryId = `memory_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const memory = {
-      memoryId: memoryId,
-      npcId: npcId as any,
-      createdAt: Date.now(),
-      keyframeId: 'placeholder',
-      summary: `A sweet moment with ${npcId.charAt(0).toUpperCase() + npcId.slice(1)} over their special order.`,
-      format: 'Drabble' as const,
-      unread: true,
-    };
-
-    this.gameState.addMemory(memory);
-    return memoryId;
-  }
-
   /**
    * Get flavor definition
    */
   private getFlavorDefinition(flavorId: string): { name: string; affinity: Affinity } | null {
-    // This is a simplified version - in reality, you'd get this from GachaSystem
-    const flavors: Record<string, { name: string; affinity: Affinity }> = {
-      sweet_ambrosia: { name: 'Sweet Ambrosia', affinity: 'Sweet' },
-      salty_umami: { name: 'Salty Umami', affinity: 'Salty' },
-      // Add more as needed
-    };
-    return flavors[flavorId] || null;
+    return DEFAULT_FLAVOR_CATALOG.get(flavorId) ?? null;
   }
 }
 
@@ -0,0 +1,168 @@
+/**
+ * Settings Screen - Save data management (export/import) and gameplay preferences
+ */
+
+import { BaseScreen } from '../BaseScreen';
+import type { EventSystem } from '@/systems/EventSystem';
+import { SCHEMA_VERSION, type GameStateManager } from '@/systems/GameStateManager';
+import type { ScreenData } from '../ScreenManager';
+import type { PlayerSettings } from '@/models/GameTypes';
+
+export class SettingsScreen extends BaseScreen {
+  private statusMessage: { text: string; type: 'success' | 'error' } | null = null;
+
+  constructor(
+    eventSystem: EventSystem,
+    gameState: GameStateManager
+  ) {
+    super('settings', eventSystem, gameState, null as any);
+  }
+
+  protected createContent(): string {
+    const duplicatePulls = this.gameState.getPlayer().settings.duplicatePulls;
+    const option = (value: PlayerSettings['duplicatePulls'], icon: string, label: string): string => `
+      <button class="btn ${duplicatePulls === value ? 'btn--primary' : 'btn--secondary'}"
+              data-action="set-duplicate-pulls" data-value="${value}">
+        <span class="material-icons">${icon}</span>
+        ${label}
+      </button>
+    `;
+
+    return `
+      <div class="settings-screen">
+        <section class="settings-section">
+          <h2 class="settings-section-title">
+            <span class="material-icons">auto_awesome</span>
+            Duplicate Pulls
+          </h2>
+          <p class="settings-section-description">
+            Convert duplicate gacha pulls straight to tokens, or keep them on the flavor to spend on ascension stars.
+            Once a flavor is fully ascended its duplicates are always converted.
+          </p>
+
+          <div class="settings-actions">
+            ${option('convert', 'toll', 'Convert to Tokens')}
+            ${option('keep', 'star', 'Keep for Ascension')}
+          </div>
+        </section>
+
+        <section class="settings-section">
+          <h2 class="settings-section-title">
+            <span class="material-icons">save</span>
+            Save Data
+          </h2>
+          <p class="settings-section-description">
+            Export your full save (flavors, memories, messages and pity) to a file, or load one from another device.
+            Importing replaces your current progress.
+          </p>
+
+          <div class="settings-actions">
+            <button class="btn btn--primary" data-action="export-save">
+              <span class="material-icons">download</span>
+              Export Save
+            </button>
+            <button class="btn btn--secondary" data-action="import-save">
+              <span class="material-icons">upload</span>
+              Import Save
+            </button>
+            <input type="file" accept="application/json,.json" class="settings-file-input" hidden />
+          </div>
+
+          ${this.statusMessage ? `
+            <p class="settings-status settings-status--${this.statusMessage.type}">${this.statusMessage.text}</p>
+          ` : ''}
+
+          <p class="settings-meta">Save schema v${SCHEMA_VERSION}</p>
+        </section>
+      </div>
+    `;
+  }
+
+  protected override onScreenShow(_data?: ScreenData): void {
+    // BaseScreen binds handlers right after this, so only refresh the markup
+    this.statusMessage = null;
+    this.element.innerHTML = this.createContent();
+    this.eventSystem.emit('header:set_variant', { variant: 'settings' });
+  }
+
+  protected override bindEventHandlers(): void {
+    super.bindEventHandlers();
+
+    const fileInput = this.querySelector<HTMLInputElement>('.settings-file-input');
+    fileInput?.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) {
+        this.importSave(file);
+      }
+      fileInput.value = '';
+    });
+  }
+
+  protected override handleAction(action: string, element: HTMLElement): void {
+    switch (action) {
+      case 'export-save':
+        this.exportSave();
+        break;
+
+      case 'import-save':
+        this.querySelector<HTMLInputElement>('.settings-file-input')?.click();
+        break;
+
+      case 'set-duplicate-pulls':
+        if (element.dataset.value === 'convert' || element.dataset.value === 'keep') {
+          this.gameState.updateSettings({ duplicatePulls: element.dataset.value });
+          this.updateContent();
+        }
+        break;
+
+      default:
+        super.handleAction(action, element);
+    }
+  }
+
+  private exportSave(): void {
+    try {
+      const contents = this.gameState.exportSave();
+      const playerId = this.gameState.getPlayer().playerId.slice(0, 8);
+      const date = new Date().toISOString().split('T')[0];
+
+      const url = URL.createObjectURL(new Blob([contents], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `meet-cute-cafe-${playerId}-${date}.json`;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+
+      this.setStatus('Save exported.', 'success');
+    } catch (error) {
+      console.error('Failed to export save:', error);
+      this.setStatus(`Export failed: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private async importSave(file: File): Promise<void> {
+    const confirm = window.confirm(
+      'Importing will replace your current progress. Continue?'
+    );
+    if (!confirm) return;
+
+    try {
+      await this.gameState.importSave(await file.text());
+      // Systems cache player state at startup, so restart from the new save
+      window.location.reload();
+    } catch (error) {
+      console.error('Failed to import save:', error);
+      this.setStatus(`Import failed: ${(error as Error).message}`, 'error');
+    }
+  }
+
+  private setStatus(text: string, type: 'success' | 'error'): void {
+    this.statusMessage = { text, type };
+    if (type === 'success') {
+      this.showSuccess(text);
+    } else {
+      this.showError(text);
+    }
+    this.updateContent();
+  }
+}
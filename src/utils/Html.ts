@@ -0,0 +1,18 @@
+/**
+ * HTML helpers for screens that build their markup as strings
+ */
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Escape text typed by the player before it goes into innerHTML
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => HTML_ENTITIES[char] ?? char);
+}
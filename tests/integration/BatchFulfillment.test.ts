@@ -0,0 +1,121 @@
+/**
+ * Integration tests for serving the whole order board at once
+ */
+
+import { planBatch } from '@/systems/OrderBatch';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { OrderResolver } from '@/systems/OrderResolver';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { RandomService } from '@/systems/RandomService';
+import type { FlavorDef, OrderBase } from '@/models/GameTypes';
+
+const FLAVORS: Record<string, Pick<FlavorDef, 'flavorId' | 'name' | 'affinity' | 'rarity' | 'basePower'>> = {
+  sweet_vanilla: { flavorId: 'sweet_vanilla', name: 'Sweet Vanilla', affinity: 'Sweet', rarity: '3★', basePower: 10 },
+  sweet_honey: { flavorId: 'sweet_honey', name: 'Sweet Honey', affinity: 'Sweet', rarity: '4★', basePower: 14 },
+  bitter_coffee: { flavorId: 'bitter_coffee', name: 'Bitter Coffee', affinity: 'Bitter', rarity: '3★', basePower: 12 },
+};
+
+const order = (orderId: string, slots: OrderBase['requirements']['slots'], coins: number): OrderBase => ({
+  orderId,
+  kind: 'Customer',
+  createdAt: Date.now(),
+  expiresAt: Date.now() + 60 * 60 * 1000,
+  requirements: { slots },
+  rewards: { coins },
+  status: 'available',
+});
+
+describe('Batch order fulfillment', () => {
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let resolver: OrderResolver;
+  let orderGenerator: OrderGenerator;
+
+  const board = (...orders: OrderBase[]) => {
+    orderGenerator['activeOrders'] = orders;
+  };
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    gameState.createNewPlayer().flavors = [
+      { flavorId: 'sweet_vanilla', level: 1, acquiredAt: 1 },
+      { flavorId: 'sweet_honey', level: 3, acquiredAt: 1 },
+      { flavorId: 'bitter_coffee', level: 2, acquiredAt: 1 },
+    ];
+    resolver = new OrderResolver(gameState, flavorId => FLAVORS[flavorId]);
+    orderGenerator = new OrderGenerator(eventSystem, undefined, new RandomService('batch'), resolver, gameState);
+  });
+
+  afterEach(() => {
+    orderGenerator.destroy();
+    gameState.destroy();
+  });
+
+  test('shares flavors so the most orders get served', () => {
+    // Greedy would give the honey to the first order and leave the second with nothing
+    board(
+      order('walk_in_1', [{ affinity: 'Sweet' }], 100),
+      order('walk_in_2', [{ affinity: 'Sweet', minLevel: 2 }], 100)
+    );
+
+    const plan = planBatch(orderGenerator.getActiveOrders(), resolver);
+
+    expect(plan.entries.map(entry => [entry.order.orderId, entry.flavorIds])).toEqual(
+      expect.arrayContaining([['walk_in_1', ['sweet_vanilla']], ['walk_in_2', ['sweet_honey']]])
+    );
+    expect(plan.skipped).toEqual([]);
+  });
+
+  test('gives contested flavors to the order worth more', () => {
+    board(
+      order('walk_in_1', [{ affinity: 'Sweet', minLevel: 2 }], 50),
+      order('walk_in_2', [{ affinity: 'Sweet', minLevel: 2 }, { affinity: 'Bitter' }], 300)
+    );
+
+    const plan = planBatch(orderGenerator.getActiveOrders(), resolver);
+
+    expect(plan.entries.map(entry => entry.order.orderId)).toEqual(['walk_in_2']);
+    expect(plan.skipped.map(o => o.orderId)).toEqual(['walk_in_1']);
+    expect(plan.totalCoins).toBe(plan.entries[0]!.coins);
+  });
+
+  test('completes a planned batch in one go', () => {
+    board(order('walk_in_1', [{ affinity: 'Sweet' }], 100), order('walk_in_2', [{ affinity: 'Bitter' }], 100));
+    const completed: string[] = [];
+    const batchFlags: Array<boolean | undefined> = [];
+    eventSystem.on('order:completed', ({ order: done, batch }) => {
+      completed.push((done as OrderBase).orderId);
+      batchFlags.push(batch);
+    });
+
+    const plan = planBatch(orderGenerator.getActiveOrders(), resolver);
+    const result = orderGenerator.completeOrders(
+      plan.entries.map(entry => ({ orderId: entry.order.orderId, flavorIds: entry.flavorIds }))
+    );
+
+    expect(result.rejected).toEqual([]);
+    expect(result.completed.every(({ outcome }) => outcome !== undefined)).toBe(true);
+    expect(completed.sort()).toEqual(['walk_in_1', 'walk_in_2']);
+    // Flagged so main.ts doesn't open a results screen per order
+    expect(batchFlags).toEqual([true, true]);
+    expect(orderGenerator.getActiveOrders()).toEqual([]);
+  });
+
+  test('completes nothing when any submission fails', () => {
+    board(order('walk_in_1', [{ affinity: 'Sweet' }], 100), order('walk_in_2', [{ affinity: 'Sweet' }], 100));
+
+    const result = orderGenerator.completeOrders([
+      { orderId: 'walk_in_1', flavorIds: ['sweet_honey'] },
+      { orderId: 'walk_in_2', flavorIds: ['sweet_honey'] },
+    ]);
+
+    expect(result.completed).toEqual([]);
+    expect(result.rejected).toEqual([
+      { orderId: 'walk_in_2', reasons: ['sweet_honey is already going to another order'] },
+    ]);
+    expect(orderGenerator.getActiveOrders().map(o => o.status)).toEqual(['available', 'available']);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Integration tests for keeping the order board in the player save
+ */
+
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { RandomService } from '@/systems/RandomService';
+import type { OrderBase } from '@/models/GameTypes';
+
+describe('Order board persistence', () => {
+  let storage: MemorySaveStorage;
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let orderGenerator: OrderGenerator;
+
+  const boardOrders = (state: GameStateManager) => {
+    const board = state.getPlayer().orderBoard;
+    return [...board.npcOrders, ...board.customerOrders];
+  };
+
+  // A second session on the same storage, as after a page reload
+  const reload = async () => {
+    await gameState.saveGame();
+    orderGenerator.destroy();
+    gameState.destroy();
+
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, storage);
+    orderGenerator = new OrderGenerator(eventSystem, undefined, new RandomService('reload'), null, gameState);
+    await gameState.loadGame();
+    orderGenerator.start();
+  };
+
+  beforeEach(() => {
+    storage = new MemorySaveStorage();
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, storage);
+    orderGenerator = new OrderGenerator(eventSystem, undefined, new RandomService('board'), null, gameState);
+    gameState.createNewPlayer();
+  });
+
+  afterEach(() => {
+    orderGenerator.destroy();
+    gameState.destroy();
+  });
+
+  test('writes the dealt board to OrderBoardState', () => {
+    orderGenerator.start();
+
+    const active = orderGenerator.getActiveOrders();
+    expect(active.length).toBeGreaterThan(0);
+    expect(boardOrders(gameState).map(o => o.orderId).sort()).toEqual(active.map(o => o.orderId).sort());
+    expect(gameState.getPlayer().orderBoard.npcOrders.every(o => o.kind === 'NPC')).toBe(true);
+  });
+
+  test('shows the same board after a reload instead of dealing a new one', async () => {
+    orderGenerator.start();
+    const byId = (orders: OrderBase[]) => [...orders].sort((a, b) => a.orderId.localeCompare(b.orderId));
+    const before = byId(orderGenerator.getActiveOrders());
+
+    await reload();
+
+    expect(byId(orderGenerator.getActiveOrders())).toEqual(before);
+  });
+
+  test('completed and expired orders stay that way across a reload', async () => {
+    orderGenerator.start();
+    const [completed, expiring] = orderGenerator.getActiveOrders();
+    orderGenerator.completeOrder(completed!.orderId);
+    orderGenerator.cleanupExpiredOrders(expiring!.expiresAt + 1);
+
+    await reload();
+
+    const statuses = new Map(boardOrders(gameState).map(o => [o.orderId, o.status]));
+    expect(statuses.get(completed!.orderId)).toBe('completed');
+    expect(orderGenerator.getActiveOrders().map(o => o.orderId)).not.toContain(completed!.orderId);
+    expect(orderGenerator.getActiveOrders().every(o => o.status === 'available')).toBe(true);
+    expect([...statuses.values()]).toContain('expired');
+  });
+
+  test('reopens an order whose submission never finished', () => {
+    orderGenerator.start();
+    const board = gameState.getPlayer().orderBoard;
+    const stuck = board.customerOrders[0]!;
+    gameState.updateOrderBoard({
+      ...board,
+      customerOrders: board.customerOrders.map(o => (o === stuck ? { ...o, status: 'submitted' } : o)),
+    });
+
+    orderGenerator.loadBoard();
+
+    expect(orderGenerator.getActiveOrders().find(o => o.orderId === stuck.orderId)?.status).toBe('available');
+  });
+
+  test('numbers new orders after the ones already on the board', async () => {
+    orderGenerator.start();
+    const existingIds = new Set(boardOrders(gameState).map(o => o.orderId));
+
+    await reload();
+    const { generated } = orderGenerator.catchUp(60 * 60 * 1000);
+
+    expect(generated.length).toBeGreaterThan(0);
+    generated.forEach(order => expect(existingIds.has(order.orderId)).toBe(false));
+  });
+});
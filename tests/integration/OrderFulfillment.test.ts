@@ -5,6 +5,7 @@
 
 import { OrderGenerator } from '@/systems/OrderGenerator';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
 import { EventSystem } from '@/systems/EventSystem';
 
 describe('Order Fulfillment Integration', () => {
@@ -14,7 +15,7 @@ describe('Order Fulfillment Integration', () => {
 
   beforeEach(() => {
     eventSystem = new EventSystem();
-    gameStateManager = new GameStateManager(eventSystem);
+    gameStateManager = new GameStateManager(eventSystem, new MemorySaveStorage());
     orderGenerator = new OrderGenerator(eventSystem);
 
     // Initialize with test player data
@@ -44,7 +45,7 @@ describe('Order Fulfillment Integration', () => {
       
       // Complete the order
       const completed = orderGenerator.completeOrder(testOrder.orderId);
-      expect(completed).toBe(true);
+      expect(completed).not.toBeNull();
       
       // Manually apply rewards (in real game, this would be done by UI/game logic)
       gameStateManager.addCoins(testOrder.rewards.coins);
@@ -83,7 +84,7 @@ describe('Order Fulfillment Integration', () => {
       ordersToComplete.forEach(order => {
         totalExpectedCoins += order.rewards.coins;
         const completed = orderGenerator.completeOrder(order.orderId);
-        expect(completed).toBe(true);
+        expect(completed).not.toBeNull();
         
         // Manually apply rewards (in real game, this would be done by UI/game logic)
         gameStateManager.addCoins(order.rewards.coins);
@@ -213,7 +214,7 @@ describe('Order Fulfillment Integration', () => {
       }).not.toThrow();
       
       const result = orderGenerator.completeOrder('nonexistent_order');
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
 
     test('handles corrupted order data gracefully', () => {
@@ -234,7 +235,7 @@ describe('Order Fulfillment Integration', () => {
       
       // Test that invalid order IDs return false
       const result = orderGenerator.completeOrder('invalid_id');
-      expect(result).toBe(false);
+      expect(result).toBeNull();
     });
   });
 
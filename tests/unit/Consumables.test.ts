@@ -0,0 +1,51 @@
+/**
+ * Unit tests for consumable drops
+ */
+
+import { rollConsumableDrops, sumConsumables } from '@/systems/Consumables';
+import { DEFAULT_ECONOMY } from '@/systems/EconomyConfig';
+import type { ConsumableDropTables, OrderBase } from '@/models/GameTypes';
+
+const tables: ConsumableDropTables = {
+  amountPerSlot: [2, 2],
+  offAffinityChancePct: 0,
+  tierBonusPct: { Good: 0, Great: 50, Perfect: 100 },
+};
+
+const order = (...affinities: OrderBase['requirements']['slots'][number]['affinity'][]): OrderBase => ({
+  orderId: 'order_1',
+  kind: 'Customer',
+  createdAt: 0,
+  expiresAt: 60000,
+  requirements: { slots: affinities.map(affinity => ({ affinity })) },
+  rewards: { coins: 50 },
+  status: 'available',
+});
+
+describe('Consumables', () => {
+  test('each slot drops the consumable of the affinity it asked for', () => {
+    const drops = rollConsumableDrops(order('Sweet', 'Sweet', 'Bitter'), 'Good', tables, () => 0.5);
+
+    expect(drops).toEqual({ sugar: 4, coffee: 2 });
+  });
+
+  test('better service drops more', () => {
+    expect(rollConsumableDrops(order('Fresh'), 'Great', tables, () => 0.5)).toEqual({ mint: 3 });
+    expect(rollConsumableDrops(order('Fresh'), 'Perfect', tables, () => 0.5)).toEqual({ mint: 4 });
+  });
+
+  test('can drop a different consumable now and then', () => {
+    const rolls = [0.5, 0, 0.99];
+    const drops = rollConsumableDrops(order('Sweet'), 'Good', { ...tables, offAffinityChancePct: 100 }, () => rolls.shift()!);
+
+    expect(drops).toEqual({ salt: 2 });
+  });
+
+  test('the shipped drop tables cover every tier', () => {
+    expect(Object.keys(DEFAULT_ECONOMY.consumableDrops.tierBonusPct).sort()).toEqual(['Good', 'Great', 'Perfect']);
+  });
+
+  test('totals a batch of drops', () => {
+    expect(sumConsumables([{ sugar: 2 }, undefined, { sugar: 1, salt: 3 }])).toEqual({ sugar: 3, salt: 3 });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Unit tests for customer archetypes and reputation
+ */
+
+import {
+  DEFAULT_CUSTOMER_ARCHETYPES,
+  getUnlockedVariants,
+  parseCustomerArchetypes,
+} from '@/systems/CustomerArchetypes';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { RandomService } from '@/systems/RandomService';
+import type { OrderOutcome } from '@/systems/OrderGrading';
+import type { CustomerArchetypeDef, OrderBase } from '@/models/GameTypes';
+
+const HOUR = 60 * 60 * 1000;
+
+const barista: CustomerArchetypeDef = {
+  archetypeId: 'barista',
+  avatar: '🧑‍🍳',
+  weight: 1,
+  preferredAffinities: ['Bitter'],
+  preferenceChancePct: 100,
+  patienceHours: [2, 3],
+  tipping: { chancePct: 100, coinPct: 20 },
+  variants: [
+    { name: 'Barista', minReputation: 0, coinMultiplier: 1 },
+    { name: 'Head Barista', minReputation: 10, coinMultiplier: 2 },
+  ],
+};
+
+describe('Customer archetypes', () => {
+  describe('parseCustomerArchetypes', () => {
+    test('accepts the shipped archetypes', () => {
+      expect(DEFAULT_CUSTOMER_ARCHETYPES.length).toBeGreaterThan(0);
+      DEFAULT_CUSTOMER_ARCHETYPES.forEach(archetype => expect(archetype.variants[0]?.minReputation).toBe(0));
+    });
+
+    test('needs a variant every customer can be', () => {
+      const broken = { ...barista, variants: [{ name: 'VIP', minReputation: 5, coinMultiplier: 2 }] };
+
+      expect(() => parseCustomerArchetypes({ archetypes: [broken] })).toThrow('archetypes[0].variants');
+    });
+
+    test('rejects a patience window that runs backwards', () => {
+      expect(() => parseCustomerArchetypes({ archetypes: [{ ...barista, patienceHours: [5, 2] }] })).toThrow('patienceHours');
+    });
+  });
+
+  test('unlocks variants as reputation grows', () => {
+    expect(getUnlockedVariants(barista, 0).map(v => v.name)).toEqual(['Barista']);
+    expect(getUnlockedVariants(barista, 10).map(v => v.name)).toEqual(['Barista', 'Head Barista']);
+  });
+
+  describe('orders', () => {
+    let eventSystem: EventSystem;
+    let gameState: GameStateManager;
+    let orderGenerator: OrderGenerator;
+
+    const createOrders = (count: number): OrderBase[] =>
+      Array.from({ length: count }, () => orderGenerator['createRandomOrder'](0));
+
+    beforeEach(() => {
+      eventSystem = new EventSystem();
+      gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+      gameState.createNewPlayer();
+      orderGenerator = new OrderGenerator(
+        eventSystem,
+        { customerArchetypes: [barista] },
+        new RandomService('customers'),
+        null,
+        gameState
+      );
+    });
+
+    afterEach(() => {
+      orderGenerator.destroy();
+      gameState.destroy();
+    });
+
+    test('take their flavors and patience from the archetype', () => {
+      createOrders(20).forEach(order => {
+        expect(order.archetypeId).toBe('barista');
+        expect(order.customerType).toBe('Barista');
+        expect(order.requirements.slots.every(slot => slot.affinity === 'Bitter')).toBe(true);
+        expect(order.expiresAt).toBeGreaterThanOrEqual(2 * HOUR);
+        expect(order.expiresAt).toBeLessThanOrEqual(3 * HOUR);
+      });
+    });
+
+    test('bring in better-paying variants once reputation allows', () => {
+      gameState.changeCustomerReputation('barista', 10);
+
+      const heads = createOrders(30).filter(order => order.customerType === 'Head Barista');
+
+      expect(heads.length).toBeGreaterThan(0);
+    });
+
+    test('raise reputation when served and lower it when left to expire', () => {
+      const [served, ignored] = [orderGenerator['createRandomOrder'](), orderGenerator['createRandomOrder']()];
+      orderGenerator['activeOrders'].push(served, { ...ignored, expiresAt: 0 });
+
+      orderGenerator.completeOrder(served.orderId);
+      expect(gameState.getCustomerReputation('barista')).toBe(1);
+
+      orderGenerator.cleanupExpiredOrders(1);
+      expect(gameState.getCustomerReputation('barista')).toBe(0);
+    });
+
+    test('announce a variant when its reputation is reached', () => {
+      const notifications: string[] = [];
+      eventSystem.on('ui:notification', ({ message }) => notifications.push(message));
+      gameState.changeCustomerReputation('barista', 9);
+
+      const order = orderGenerator['createRandomOrder']();
+      orderGenerator['activeOrders'].push(order);
+      orderGenerator.completeOrder(order.orderId);
+
+      expect(notifications).toEqual([expect.stringContaining('Head Barista')]);
+    });
+
+    test('tip only for Great service or better', () => {
+      const outcome = (tier: OrderOutcome['tier']): OrderOutcome => ({ tier, breakdown: [], coins: 100, diamonds: 0, bondXp: 0 });
+      const good = outcome('Good');
+      const great = outcome('Great');
+
+      orderGenerator['addTip']('barista', good);
+      orderGenerator['addTip']('barista', great);
+
+      expect(good.coins).toBe(100);
+      expect(good.tip).toBeUndefined();
+      expect(great).toMatchObject({ coins: 120, tip: 20 });
+    });
+  });
+});
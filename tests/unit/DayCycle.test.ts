@@ -0,0 +1,98 @@
+/**
+ * Unit tests for the daily reset cycle
+ */
+
+import { DayCycle, getLocalDay } from '@/systems/DayCycle';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('DayCycle', () => {
+  let eventSystem: EventSystem;
+  let storage: MemorySaveStorage;
+  let gameState: GameStateManager;
+  let orderGenerator: OrderGenerator;
+  let dayCycle: DayCycle;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    storage = new MemorySaveStorage();
+    gameState = new GameStateManager(eventSystem, storage);
+    orderGenerator = new OrderGenerator(eventSystem);
+    dayCycle = new DayCycle(eventSystem, gameState, orderGenerator);
+    gameState.createNewPlayer();
+  });
+
+  afterEach(() => {
+    dayCycle.destroy();
+    orderGenerator.destroy();
+    gameState.destroy();
+    eventSystem.clear();
+  });
+
+  test('formats the local calendar day', () => {
+    expect(getLocalDay(new Date(2024, 0, 5, 23, 59).getTime())).toBe('2024-01-05');
+    expect(getLocalDay(new Date(2024, 0, 6, 0, 1).getTime())).toBe('2024-01-06');
+  });
+
+  test('does nothing within the same day', () => {
+    const listener = jest.fn();
+    eventSystem.on('day:rollover', listener);
+
+    expect(dayCycle.checkForRollover()).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('starts a new day with a fresh seed, board and flavor usage', () => {
+    const player = gameState.getPlayer();
+    gameState.markFlavorsUsed(['sweet_vanilla']);
+    const previousDay = player.orderBoard.day;
+    const previousSeed = player.dailySeed;
+
+    const listener = jest.fn();
+    eventSystem.on('day:rollover', listener);
+    const tomorrow = Date.now() + DAY;
+
+    expect(dayCycle.checkForRollover(tomorrow)).toBe(true);
+
+    const day = getLocalDay(tomorrow);
+    expect(player.orderBoard.day).toBe(day);
+    expect(player.dailySeed).not.toBe(previousSeed);
+    expect(player.dailySeed).toBe(`${day}-${player.playerId}`);
+    expect(gameState.isFlavorUsedToday('sweet_vanilla')).toBe(false);
+    expect(listener).toHaveBeenCalledWith({ previousDay, day, dailySeed: player.dailySeed });
+  });
+
+  test('rebuilds the customer and NPC boards', () => {
+    orderGenerator['activeOrders'].push({
+      orderId: 'yesterday',
+      kind: 'Customer',
+      createdAt: Date.now(),
+      expiresAt: Date.now() + DAY,
+      requirements: { slots: [{ affinity: 'Sweet' }] },
+      rewards: { coins: 10 },
+      status: 'available',
+    });
+
+    dayCycle.checkForRollover(Date.now() + DAY);
+
+    const orders = orderGenerator.getActiveOrders();
+    expect(orders.find(order => order.orderId === 'yesterday')).toBeUndefined();
+    expect(orders.some(order => order.kind === 'Customer')).toBe(true);
+    expect(orders.some(order => order.kind === 'NPC')).toBe(true);
+  });
+
+  test('persists flavor usage for the rest of the day', async () => {
+    gameState.markFlavorsUsed(['salty_caramel']);
+    await gameState.saveGame();
+
+    const reloaded = new GameStateManager(new EventSystem(), storage);
+    await reloaded.loadGame();
+
+    expect(reloaded.isFlavorUsedToday('salty_caramel')).toBe(true);
+    reloaded.destroy();
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Unit tests for the economy balancing tables
+ */
+
+import { DEFAULT_ECONOMY, parseEconomyTables } from '@/systems/EconomyConfig';
+
+describe('EconomyConfig', () => {
+  test('loads the spec difficulty bands from economy.json', () => {
+    const { customerBands, stretchChancePct } = DEFAULT_ECONOMY.orderGeneration;
+
+    expect(customerBands.Easy).toMatchObject({ weightPct: 50, slots: 1, minLevel: 1 });
+    expect(customerBands.Medium).toMatchObject({ weightPct: 35, slots: 2, minLevel: 2 });
+    expect(customerBands.Hard).toMatchObject({ weightPct: 15, slots: 3, minLevel: 3 });
+    expect(stretchChancePct).toBeGreaterThanOrEqual(10);
+    expect(stretchChancePct).toBeLessThanOrEqual(15);
+  });
+
+  test('names the broken field in a bad edit', () => {
+    const broken = JSON.parse(JSON.stringify(DEFAULT_ECONOMY));
+    broken.orderGeneration.customerBands.Medium.slots = 0;
+
+    expect(() => parseEconomyTables(broken)).toThrow('orderGeneration.customerBands.Medium.slots');
+    expect(() => parseEconomyTables({})).toThrow('orderGeneration is missing');
+  });
+
+  test('needs an upgrade rule for every level below a fully ascended cap', () => {
+    const broken = JSON.parse(JSON.stringify(DEFAULT_ECONOMY));
+    broken.levelCaps['5★'] = 8;
+
+    expect(() => parseEconomyTables(broken)).toThrow('levelCaps.5★ needs an upgrade rule for level 9');
+  });
+
+  test('keeps the ascension power bonus with the other ascension numbers', () => {
+    const broken = JSON.parse(JSON.stringify(DEFAULT_ECONOMY));
+    delete broken.ascension.powerBonusPerStar;
+
+    expect(DEFAULT_ECONOMY.ascension.powerBonusPerStar).toBe(0.1);
+    expect(() => parseEconomyTables(broken)).toThrow('ascension.powerBonusPerStar');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Unit tests for the shared flavor catalog
+ */
+
+import { DEFAULT_FLAVOR_CATALOG, parseFlavorCatalog } from '@/systems/FlavorCatalog';
+import { GachaSystem } from '@/systems/GachaSystem';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { validatePlayer } from '@/systems/SaveValidation';
+
+const vanilla = {
+  flavorId: 'sweet_vanilla',
+  name: 'Vanilla Delight',
+  affinity: 'Sweet',
+  rarity: '3★',
+  basePower: 10,
+  description: 'A classic.',
+  npcId: 'aria',
+  storyTagline: 'A sweet afternoon',
+};
+
+describe('FlavorCatalog', () => {
+  test('looks flavors up by id, affinity and rarity', () => {
+    expect(DEFAULT_FLAVOR_CATALOG.get('sweet_ambrosia')).toMatchObject({ affinity: 'Sweet', rarity: '5★' });
+    expect(DEFAULT_FLAVOR_CATALOG.getByAffinity('Bitter').every(flavor => flavor.affinity === 'Bitter')).toBe(true);
+    expect(DEFAULT_FLAVOR_CATALOG.getByRarity('5★').length).toBeGreaterThan(0);
+    expect(DEFAULT_FLAVOR_CATALOG.get('no_such_flavor')).toBeUndefined();
+  });
+
+  test('fills in preview art from the NPC and rarity', () => {
+    expect(DEFAULT_FLAVOR_CATALOG.get('sweet_ambrosia')?.previewAsset).toBe('/art/npc/aria/aria_flavor_preview_5star.mp4');
+  });
+
+  test('rejects a starter flavor that is not in the catalog', () => {
+    const data = { flavors: { sweet_vanilla: vanilla }, starterFlavors: ['sweet_vanila'] };
+
+    expect(() => parseFlavorCatalog(data)).toThrow('starterFlavors[0] "sweet_vanila" is not a flavor');
+  });
+
+  test('rejects a flavor filed under the wrong id', () => {
+    expect(() => parseFlavorCatalog({ flavors: { vanilla }, starterFlavors: [] })).toThrow('flavors.vanilla.flavorId');
+  });
+
+  test('is the one source for gacha and new players', () => {
+    const eventSystem = new EventSystem();
+    const gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    const player = gameState.createNewPlayer();
+    const gacha = new GachaSystem(eventSystem, gameState);
+
+    expect(gacha.getAllFlavorDefs()).toEqual(DEFAULT_FLAVOR_CATALOG.getPullableFlavors());
+    expect(gacha.getFlavorDef('sweet_honeydew_mint')?.secondaryAffinity).toBe('Fresh');
+    expect(gacha.getAllFlavorDefs().some(flavor => flavor.flavorId === 'sweet_honeydew_mint')).toBe(false);
+    player.flavors.forEach(flavor => expect(DEFAULT_FLAVOR_CATALOG.has(flavor.flavorId)).toBe(true));
+
+    gameState.destroy();
+  });
+
+  test('flags saved flavors it does not know', () => {
+    const eventSystem = new EventSystem();
+    const gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    const player = gameState.createNewPlayer();
+    player.flavors.push({ flavorId: 'sweet_legendary', level: 2, acquiredAt: 1 });
+
+    const { value, repairs, warnings } = validatePlayer(player, { knownFlavorIds: DEFAULT_FLAVOR_CATALOG.getFlavorIds() });
+
+    expect(repairs).toEqual([]);
+    expect(warnings.map(warning => warning.problem)).toEqual(['unknown flavor id "sweet_legendary"']);
+    expect(value.flavors.map(flavor => flavor.flavorId)).toEqual([...DEFAULT_FLAVOR_CATALOG.getNewPlayerFlavorIds(), 'sweet_legendary']);
+
+    gameState.destroy();
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for flavor upgrades
+ */
+
+import { FlavorUpgradeService } from '@/systems/FlavorUpgradeService';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { DEFAULT_ECONOMY } from '@/systems/EconomyConfig';
+import type { Player } from '@/models/GameTypes';
+
+describe('FlavorUpgradeService', () => {
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let upgrades: FlavorUpgradeService;
+  let player: Player;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    player = gameState.createNewPlayer();
+    player.coins = 1000;
+    upgrades = new FlavorUpgradeService(eventSystem, gameState);
+  });
+
+  afterEach(() => {
+    gameState.destroy();
+  });
+
+  test('charges coins and the flavor\'s own consumable', () => {
+    player.flavors.find(f => f.flavorId === 'bitter_coffee')!.level = 2;
+
+    expect(upgrades.getQuote('bitter_coffee').cost).toEqual({ coins: 200, consumables: { coffee: 3, sugar: 1 } });
+
+    upgrades.upgrade('bitter_coffee');
+
+    expect(gameState.getFlavor('bitter_coffee')?.level).toBe(3);
+    expect(player.coins).toBe(800);
+    expect(player.consumables).toMatchObject({ coffee: 7, sugar: 9, mint: 10 });
+  });
+
+  test('spends nothing when any part of the cost is short', () => {
+    player.consumables.sugar = 1;
+
+    const quote = upgrades.upgrade('sweet_vanilla');
+
+    expect(quote.valid).toBe(false);
+    expect(quote.reasons).toEqual(['Needs 1 more sugar']);
+    expect(gameState.getFlavor('sweet_vanilla')?.level).toBe(1);
+    expect(player.coins).toBe(1000);
+    expect(player.consumables.sugar).toBe(1);
+  });
+
+  test('stops at the rarity level cap', () => {
+    player.flavors.find(f => f.flavorId === 'sweet_vanilla')!.level = 4;
+    player.flavors.find(f => f.flavorId === 'sweet_ambrosia')!.level = 4;
+
+    expect(upgrades.getQuote('sweet_vanilla')).toMatchObject({ levelCap: 4, cost: null, valid: false });
+    expect(upgrades.getQuote('sweet_ambrosia')).toMatchObject({ levelCap: 6, valid: true });
+  });
+
+  test('announces the upgrade and records telemetry', () => {
+    const upgraded = jest.fn();
+    const telemetry = jest.fn();
+    eventSystem.on('flavor:upgraded', upgraded);
+    eventSystem.on('telemetry:flavor_upgrade', telemetry);
+
+    upgrades.upgrade('fresh_mint');
+
+    expect(upgraded).toHaveBeenCalledWith(expect.objectContaining({ flavorId: 'fresh_mint', level: 2, previousLevel: 1 }));
+    expect(telemetry).toHaveBeenCalledWith({ t: 'flavor_upgrade', flavorId: 'fresh_mint', toLevel: 2 });
+  });
+
+  test('ascends with held duplicates first and tokens for the rest', () => {
+    const flavor = player.flavors.find(f => f.flavorId === 'sweet_vanilla')!;
+    flavor.ascension = 1;
+    flavor.duplicates = 1;
+    player.tokens = 20;
+
+    expect(upgrades.getAscensionQuote('sweet_vanilla')).toMatchObject({ stars: 1, duplicatesNeeded: 2, tokens: 1, valid: true });
+
+    upgrades.ascend('sweet_vanilla');
+
+    expect(flavor).toMatchObject({ ascension: 2, duplicates: 0 });
+    expect(player.tokens).toBe(19);
+    expect(upgrades.getLevelCap('sweet_vanilla')).toBe(6);
+  });
+
+  test('charges a missing duplicate the tokens converting one pays', () => {
+    // One table for both, so keeping duplicates and converting them are worth the same
+    expect(DEFAULT_ECONOMY.duplicateTokens).toEqual({ '3★': 1, '4★': 5, '5★': 20 });
+    player.tokens = 20;
+
+    expect(upgrades.getAscensionQuote('sweet_vanilla')).toMatchObject({
+      duplicatesNeeded: 1,
+      tokens: DEFAULT_ECONOMY.duplicateTokens['3★'],
+    });
+  });
+
+  test('stops wanting duplicates once fully ascended', () => {
+    const flavor = player.flavors.find(f => f.flavorId === 'fresh_mint')!;
+    flavor.ascension = 3;
+
+    expect(upgrades.wantsDuplicate('fresh_mint')).toBe(false);
+    expect(upgrades.ascend('fresh_mint')).toMatchObject({ valid: false, reasons: ['Already fully ascended (3★)'] });
+    expect(flavor.ascension).toBe(3);
+  });
+});
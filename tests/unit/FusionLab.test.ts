@@ -0,0 +1,88 @@
+/**
+ * Unit tests for the Flavor Lab
+ */
+
+import { DEFAULT_FUSION_RECIPES, FusionLab, parseFusionRecipes } from '@/systems/FusionLab';
+import { OrderResolver } from '@/systems/OrderResolver';
+import { DEFAULT_FLAVOR_CATALOG } from '@/systems/FlavorCatalog';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import type { OrderBase, Player } from '@/models/GameTypes';
+
+describe('FusionLab', () => {
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let lab: FusionLab;
+  let player: Player;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    player = gameState.createNewPlayer();
+    player.coins = 1000;
+    lab = new FusionLab(eventSystem, gameState);
+  });
+
+  afterEach(() => {
+    gameState.destroy();
+  });
+
+  test('matches ingredients on affinity in any order', () => {
+    expect(lab.findRecipe(['fresh_mint', 'sweet_vanilla'])?.recipeId).toBe('honeydew_mint');
+    expect(lab.findRecipe(['sweet_vanilla', 'fresh_mint'])?.recipeId).toBe('honeydew_mint');
+    expect(lab.findRecipe(['sweet_vanilla', 'sweet_ambrosia'])).toBeNull();
+  });
+
+  test('crafts the hybrid, keeps the ingredients and discovers the recipe', () => {
+    const crafted = jest.fn();
+    eventSystem.on('fusion:crafted', crafted);
+
+    const quote = lab.fuse(['sweet_vanilla', 'fresh_mint']);
+
+    expect(quote.valid).toBe(true);
+    expect(gameState.getFlavor('sweet_honeydew_mint')?.level).toBe(1);
+    expect(gameState.getFlavor('sweet_vanilla')).toBeDefined();
+    expect(player.coins).toBe(700);
+    expect(player.consumables).toMatchObject({ sugar: 5, mint: 5 });
+    expect(player.discoveredRecipes).toEqual(['honeydew_mint']);
+    expect(crafted).toHaveBeenCalledWith(expect.objectContaining({ recipeId: 'honeydew_mint', flavorId: 'sweet_honeydew_mint' }));
+  });
+
+  test('discovers a recipe it can\'t pay for yet without spending anything', () => {
+    player.coins = 100;
+
+    const quote = lab.fuse(['bitter_coffee', 'sweet_vanilla']);
+
+    expect(quote.reasons).toEqual(['Needs 200 more coins']);
+    expect(player.discoveredRecipes).toEqual(['mocha_fudge']);
+    expect(gameState.getFlavor('bitter_mocha_fudge')).toBeUndefined();
+    expect(player.coins).toBe(100);
+    expect(lab.getRecipeBook().find(entry => entry.recipe.recipeId === 'mocha_fudge')?.discovered).toBe(true);
+  });
+
+  test('hybrids fill slots of either affinity', () => {
+    lab.fuse(['sweet_vanilla', 'fresh_mint']);
+    const resolver = new OrderResolver(gameState, flavorId => DEFAULT_FLAVOR_CATALOG.get(flavorId));
+    const order: OrderBase = {
+      orderId: 'order_1',
+      kind: 'Customer',
+      createdAt: 0,
+      expiresAt: 60000,
+      requirements: { slots: [{ affinity: 'Fresh' }] },
+      rewards: { coins: 50 },
+      status: 'available',
+    };
+
+    expect(resolver.resolve(order, ['sweet_honeydew_mint']).valid).toBe(true);
+  });
+
+  test('rejects recipes that make an unknown flavor or repeat another', () => {
+    const recipe = DEFAULT_FUSION_RECIPES[0]!;
+
+    expect(() => parseFusionRecipes({ recipes: { a: { ...recipe, recipeId: 'a', resultFlavorId: 'nope' } } }))
+      .toThrow('recipes.a.resultFlavorId "nope" is not a flavor');
+    expect(() => parseFusionRecipes({ recipes: { a: { ...recipe, recipeId: 'a' }, b: { ...recipe, recipeId: 'b' } } }))
+      .toThrow('recipes.b.ingredients are the same as recipes.a');
+  });
+});
@@ -5,6 +5,7 @@
 import { GachaSystem } from '@/systems/GachaSystem';
 import { EventSystem } from '@/systems/EventSystem';
 import { GameStateManager } from '@/systems/GameStateManager';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
 
 describe('GachaSystem', () => {
   let eventSystem: EventSystem;
@@ -13,7 +14,7 @@ describe('GachaSystem', () => {
 
   beforeEach(() => {
     eventSystem = new EventSystem();
-    gameStateManager = new GameStateManager(eventSystem);
+    gameStateManager = new GameStateManager(eventSystem, new MemorySaveStorage());
     gachaSystem = new GachaSystem(eventSystem, gameStateManager);
     
     // Create a test player with diamonds
@@ -173,6 +174,23 @@ describe('GachaSystem', () => {
       // If we didn't get a duplicate in 50 attempts, that's fine for this test
       // The important thing is the mechanism exists
     });
+
+    test('should keep duplicates for ascension when the player opts in', () => {
+      // Owning every flavor makes any pull a duplicate
+      for (const flavor of gachaSystem.getAllFlavorDefs()) {
+        if (!gameStateManager.getFlavor(flavor.flavorId)) {
+          gameStateManager.addFlavor({ flavorId: flavor.flavorId, level: 1, acquiredAt: Date.now() });
+        }
+      }
+      gameStateManager.updateSettings({ duplicatePulls: 'keep' });
+
+      const result = gachaSystem.pullSingle('standard');
+      const pull = result?.pulls[0];
+
+      expect(pull?.keptForAscension).toBe(true);
+      expect(result?.tokensGained).toBe(0);
+      expect(gameStateManager.getFlavor(pull!.flavorId)?.duplicates).toBe(1);
+    });
   });
 
   describe('Integration', () => {
@@ -189,13 +207,14 @@ describe('GachaSystem', () => {
       expect(telemetryEvents[0].pulls).toBe(1);
     });
 
-    test('should save game state after pulls', () => {
+    test('should save game state after pulls', async () => {
       const saveEvents: any[] = [];
       eventSystem.on('game:saved', (data) => {
         saveEvents.push(data);
       });
       
       gachaSystem.pullSingle('standard');
+      await gameStateManager.flushPendingSave();
       
       expect(saveEvents.length).toBeGreaterThan(0);
     });
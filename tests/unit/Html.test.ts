@@ -0,0 +1,17 @@
+/**
+ * Unit tests for the HTML helpers
+ */
+
+import { escapeHtml } from '@/utils/Html';
+
+describe('escapeHtml', () => {
+  test('escapes markup characters', () => {
+    expect(escapeHtml(`<img src=x onerror="alert('hi')"> & more`)).toBe(
+      '&lt;img src=x onerror=&quot;alert(&#39;hi&#39;)&quot;&gt; &amp; more'
+    );
+  });
+
+  test('leaves plain names alone', () => {
+    expect(escapeHtml('Main Café')).toBe('Main Café');
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Unit tests for offline progress catch-up
+ */
+
+import { OfflineProgress } from '@/systems/OfflineProgress';
+import { GameStateManager, SCHEMA_VERSION } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { NPCManager } from '@/systems/NPCManager';
+import { ConversationManager } from '@/systems/ConversationManager';
+import type { Player } from '@/models/GameTypes';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('OfflineProgress', () => {
+  let eventSystem: EventSystem;
+  let storage: MemorySaveStorage;
+  let gameState: GameStateManager;
+  let orderGenerator: OrderGenerator;
+  let conversationManager: ConversationManager;
+  let offlineProgress: OfflineProgress;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    storage = new MemorySaveStorage();
+    gameState = new GameStateManager(eventSystem, storage);
+    orderGenerator = new OrderGenerator(eventSystem);
+    const npcManager = new NPCManager(eventSystem, gameState);
+    conversationManager = new ConversationManager(eventSystem, gameState, npcManager);
+    offlineProgress = new OfflineProgress(eventSystem, gameState, orderGenerator, conversationManager);
+  });
+
+  afterEach(() => {
+    orderGenerator.destroy();
+    gameState.destroy();
+    eventSystem.clear();
+  });
+
+  /**
+   * Save a player last seen `awayMs` ago and load it back
+   */
+  const loadPlayerAwayFor = async (awayMs: number, edit?: (player: Player) => void) => {
+    const player = JSON.parse(JSON.stringify(gameState.createNewPlayer())) as Player;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    player.lastSeenAt = Date.now() - awayMs;
+    edit?.(player);
+    await storage.set('meet-cute-cafe-save', JSON.stringify({ version: SCHEMA_VERSION, player, savedAt: player.lastSeenAt }));
+
+    await gameState.loadGame();
+    conversationManager.loadConversations();
+  };
+
+  test('does nothing for a brand new player', () => {
+    gameState.createNewPlayer();
+
+    expect(offlineProgress.catchUp()).toBeNull();
+    expect(orderGenerator.getActiveOrders()).toHaveLength(0);
+  });
+
+  test('expires stale orders and fills the board up to the cap', async () => {
+    await loadPlayerAwayFor(3 * HOUR);
+    orderGenerator['activeOrders'].push({
+      orderId: 'stale_order',
+      kind: 'Customer',
+      createdAt: Date.now() - 8 * HOUR,
+      expiresAt: Date.now() - HOUR,
+      requirements: { slots: [{ affinity: 'Sweet' }] },
+      rewards: { coins: 10 },
+      status: 'available',
+    });
+
+    const summary = offlineProgress.catchUp();
+
+    expect(summary).toMatchObject({ expiredOrders: 1, newOrders: 8 });
+    const orders = orderGenerator.getActiveOrders();
+    expect(orders).toHaveLength(8);
+    expect(orders.every(order => order.createdAt <= Date.now() && order.expiresAt > Date.now())).toBe(true);
+  });
+
+  test('only generates the orders that would have spawned', async () => {
+    await loadPlayerAwayFor(11 * 60 * 1000);
+
+    const summary = offlineProgress.catchUp();
+
+    expect(summary?.newOrders).toBe(2);
+  });
+
+  test('delivers queued NPC messages at the time they were due', async () => {
+    const deliverAt = Date.now() - HOUR;
+    await loadPlayerAwayFor(2 * HOUR, player => {
+      player.pendingActions.push({
+        id: 'dm_aria_1',
+        kind: 'npcMessage',
+        payload: { npcId: 'aria', content: 'Missed you today!', deliverAt },
+        createdAt: deliverAt - 2000,
+      });
+    });
+
+    const summary = offlineProgress.catchUp();
+
+    expect(summary?.messages).toEqual([{ npcId: 'aria', count: 1 }]);
+    const conversation = conversationManager.getConversation('aria');
+    expect(conversation?.messages.at(-1)).toMatchObject({ content: 'Missed you today!', timestamp: deliverAt });
+    expect(gameState.getPlayer().pendingActions).toHaveLength(0);
+  });
+
+  test('skips the summary after a short absence', async () => {
+    await loadPlayerAwayFor(60 * 1000);
+    const listener = jest.fn();
+    eventSystem.on('offline:caught_up', listener);
+
+    expect(offlineProgress.catchUp()).toBeNull();
+    expect(offlineProgress.getSummary()).toBeNull();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  test('keeps the summary until it is dismissed', async () => {
+    await loadPlayerAwayFor(HOUR);
+
+    const summary = offlineProgress.catchUp();
+
+    expect(offlineProgress.getSummary()).toBe(summary);
+    offlineProgress.dismissSummary();
+    expect(offlineProgress.getSummary()).toBeNull();
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Unit tests for order auto-fill suggestions
+ */
+
+import { suggestFlavors } from '@/systems/OrderAutoFill';
+import { OrderResolver } from '@/systems/OrderResolver';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import type { FlavorDef, OrderBase, PlayerFlavor } from '@/models/GameTypes';
+
+type Def = Pick<FlavorDef, 'flavorId' | 'name' | 'affinity' | 'rarity' | 'basePower'>;
+
+const FLAVORS: Record<string, Def> = {
+  sweet_vanilla: { flavorId: 'sweet_vanilla', name: 'Sweet Vanilla', affinity: 'Sweet', rarity: '3★', basePower: 10 },
+  sweet_honey: { flavorId: 'sweet_honey', name: 'Sweet Honey', affinity: 'Sweet', rarity: '4★', basePower: 14 },
+  sweet_ambrosia: { flavorId: 'sweet_ambrosia', name: 'Sweet Ambrosia', affinity: 'Sweet', rarity: '5★', basePower: 20 },
+  bitter_coffee: { flavorId: 'bitter_coffee', name: 'Bitter Coffee', affinity: 'Bitter', rarity: '3★', basePower: 12 },
+};
+
+// Extra 3★ Sweet flavors to give the player a large surplus
+for (let i = 1; i <= 6; i++) {
+  FLAVORS[`sweet_extra_${i}`] = { flavorId: `sweet_extra_${i}`, name: `Sweet Extra ${i}`, affinity: 'Sweet', rarity: '3★', basePower: 10 };
+}
+
+const order = (slots: OrderBase['requirements']['slots'], minPower?: number): OrderBase => ({
+  orderId: 'order_1',
+  kind: 'Customer',
+  createdAt: Date.now(),
+  expiresAt: Date.now() + 60000,
+  requirements: { slots, minPower },
+  rewards: { coins: 50 },
+  status: 'available',
+});
+
+describe('OrderAutoFill', () => {
+  let gameState: GameStateManager;
+  let resolver: OrderResolver;
+
+  const own = (flavors: Array<[string, number]>) => {
+    gameState.getPlayer().flavors = flavors.map(([flavorId, level]): PlayerFlavor => ({ flavorId, level, acquiredAt: 1 }));
+  };
+
+  beforeEach(() => {
+    gameState = new GameStateManager(new EventSystem(), new MemorySaveStorage());
+    gameState.createNewPlayer();
+    resolver = new OrderResolver(gameState, flavorId => FLAVORS[flavorId]);
+  });
+
+  afterEach(() => {
+    gameState.destroy();
+  });
+
+  test('picks the flavors with the best grade when the collection is thin', () => {
+    own([['sweet_vanilla', 1], ['sweet_ambrosia', 3], ['bitter_coffee', 1]]);
+
+    const suggestion = suggestFlavors(order([{ affinity: 'Sweet' }, { affinity: 'Bitter' }]), resolver);
+
+    expect(suggestion?.strategy).toBe('best-grade');
+    expect(suggestion?.flavorIds).toEqual(['sweet_ambrosia', 'bitter_coffee']);
+    expect(suggestion?.slots[0]?.reason).toContain('5★ rarity');
+  });
+
+  test('saves valuable flavors when there are plenty to spare', () => {
+    own([
+      ['sweet_ambrosia', 5],
+      ['sweet_honey', 4],
+      ...Array.from({ length: 6 }, (_, i): [string, number] => [`sweet_extra_${i + 1}`, i === 2 ? 1 : 3]),
+    ]);
+
+    const suggestion = suggestFlavors(order([{ affinity: 'Sweet' }]), resolver);
+
+    expect(suggestion?.strategy).toBe('save-flavors');
+    expect(suggestion?.flavorIds).toEqual(['sweet_extra_3']);
+    expect(suggestion?.slots[0]?.reason).toContain('lowest-value');
+  });
+
+  test('respects level floors and flavors already served today', () => {
+    own([['sweet_vanilla', 1], ['sweet_honey', 2], ['sweet_ambrosia', 3]]);
+    gameState.markFlavorsUsed(['sweet_ambrosia']);
+
+    const suggestion = suggestFlavors(order([{ affinity: 'Sweet', minLevel: 2 }]), resolver);
+
+    expect(suggestion?.flavorIds).toEqual(['sweet_honey']);
+  });
+
+  test('never puts one flavor in two slots', () => {
+    own([['sweet_vanilla', 1], ['sweet_ambrosia', 3]]);
+
+    const suggestion = suggestFlavors(order([{ affinity: 'Sweet' }, { affinity: 'Sweet' }]), resolver);
+
+    expect(new Set(suggestion?.flavorIds).size).toBe(2);
+  });
+
+  test('only suggests submissions the resolver accepts', () => {
+    own([['sweet_vanilla', 1], ['sweet_ambrosia', 1]]);
+
+    expect(suggestFlavors(order([{ affinity: 'Sweet' }], 100), resolver)).toBeNull();
+    expect(suggestFlavors(order([{ affinity: 'Sweet' }], 20), resolver)?.flavorIds).toEqual(['sweet_ambrosia']);
+  });
+
+  test('returns null when a slot has no eligible flavor', () => {
+    own([['sweet_vanilla', 1]]);
+
+    expect(suggestFlavors(order([{ affinity: 'Bitter' }]), resolver)).toBeNull();
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Unit tests for authored NPC order chains
+ */
+
+import {
+  DEFAULT_ORDER_CHAINS,
+  getChainProgress,
+  getNextChainStep,
+  parseOrderChains,
+} from '@/systems/OrderChains';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { RandomService } from '@/systems/RandomService';
+import { NPCManager } from '@/systems/NPCManager';
+import { MemoryGenerator } from '@/systems/MemoryGenerator';
+import type { OrderBase, OrderChainDef, PlayerNpc } from '@/models/GameTypes';
+
+const chain = (chainId: string, requiredBondLevel: number, steps = 2): OrderChainDef => ({
+  chainId,
+  npcId: 'kai',
+  title: chainId,
+  requiredBondLevel,
+  steps: Array.from({ length: steps }, (_, index) => ({
+    title: `Step ${index + 1}`,
+    message: 'One more, please',
+    slots: [{ affinity: 'Bitter', minLevel: 1 }],
+    rewards: { coins: 100 },
+  })),
+  finaleMemory: { content: 'Done', extendedStory: 'All done', mood: 'proud', location: 'Café Counter' },
+});
+
+const kai = (level: number, chainProgress: Record<string, number> = {}): PlayerNpc => ({
+  npcId: 'kai',
+  bondXp: 0,
+  level,
+  unreadDmCount: 0,
+  callAvailable: false,
+  scenesSeen: [],
+  chainProgress,
+});
+
+describe('Order chains', () => {
+  describe('parseOrderChains', () => {
+    test('accepts the shipped chains', () => {
+      expect(DEFAULT_ORDER_CHAINS.length).toBeGreaterThan(0);
+      DEFAULT_ORDER_CHAINS.forEach(def => expect(def.finaleMemory.content).not.toBe(''));
+    });
+
+    test('names the offending path', () => {
+      const broken = chain('flight', 1);
+      broken.steps[1]!.slots = [{ affinity: 'Sour' as never }];
+
+      expect(() => parseOrderChains({ chains: [broken] })).toThrow('chains[0].steps[1].slots[0].affinity');
+    });
+
+    test('rejects a chain id used twice', () => {
+      expect(() => parseOrderChains({ chains: [chain('flight', 1), chain('flight', 2)] })).toThrow('used twice');
+    });
+  });
+
+  describe('progress', () => {
+    const chains = [chain('first', 1), chain('second', 1), chain('third', 4)];
+
+    test('only the first unfinished chain is active', () => {
+      const statuses = getChainProgress('kai', kai(5), chains).map(p => p.status);
+
+      expect(statuses).toEqual(['active', 'locked', 'locked']);
+    });
+
+    test('waits for the bond level the chain asks for', () => {
+      const progress = getChainProgress('kai', kai(2, { first: 2, second: 2 }), chains);
+
+      expect(progress.map(p => p.status)).toEqual(['completed', 'completed', 'locked']);
+      expect(getNextChainStep('kai', kai(2, { first: 2, second: 2 }), chains)).toBeNull();
+      expect(getNextChainStep('kai', kai(4, { first: 2, second: 2 }), chains)?.chain.chainId).toBe('third');
+    });
+
+    test('picks up at the first step not yet done', () => {
+      const next = getNextChainStep('kai', kai(1, { first: 1 }), chains);
+
+      expect(next?.index).toBe(1);
+      expect(next?.step.title).toBe('Step 2');
+    });
+
+    test('ignores other NPCs\' chains', () => {
+      expect(getChainProgress('aria', kai(5), chains)).toEqual([]);
+    });
+  });
+
+  describe('on the order board', () => {
+    let eventSystem: EventSystem;
+    let gameState: GameStateManager;
+    let orderGenerator: OrderGenerator;
+    const chains = [{ ...chain('flight', 1, 3), npcId: 'aria' as const }];
+
+    const chainOrder = () => orderGenerator.getActiveOrders().find(order => order.chain);
+
+    beforeEach(() => {
+      eventSystem = new EventSystem();
+      gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+      gameState.createNewPlayer();
+      orderGenerator = new OrderGenerator(
+        eventSystem,
+        { orderChains: chains },
+        new RandomService('chains'),
+        null,
+        gameState
+      );
+      orderGenerator.start();
+    });
+
+    afterEach(() => {
+      orderGenerator.destroy();
+      gameState.destroy();
+    });
+
+    test('deals the NPC\'s next chain step instead of a random request', () => {
+      const order = chainOrder();
+
+      expect(order).toMatchObject({ npcId: 'aria', chain: { chainId: 'flight', step: 0, totalSteps: 3 } });
+      expect(order?.requirements.slots).toEqual(chains[0]!.steps[0]!.slots);
+      expect(order?.rewards.coins).toBe(100);
+    });
+
+    test('saves progress on the NPC when a step is completed', () => {
+      const advanced: number[] = [];
+      eventSystem.on('order:chain_advanced', data => advanced.push(data.completedSteps));
+
+      orderGenerator.completeOrder(chainOrder()!.orderId);
+
+      expect(gameState.getNPC('aria').chainProgress).toEqual({ flight: 1 });
+      expect(advanced).toEqual([1]);
+    });
+
+    test('moves on to the next step on the following board', () => {
+      orderGenerator.completeOrder(chainOrder()!.orderId);
+      orderGenerator.rebuildBoard();
+
+      expect(chainOrder()?.chain?.step).toBe(1);
+    });
+
+    test('an expired step is offered again', () => {
+      const order = chainOrder()!;
+      orderGenerator.cleanupExpiredOrders(order.expiresAt + 1);
+      orderGenerator.rebuildBoard();
+
+      expect(chainOrder()?.chain?.step).toBe(0);
+      expect(gameState.getNPC('aria').chainProgress).toEqual({});
+    });
+
+    test('goes back to one-off requests once the chain is done', () => {
+      for (let step = 0; step < 3; step++) {
+        orderGenerator.completeOrder(chainOrder()!.orderId);
+        orderGenerator.rebuildBoard();
+      }
+
+      expect(chainOrder()).toBeUndefined();
+      expect(orderGenerator.getActiveOrders().some(order => order.npcId === 'aria')).toBe(true);
+    });
+  });
+
+  test('the finale grants the chain\'s special memory', () => {
+    const eventSystem = new EventSystem();
+    const gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    gameState.createNewPlayer();
+    const memories = new MemoryGenerator(eventSystem, gameState, new NPCManager(eventSystem, gameState));
+    const flight = DEFAULT_ORDER_CHAINS.find(def => def.npcId === 'kai')!;
+
+    eventSystem.emit('memory:generate_from_order', { npcId: 'kai', orderId: 'npc_kai_9', chainId: flight.chainId });
+
+    const [memory] = memories.getMemoriesByNPC('kai');
+    expect(memory).toMatchObject({ content: flight.finaleMemory.content, rarity: 'epic', orderId: 'npc_kai_9' });
+    gameState.destroy();
+  });
+
+  test('finishing a chain on the board surfaces its finale memory', () => {
+    const eventSystem = new EventSystem();
+    const gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    gameState.createNewPlayer();
+    const memories = new MemoryGenerator(eventSystem, gameState, new NPCManager(eventSystem, gameState), new RandomService('chains'));
+    const orderGenerator = new OrderGenerator(eventSystem, {}, new RandomService('chains'), null, gameState);
+    const firstBatch = DEFAULT_ORDER_CHAINS.find(def => def.npcId === 'aria')!;
+    // The id main.ts hands to the results screen for each completed order
+    const surfaced: Array<string | undefined> = [];
+    eventSystem.on('order:completed', data => surfaced.push(memories.generateRewardMemory(data.order as OrderBase)?.id));
+    orderGenerator.start();
+
+    firstBatch.steps.forEach(() => {
+      const step = orderGenerator.getActiveOrders().find(order => order.chain?.chainId === firstBatch.chainId)!;
+      orderGenerator.completeOrder(step.orderId);
+      orderGenerator.rebuildBoard();
+    });
+
+    expect(surfaced).toHaveLength(firstBatch.steps.length);
+    expect(memories.getMemory(surfaced[surfaced.length - 1]!)).toMatchObject({
+      content: firstBatch.finaleMemory.content,
+      rarity: 'epic',
+    });
+    expect(memories.getMemoriesByNPC('aria')).toHaveLength(firstBatch.steps.length);
+    orderGenerator.destroy();
+    gameState.destroy();
+  });
+});
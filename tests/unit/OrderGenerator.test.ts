@@ -5,6 +5,7 @@
 
 import { OrderGenerator } from '@/systems/OrderGenerator';
 import { EventSystem } from '@/systems/EventSystem';
+import { DEFAULT_ECONOMY } from '@/systems/EconomyConfig';
 
 // Mock dependencies
 jest.mock('@/systems/EventSystem');
@@ -67,13 +68,14 @@ describe('OrderGenerator', () => {
 
   describe('order lifecycle', () => {
     test('starts and stops generation correctly', () => {
-      expect(orderGenerator['generationInterval']).toBeNull();
+      expect(orderGenerator['started']).toBe(false);
       
       orderGenerator.start();
-      expect(orderGenerator['generationInterval']).not.toBeNull();
+      expect(orderGenerator['started']).toBe(true);
+      expect(orderGenerator.getActiveOrders().length).toBeGreaterThan(0);
       
       orderGenerator.stop();
-      expect(orderGenerator['generationInterval']).toBeNull();
+      expect(orderGenerator['started']).toBe(false);
     });
 
     test('completes orders and awards rewards', () => {
@@ -94,7 +96,7 @@ describe('OrderGenerator', () => {
       
       const result = orderGenerator.completeOrder(mockOrder.orderId);
       
-      expect(result).toBe(true);
+      expect(result).not.toBeNull();
       expect(mockEventSystem.emit).toHaveBeenCalledWith('order:completed', {
         order: expect.objectContaining({ orderId: mockOrder.orderId })
       });
@@ -129,21 +131,58 @@ describe('OrderGenerator', () => {
     });
   });
 
-  describe('order complexity calculation', () => {
-    test('determines appropriate order complexity', () => {
-      const complexity = orderGenerator['determineOrderComplexity']();
+  describe('difficulty bands', () => {
+    test('rolls one of the economy difficulty bands', () => {
+      const difficulty = orderGenerator['rollDifficulty']();
       
-      expect(complexity).toBeGreaterThanOrEqual(1);
-      expect(complexity).toBeLessThanOrEqual(5);
-      expect(Number.isInteger(complexity)).toBe(true);
+      expect(['Easy', 'Medium', 'Hard']).toContain(difficulty);
     });
 
-    test('generates requirements based on complexity', () => {
-      const simpleReqs = orderGenerator['generateRequirements'](1);
-      const complexReqs = orderGenerator['generateRequirements'](5);
+    test('generates requirements based on the band', () => {
+      const easyReqs = orderGenerator['generateRequirements']('Easy');
+      const hardReqs = orderGenerator['generateRequirements']('Hard');
       
-      expect(simpleReqs.slots.length).toBeLessThanOrEqual(complexReqs.slots.length);
-      expect(simpleReqs.slots.every(slot => slot.affinity)).toBe(true);
+      expect(easyReqs.slots.length).toBeLessThanOrEqual(hardReqs.slots.length);
+      expect(easyReqs.slots.every(slot => slot.affinity)).toBe(true);
+    });
+
+    test('follows the slot counts, level floors and coin ranges in the tables', () => {
+      const bands = DEFAULT_ECONOMY.orderGeneration.customerBands;
+      const baseCoins = { Easy: 50, Medium: 120, Hard: 250 };
+
+      for (let i = 0; i < 50; i++) {
+        const order = orderGenerator['createRandomOrder']();
+        const band = bands[order.difficulty!];
+        const levels = order.requirements.slots.map(slot => slot.minLevel ?? 1);
+
+        expect(order.requirements.slots).toHaveLength(band.slots);
+        expect(levels.every(level => level === band.minLevel || level === band.minLevel + 1)).toBe(true);
+        expect(levels.filter(level => level > band.minLevel).length).toBeLessThanOrEqual(1);
+        expect(order.rewards.coins).toBeGreaterThanOrEqual(baseCoins[order.difficulty!]);
+        expect(order.rewards.coins).toBeLessThanOrEqual(baseCoins[order.difficulty!] + band.coinSpread);
+      }
+    });
+
+    test('rebalances from a different economy table', () => {
+      const allHard = {
+        ...DEFAULT_ECONOMY,
+        orderGeneration: {
+          ...DEFAULT_ECONOMY.orderGeneration,
+          stretchChancePct: 0,
+          customerBands: {
+            ...DEFAULT_ECONOMY.orderGeneration.customerBands,
+            Easy: { ...DEFAULT_ECONOMY.orderGeneration.customerBands.Easy, weightPct: 0 },
+            Medium: { ...DEFAULT_ECONOMY.orderGeneration.customerBands.Medium, weightPct: 0 },
+          },
+        },
+      };
+      const generator = new OrderGenerator(mockEventSystem, { economy: allHard });
+
+      const order = generator['createRandomOrder']();
+
+      expect(order.difficulty).toBe('Hard');
+      expect(order.requirements.slots.every(slot => slot.minLevel === 3)).toBe(true);
+      generator.destroy();
     });
   });
 
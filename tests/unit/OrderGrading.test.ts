@@ -0,0 +1,72 @@
+/**
+ * Unit tests for graded order outcomes
+ */
+
+import { gradeOrder, calculateOutcome, BASE_ORDER_BOND_XP } from '@/systems/OrderGrading';
+import type { SlotResolution } from '@/systems/OrderResolver';
+import type { OrderBase, Rarity } from '@/models/GameTypes';
+
+const order = (overrides: Partial<OrderBase> = {}): OrderBase => ({
+  orderId: 'order_1',
+  kind: 'Customer',
+  createdAt: 0,
+  expiresAt: 60000,
+  requirements: { slots: [{ affinity: 'Sweet' }] },
+  rewards: { coins: 100 },
+  status: 'available',
+  ...overrides,
+});
+
+const slot = (level: number, rarity: Rarity, affinity: SlotResolution['affinity'] = 'Sweet'): SlotResolution => ({
+  slotIndex: 0,
+  affinity,
+  minLevel: 1,
+  flavorId: 'flavor',
+  power: 10,
+  level,
+  rarity,
+  passed: true,
+});
+
+describe('OrderGrading', () => {
+  test('a bare match grades Good and pays the base rewards', () => {
+    const grade = gradeOrder(order(), [slot(1, '3★')]);
+    const outcome = calculateOutcome(order(), grade, () => 0);
+
+    expect(grade.tier).toBe('Good');
+    expect(outcome).toMatchObject({ tier: 'Good', coins: 100, diamonds: 0, bondXp: 0 });
+  });
+
+  test('level surplus and rarity push an order to Perfect', () => {
+    const grade = gradeOrder(order(), [slot(3, '5★')]);
+
+    expect(grade.tier).toBe('Perfect');
+    expect(grade.score).toBe(1);
+    expect(grade.breakdown.map(f => [f.label, f.points, f.maxPoints])).toEqual([
+      ['Affinity matches', 2, 2],
+      ['Level surplus', 2, 2],
+      ['Flavor rarity', 2, 2],
+    ]);
+  });
+
+  test('NPC favorite affinities count toward the grade', () => {
+    const npcOrder = order({ kind: 'NPC', npcId: 'aria' });
+
+    expect(gradeOrder(npcOrder, [slot(1, '3★')], ['Sweet']).tier).toBe('Great');
+    expect(gradeOrder(npcOrder, [slot(1, '3★')], ['Bitter']).tier).toBe('Good');
+    expect(gradeOrder(order(), [slot(1, '3★')], ['Sweet']).breakdown).toHaveLength(3);
+  });
+
+  test('better tiers scale coins, bonus diamonds and bond XP', () => {
+    const npcOrder = order({ kind: 'NPC', npcId: 'aria', rewards: { coins: 100, diamonds: 1 } });
+    const perfect = gradeOrder(npcOrder, [slot(3, '5★')], ['Sweet']);
+
+    expect(calculateOutcome(npcOrder, perfect, () => 0)).toMatchObject({
+      tier: 'Perfect',
+      coins: 150,
+      diamonds: 2,
+      bondXp: BASE_ORDER_BOND_XP * 2,
+    });
+    expect(calculateOutcome(npcOrder, perfect, () => 0.99).diamonds).toBe(1);
+  });
+});
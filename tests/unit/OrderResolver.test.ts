@@ -0,0 +1,123 @@
+/**
+ * Unit tests for order resolution
+ */
+
+import { OrderResolver, getFlavorPower } from '@/systems/OrderResolver';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { RandomService } from '@/systems/RandomService';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import type { FlavorDef, OrderBase } from '@/models/GameTypes';
+
+const FLAVORS: Record<string, Pick<FlavorDef, 'flavorId' | 'name' | 'affinity' | 'rarity' | 'basePower'>> = {
+  sweet_vanilla: { flavorId: 'sweet_vanilla', name: 'Sweet Vanilla', affinity: 'Sweet', rarity: '3★', basePower: 10 },
+  sweet_ambrosia: { flavorId: 'sweet_ambrosia', name: 'Sweet Ambrosia', affinity: 'Sweet', rarity: '5★', basePower: 20 },
+  bitter_coffee: { flavorId: 'bitter_coffee', name: 'Bitter Coffee', affinity: 'Bitter', rarity: '4★', basePower: 12 },
+};
+
+const order = (requirements: OrderBase['requirements']): OrderBase => ({
+  orderId: 'order_1',
+  kind: 'Customer',
+  createdAt: Date.now(),
+  expiresAt: Date.now() + 60000,
+  requirements,
+  rewards: { coins: 50 },
+  status: 'available',
+});
+
+describe('OrderResolver', () => {
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let resolver: OrderResolver;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    const player = gameState.createNewPlayer();
+    player.flavors = [
+      { flavorId: 'sweet_vanilla', level: 1, acquiredAt: 1 },
+      { flavorId: 'sweet_ambrosia', level: 3, acquiredAt: 1 },
+      { flavorId: 'bitter_coffee', level: 2, acquiredAt: 1 },
+    ];
+    resolver = new OrderResolver(gameState, flavorId => FLAVORS[flavorId]);
+  });
+
+  afterEach(() => {
+    gameState.destroy();
+    eventSystem.clear();
+  });
+
+  test('accepts matching flavors and totals their power', () => {
+    const resolution = resolver.resolve(
+      order({ slots: [{ affinity: 'Sweet' }, { affinity: 'Bitter', minLevel: 2 }] }),
+      ['sweet_vanilla', 'bitter_coffee']
+    );
+
+    expect(resolution.valid).toBe(true);
+    expect(resolution.slots.every(slot => slot.passed)).toBe(true);
+    expect(resolution.totalPower).toBe(getFlavorPower(10, 1) + getFlavorPower(12, 2));
+  });
+
+  test('reports a reason for each failing slot', () => {
+    const resolution = resolver.resolve(
+      order({ slots: [{ affinity: 'Bitter' }, { affinity: 'Sweet', minLevel: 2 }, { affinity: 'Sweet' }] }),
+      ['sweet_ambrosia', 'sweet_vanilla', 'spicy_cinnamon']
+    );
+
+    expect(resolution.valid).toBe(false);
+    expect(resolution.slots.map(slot => slot.reason)).toEqual([
+      'Sweet Ambrosia is Sweet, not Bitter',
+      'Sweet Vanilla is level 1, needs level 2',
+      'spicy_cinnamon is not in your collection',
+    ]);
+  });
+
+  test('rejects the same flavor in two slots and flavors served today', () => {
+    gameState.markFlavorsUsed(['bitter_coffee']);
+
+    const resolution = resolver.resolve(
+      order({ slots: [{ affinity: 'Sweet' }, { affinity: 'Sweet' }, { affinity: 'Bitter' }] }),
+      ['sweet_vanilla', 'sweet_vanilla', 'bitter_coffee']
+    );
+
+    expect(resolution.slots[1]?.reason).toMatch(/already used in another slot/);
+    expect(resolution.slots[2]?.reason).toMatch(/already served today/);
+  });
+
+  test('enforces the minimum total power', () => {
+    const requirements = { slots: [{ affinity: 'Sweet' as const }], minPower: 30 };
+
+    expect(resolver.resolve(order(requirements), ['sweet_vanilla']).reasons).toEqual([
+      'Total power 10 is below the required 30',
+    ]);
+    expect(resolver.resolve(order(requirements), ['sweet_ambrosia']).valid).toBe(true);
+  });
+
+  test('knows whether any owned combination fulfills an order', () => {
+    expect(resolver.canFulfill(order({ slots: [{ affinity: 'Sweet' }, { affinity: 'Sweet' }] }))).toBe(true);
+    expect(resolver.canFulfill(order({ slots: [{ affinity: 'Bitter' }, { affinity: 'Bitter' }] }))).toBe(false);
+    expect(resolver.canFulfill(order({ slots: [{ affinity: 'Sweet', minLevel: 4 }] }))).toBe(false);
+    expect(resolver.canFulfill(order({ slots: [{ affinity: 'Sweet' }], minPower: 41 }))).toBe(false);
+  });
+
+  describe('OrderGenerator integration', () => {
+    test('only completes orders whose submission passes', () => {
+      const generator = new OrderGenerator(eventSystem, undefined, new RandomService('test'), resolver);
+      const submitted = jest.fn();
+      eventSystem.on('order:submitted', submitted);
+      generator['activeOrders'].push(order({ slots: [{ affinity: 'Bitter' }] }));
+
+      expect(generator.completeOrder('order_1', ['sweet_vanilla'])).toBeNull();
+      expect(generator.getActiveOrders()).toHaveLength(1);
+
+      const completed = generator.completeOrder('order_1', ['bitter_coffee']);
+      expect(completed?.resolution?.valid).toBe(true);
+      expect(completed?.outcome?.coins).toBeGreaterThan(0);
+      expect(generator.getActiveOrders()).toHaveLength(0);
+      expect(submitted.mock.calls.map(([data]) => data.success)).toEqual([false, true]);
+
+      generator.destroy();
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for the order board clock
+ */
+
+import { OrderScheduler, getOrderUrgency } from '@/systems/OrderScheduler';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { EventSystem } from '@/systems/EventSystem';
+import { RandomService } from '@/systems/RandomService';
+import type { OrderBase } from '@/models/GameTypes';
+
+const HOUR = 60 * 60 * 1000;
+const START = 1_700_000_000_000;
+
+const order = (orderId: string, expiresAt: number): OrderBase => ({
+  orderId,
+  kind: 'Customer',
+  createdAt: START,
+  expiresAt,
+  requirements: { slots: [{ affinity: 'Sweet' }] },
+  rewards: { coins: 50 },
+  status: 'available',
+  urgency: 'low',
+});
+
+describe('OrderScheduler', () => {
+  let eventSystem: EventSystem;
+  let orderGenerator: OrderGenerator;
+  let scheduler: OrderScheduler;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    orderGenerator = new OrderGenerator(eventSystem, { maxActiveOrders: 3 }, new RandomService('scheduler'));
+    scheduler = new OrderScheduler(eventSystem, orderGenerator);
+  });
+
+  afterEach(() => {
+    scheduler.destroy();
+    orderGenerator.destroy();
+    eventSystem.clear();
+  });
+
+  test('rates urgency by the time left', () => {
+    expect(getOrderUrgency(3 * HOUR)).toBe('low');
+    expect(getOrderUrgency(90 * 60 * 1000)).toBe('medium');
+    expect(getOrderUrgency(10 * 60 * 1000)).toBe('high');
+  });
+
+  test('raises urgency as the deadline approaches', () => {
+    const changes: string[] = [];
+    eventSystem.on('order:urgency_changed', ({ orderId, urgency }) => {
+      if (orderId === 'walk_in_1') changes.push(`${orderId}:${urgency}`);
+    });
+    orderGenerator['activeOrders'].push(order('walk_in_1', START + 3 * HOUR));
+    scheduler.start(START);
+
+    scheduler.tick(START + 90 * 60 * 1000);
+    scheduler.tick(START + 2.5 * HOUR);
+    scheduler.tick(START + 2.5 * HOUR + 1000);
+
+    expect(changes).toEqual(['walk_in_1:medium', 'walk_in_1:high']);
+  });
+
+  test('expires overdue orders with an order:expired event', () => {
+    const expired = jest.fn();
+    eventSystem.on('order:expired', expired);
+    orderGenerator['activeOrders'].push(order('walk_in_1', START + HOUR), order('walk_in_2', START + 5 * HOUR));
+    scheduler.start(START);
+
+    scheduler.tick(START + HOUR + 1);
+
+    expect(expired).toHaveBeenCalledWith({ order: expect.objectContaining({ orderId: 'walk_in_1', status: 'expired' }) });
+    const activeIds = orderGenerator.getActiveOrders().map(o => o.orderId);
+    expect(activeIds).toContain('walk_in_2');
+    expect(activeIds).not.toContain('walk_in_1');
+  });
+
+  test('refills freed slots at the generation rate, not all at once', () => {
+    const interval = orderGenerator.getGenerationIntervalMs();
+    orderGenerator['activeOrders'].push(order('walk_in_1', START + 1000));
+    scheduler.start(START);
+
+    scheduler.tick(START + 2000);
+    expect(orderGenerator.getActiveOrders()).toHaveLength(0);
+
+    scheduler.tick(START + interval);
+    expect(orderGenerator.getActiveOrders()).toHaveLength(1);
+
+    scheduler.tick(START + 3 * interval);
+    expect(orderGenerator.getActiveOrders()).toHaveLength(3);
+  });
+
+  test('announces each tick so the board can redraw its countdowns', () => {
+    const ticks: number[] = [];
+    eventSystem.on('order:tick', ({ now }) => ticks.push(now));
+    scheduler.start(START);
+
+    scheduler.tick(START + 15000);
+
+    expect(ticks).toEqual([START + 15000]);
+  });
+});
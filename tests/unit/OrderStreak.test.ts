@@ -0,0 +1,108 @@
+/**
+ * Unit tests for customer order streaks
+ */
+
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import { RandomService } from '@/systems/RandomService';
+import type { OrderBase } from '@/models/GameTypes';
+
+const order = (orderId: string, kind: OrderBase['kind'], expiresAt = Date.now() + 60000): OrderBase => ({
+  orderId,
+  kind,
+  createdAt: Date.now(),
+  expiresAt,
+  requirements: { slots: [{ affinity: 'Sweet' }] },
+  rewards: { coins: 50 },
+  status: 'available',
+  ...(kind === 'NPC' ? { npcId: 'aria' as const } : {}),
+});
+
+describe('Order streaks', () => {
+  let eventSystem: EventSystem;
+  let gameState: GameStateManager;
+  let orderGenerator: OrderGenerator;
+  let changes: Array<{ streak: number; previous: number; best: number }>;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+    gameState.createNewPlayer();
+    orderGenerator = new OrderGenerator(eventSystem, undefined, new RandomService('streak'), null, gameState);
+    changes = [];
+    eventSystem.on('order:streak_changed', data => changes.push(data));
+  });
+
+  afterEach(() => {
+    orderGenerator.destroy();
+    gameState.destroy();
+  });
+
+  test('grows with each completed customer order, not NPC orders', () => {
+    orderGenerator['activeOrders'].push(order('customer_1', 'Customer'), order('customer_2', 'Customer'), order('npc_aria_3', 'NPC'));
+
+    orderGenerator.completeOrder('customer_1');
+    orderGenerator.completeOrder('npc_aria_3');
+    orderGenerator.completeOrder('customer_2');
+
+    expect(gameState.getPlayer().orderStreak).toEqual({ current: 2, best: 2 });
+    expect(changes).toEqual([
+      { streak: 1, previous: 0, best: 1 },
+      { streak: 2, previous: 1, best: 2 },
+    ]);
+  });
+
+  test('breaks when a customer order expires but keeps the best run', () => {
+    orderGenerator['activeOrders'].push(order('customer_1', 'Customer'), order('customer_2', 'Customer', 1000));
+    orderGenerator.completeOrder('customer_1');
+
+    orderGenerator.cleanupExpiredOrders(2000);
+
+    expect(gameState.getPlayer().orderStreak).toEqual({ current: 0, best: 1 });
+    expect(changes[changes.length - 1]).toEqual({ streak: 0, previous: 1, best: 1 });
+  });
+
+  test('survives the end-of-day board rebuild', () => {
+    orderGenerator['activeOrders'].push(order('customer_1', 'Customer'), order('customer_2', 'Customer'));
+    orderGenerator.completeOrder('customer_1');
+
+    orderGenerator.rebuildBoard();
+
+    expect(gameState.getOrderStreak()).toBe(1);
+  });
+
+  test('a longer streak makes hard-order diamonds more likely', () => {
+    const hard: OrderBase = { ...order('customer_1', 'Customer'), difficulty: 'Hard' };
+    const diamondDrops = () => {
+      let drops = 0;
+      for (let i = 0; i < 2000; i++) {
+        if (orderGenerator['rollStreakDiamonds'](hard) > 0) drops++;
+      }
+      return drops;
+    };
+
+    const withoutStreak = diamondDrops();
+    for (let i = 0; i < 4; i++) gameState.extendOrderStreak();
+
+    expect(diamondDrops()).toBeGreaterThan(withoutStreak * 2);
+    expect(orderGenerator['rollStreakDiamonds']({ ...hard, difficulty: 'Easy' })).toBe(0);
+  });
+
+  test('rolls the diamond chance with the streak at completion, not when the order was dealt', () => {
+    const hard = (orderId: string): OrderBase => ({ ...order(orderId, 'Customer'), difficulty: 'Hard' });
+    // 15 sits above the no-streak chance (5%) and below the long-streak one (20%)
+    const rollSpy = jest.spyOn(orderGenerator['rng'], 'next').mockReturnValue(0.15);
+
+    // Both dealt with no streak; the first is served once a long streak has built up
+    orderGenerator['activeOrders'].push(hard('customer_hard_1'), hard('customer_hard_2'));
+    for (let i = 0; i < 4; i++) gameState.extendOrderStreak();
+    expect(orderGenerator.completeOrder('customer_hard_1')?.order.rewards.diamonds).toBe(2);
+
+    gameState.breakOrderStreak();
+    expect(orderGenerator.completeOrder('customer_hard_2')?.order.rewards.diamonds).toBeUndefined();
+
+    rollSpy.mockRestore();
+  });
+});
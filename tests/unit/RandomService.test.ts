@@ -0,0 +1,104 @@
+/**
+ * Unit tests for the seeded RNG service
+ */
+
+import { RandomService } from '@/systems/RandomService';
+import { OrderGenerator } from '@/systems/OrderGenerator';
+import { EventSystem } from '@/systems/EventSystem';
+import { GameStateManager } from '@/systems/GameStateManager';
+import { MemoryGenerator } from '@/systems/MemoryGenerator';
+import { NPCManager } from '@/systems/NPCManager';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+
+const draw = (random: RandomService, count = 5) => {
+  const stream = random.stream('orders');
+  return Array.from({ length: count }, () => stream.next());
+};
+
+describe('RandomService', () => {
+  test('replays the same sequence from the same seed', () => {
+    expect(draw(new RandomService('2024-01-01-player'))).toEqual(draw(new RandomService('2024-01-01-player')));
+    expect(draw(new RandomService('2024-01-01-player'))).not.toEqual(draw(new RandomService('2024-01-02-player')));
+  });
+
+  test('produces floats in [0, 1)', () => {
+    draw(new RandomService('range'), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('keeps named streams independent', () => {
+    const quiet = new RandomService('seed');
+    const busy = new RandomService('seed');
+    busy.stream('gacha').next();
+    busy.stream('gacha').next();
+
+    expect(draw(busy)).toEqual(draw(quiet));
+  });
+
+  test('restarts streams already handed out when reseeded', () => {
+    const random = new RandomService('first');
+    const stream = random.stream('dialogue');
+    const firstRun = [stream.next(), stream.next()];
+
+    random.reseed('first');
+
+    expect([stream.next(), stream.next()]).toEqual(firstRun);
+    expect(random.getSeed()).toBe('first');
+  });
+
+  test('reseeds only the named stream from the daily seed', () => {
+    const random = new RandomService('session');
+    const gacha = random.stream('gacha');
+    gacha.next();
+    const nextGachaRoll = new RandomService('session').stream('gacha');
+    nextGachaRoll.next();
+
+    random.reseedStream('orders', 'day-seed');
+
+    expect(random.stream('orders').next()).toBe(new RandomService('day-seed').stream('orders').next());
+    expect(gacha.next()).toBe(nextGachaRoll.next());
+  });
+
+  test('deals the same order board for the same daily seed', () => {
+    const buildBoard = () => {
+      const generator = new OrderGenerator(new EventSystem(), undefined, new RandomService('2024-03-14-player'));
+      generator.rebuildBoard();
+      const board = generator.getActiveOrders().map(({ orderId, kind, requirements, rewards, customerType }) => ({
+        orderId,
+        kind,
+        requirements,
+        rewards,
+        customerType,
+      }));
+      generator.destroy();
+      return board;
+    };
+
+    const board = buildBoard();
+    expect(board.length).toBeGreaterThan(0);
+    expect(buildBoard()).toEqual(board);
+  });
+
+  test('writes the same memory, id included, for the same seed', () => {
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const writeMemory = () => {
+      const eventSystem = new EventSystem();
+      const gameState = new GameStateManager(eventSystem, new MemorySaveStorage());
+      gameState.createNewPlayer();
+      const memories = new MemoryGenerator(
+        eventSystem,
+        gameState,
+        new NPCManager(eventSystem, gameState),
+        new RandomService('2024-03-14-player')
+      );
+      const { id, content, mood } = memories.generateOrderMemory('aria', 'npc_aria_1');
+      gameState.destroy();
+      return { id, content, mood };
+    };
+
+    expect(writeMemory()).toEqual(writeMemory());
+    nowSpy.mockRestore();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Unit tests for save export/import
+ */
+
+import { GameStateManager, SCHEMA_VERSION } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+import {
+  computeSaveChecksum,
+  SaveImportError,
+  SAVE_FILE_FORMAT,
+} from '@/systems/SaveFile';
+
+describe('Save export/import', () => {
+  let eventSystem: EventSystem;
+  let gameStateManager: GameStateManager;
+
+  beforeEach(() => {
+    eventSystem = new EventSystem();
+    gameStateManager = new GameStateManager(eventSystem, new MemorySaveStorage());
+  });
+
+  afterEach(() => {
+    gameStateManager.destroy();
+    eventSystem.clear();
+  });
+
+  const importInto = async (contents: string) => {
+    const target = new GameStateManager(eventSystem, new MemorySaveStorage());
+    try {
+      return await target.importSave(contents);
+    } finally {
+      target.destroy();
+    }
+  };
+
+  test('round-trips the full save', async () => {
+    const player = gameStateManager.createNewPlayer();
+    player.coins = 1234;
+    player.pity = { starter_banner: 37 };
+    player.conversations.aria = {
+      npcId: 'aria',
+      messages: [
+        { id: 'msg_1', senderId: 'aria', content: 'Hi!', timestamp: 8, read: false },
+        { id: 'msg_2', senderId: 'aria', content: 'Still there?', timestamp: 9, read: false },
+      ],
+      lastMessageAt: 9,
+      unreadCount: 2,
+    };
+
+    const file = JSON.parse(gameStateManager.exportSave());
+    expect(file.format).toBe(SAVE_FILE_FORMAT);
+    expect(file.version).toBe(SCHEMA_VERSION);
+
+    const imported = await importInto(JSON.stringify(file));
+
+    expect(imported.playerId).toBe(player.playerId);
+    expect(imported.coins).toBe(1234);
+    expect(imported.pity).toEqual({ starter_banner: 37 });
+    expect(imported.conversations.aria?.unreadCount).toBe(2);
+  });
+
+  test('rejects a tampered file', async () => {
+    gameStateManager.createNewPlayer();
+    const file = JSON.parse(gameStateManager.exportSave());
+    file.player.diamonds = 999999;
+
+    await expect(importInto(JSON.stringify(file))).rejects.toThrow(/checksum mismatch/);
+  });
+
+  test('rejects files from a newer schema version', async () => {
+    const player = { playerId: 'from-the-future' };
+    const file = {
+      format: SAVE_FILE_FORMAT,
+      version: SCHEMA_VERSION + 1,
+      exportedAt: Date.now(),
+      checksum: computeSaveChecksum(SCHEMA_VERSION + 1, player),
+      player,
+    };
+
+    await expect(importInto(JSON.stringify(file))).rejects.toThrow(/newer version/);
+  });
+
+  test('rejects files that are not saves', async () => {
+    await expect(importInto('not json')).rejects.toThrow(SaveImportError);
+    await expect(importInto('{"hello":"world"}')).rejects.toThrow(SaveImportError);
+  });
+
+  test('migrates older files on import', async () => {
+    const player = {
+      playerId: 'old-tester',
+      createdAt: 1,
+      lastSeenAt: 1,
+      coins: 50,
+      diamonds: 0,
+      flavors: [],
+      npc: {},
+      dailySeed: '2024-01-01-old-tester',
+    };
+    const file = {
+      format: SAVE_FILE_FORMAT,
+      version: 1,
+      exportedAt: Date.now(),
+      checksum: computeSaveChecksum(1, player),
+      player,
+    };
+
+    const imported = await importInto(JSON.stringify(file));
+
+    expect(imported.playerId).toBe('old-tester');
+    expect(imported.npc.kai.level).toBe(1);
+    expect(imported.memories).toEqual({});
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Unit tests for the save migration pipeline
+ */
+
+import {
+  runMigrations,
+  SaveMigrationError,
+  SAVE_MIGRATIONS,
+  LEGACY_STORAGE_KEYS,
+  type SaveMigration,
+} from '@/systems/SaveMigrations';
+import { GameStateManager, SCHEMA_VERSION } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+
+const v1Save = () => ({
+  version: 1,
+  savedAt: Date.now(),
+  player: {
+    playerId: 'tester-1',
+    createdAt: 1,
+    lastSeenAt: 1,
+    coins: 420,
+    diamonds: 7,
+    flavors: [{ flavorId: 'sweet_vanilla', level: 3, acquiredAt: 1 }],
+    npc: {
+      aria: { npcId: 'aria', bondXp: 150, level: 2, unreadDmCount: 0, callAvailable: false, scenesSeen: [] },
+    },
+    dailySeed: '2024-01-01-tester-1',
+  },
+});
+
+describe('SaveMigrations', () => {
+  describe('registry', () => {
+    test('has one step per version up to the current schema', () => {
+      for (let version = 1; version < SCHEMA_VERSION; version++) {
+        expect(SAVE_MIGRATIONS.filter(m => m.from === version)).toHaveLength(1);
+      }
+    });
+  });
+
+  describe('runMigrations', () => {
+    test('upgrades a v1 save to the current schema', () => {
+      const migrated = runMigrations(v1Save(), SCHEMA_VERSION);
+
+      expect(migrated.version).toBe(SCHEMA_VERSION);
+      expect(migrated.player.coins).toBe(420);
+      expect(migrated.player.pity).toEqual({});
+      expect(migrated.player.npc.aria.bondXp).toBe(150);
+      expect(migrated.player.npc.kai.level).toBe(1);
+      expect(migrated.player.consumables.sugar).toBe(0);
+    });
+
+    test('runs steps in order', () => {
+      const calls: number[] = [];
+      const steps: SaveMigration[] = [
+        { from: 2, description: 'second', migrate: s => { calls.push(2); return { ...s, version: 3 }; } },
+        { from: 1, description: 'first', migrate: s => { calls.push(1); return { ...s, version: 2 }; } },
+      ];
+
+      const migrated = runMigrations({ version: 1, player: {} }, 3, steps);
+
+      expect(calls).toEqual([1, 2]);
+      expect(migrated.version).toBe(3);
+    });
+
+    test('wraps a throwing step in SaveMigrationError', () => {
+      const steps: SaveMigration[] = [
+        { from: 1, description: 'broken', migrate: () => { throw new Error('boom'); } },
+      ];
+
+      expect(() => runMigrations({ version: 1, player: {} }, 2, steps)).toThrow(SaveMigrationError);
+      expect(() => runMigrations({ version: 1, player: {} }, 2, steps)).toThrow(/v1 → v2.*boom/);
+    });
+
+    test('folds legacy memory and conversation stores into the player', () => {
+      const memory = { id: 'memory_1', content: 'Coffee with Aria', taggedNPCs: ['aria'] };
+      const conversation = { npcId: 'kai', messages: [], lastMessageAt: 5, unreadCount: 0 };
+
+      const migrated = runMigrations(v1Save(), SCHEMA_VERSION, SAVE_MIGRATIONS, {
+        legacy: {
+          [LEGACY_STORAGE_KEYS.memories]: JSON.stringify({ memory_1: memory }),
+          [LEGACY_STORAGE_KEYS.conversations]: JSON.stringify([['kai', conversation]]),
+        },
+      });
+
+      expect(migrated.player.memories.memory_1).toEqual(memory);
+      expect(migrated.player.conversations.kai).toEqual(conversation);
+    });
+
+    test('skips unreadable legacy stores instead of failing', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const migrated = runMigrations(v1Save(), SCHEMA_VERSION, SAVE_MIGRATIONS, {
+        legacy: { [LEGACY_STORAGE_KEYS.memories]: '{not json' },
+      });
+
+      expect(migrated.player.memories).toEqual({});
+      expect(migrated.player.conversations).toEqual({});
+    });
+
+    test('dates a backfilled order board by the local day', () => {
+      // Late evening locally is already the next day in UTC for players west of it
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(new Date(2024, 0, 1, 23, 30).getTime());
+
+      const migrated = runMigrations({ version: 1, player: {} }, 2);
+
+      expect(migrated.player.orderBoard.day).toBe('2024-01-01');
+      nowSpy.mockRestore();
+    });
+
+    test('starts v3 order boards with no flavors used', () => {
+      const board = { day: '2024-01-01', customerOrders: [], npcOrders: [] };
+
+      const migrated = runMigrations({ version: 3, player: { orderBoard: board } }, 4);
+
+      expect(migrated.player.orderBoard).toEqual({ ...board, usedFlavorIds: [] });
+    });
+
+    test('starts v4 saves without an order streak', () => {
+      const migrated = runMigrations({ version: 4, player: {} }, 5);
+
+      expect(migrated.player.orderStreak).toEqual({ current: 0, best: 0 });
+    });
+
+    test('starts v5 NPCs at the beginning of their order chains', () => {
+      const migrated = runMigrations(
+        { version: 5, player: { npc: { kai: { npcId: 'kai', level: 2 }, aria: { npcId: 'aria', chainProgress: { aria_first_batch: 1 } } } } },
+        6
+      );
+
+      expect(migrated.player.npc.kai.chainProgress).toEqual({});
+      expect(migrated.player.npc.aria.chainProgress).toEqual({ aria_first_batch: 1 });
+    });
+
+    test('starts v6 saves with no customer reputation', () => {
+      const migrated = runMigrations({ version: 6, player: {} }, 7);
+
+      expect(migrated.player.customerReputation).toEqual({});
+    });
+
+    test('starts v7 saves with no Flavor Lab recipes discovered', () => {
+      const migrated = runMigrations({ version: 7, player: {} }, 8);
+
+      expect(migrated.player.discoveredRecipes).toEqual([]);
+    });
+
+    test('fails when a step is missing', () => {
+      expect(() => runMigrations({ version: 1, player: {} }, 3, [])).toThrow(SaveMigrationError);
+    });
+  });
+
+  describe('GameStateManager integration', () => {
+    let eventSystem: EventSystem;
+    let gameStateManager: GameStateManager;
+    let storage: MemorySaveStorage;
+
+    beforeEach(() => {
+      eventSystem = new EventSystem();
+      storage = new MemorySaveStorage();
+      gameStateManager = new GameStateManager(eventSystem, storage);
+    });
+
+    afterEach(() => {
+      gameStateManager.destroy();
+      eventSystem.clear();
+    });
+
+    test('migrates an old save on load and keeps a backup', async () => {
+      const raw = JSON.stringify(v1Save());
+      await storage.set('meet-cute-cafe-save', raw);
+
+      const player = await gameStateManager.loadGame();
+
+      expect(player.playerId).toBe('tester-1');
+      expect(player.coins).toBe(420);
+      expect(await storage.get(gameStateManager.getMigrationBackupKey(1))).toBe(raw);
+
+      const stored = JSON.parse((await storage.get('meet-cute-cafe-save'))!);
+      expect(stored.version).toBe(SCHEMA_VERSION);
+    });
+
+    test('drops legacy stores once their data is in the migrated save', async () => {
+      await storage.set('meet-cute-cafe-save', JSON.stringify(v1Save()));
+      await storage.set(
+        LEGACY_STORAGE_KEYS.memories,
+        JSON.stringify({ memory_1: { id: 'memory_1', content: 'Coffee with Aria', taggedNPCs: ['aria'] } })
+      );
+
+      const player = await gameStateManager.loadGame();
+
+      expect(player.memories.memory_1?.content).toBe('Coffee with Aria');
+      expect(await storage.get(LEGACY_STORAGE_KEYS.memories)).toBeNull();
+    });
+
+    test('emits game:error with migration context when a step throws', async () => {
+      await storage.set('meet-cute-cafe-save', JSON.stringify(v1Save()));
+      jest.spyOn(SAVE_MIGRATIONS[0]!, 'migrate').mockImplementationOnce(() => {
+        throw new Error('unreadable npc block');
+      });
+
+      const errorListener = jest.fn();
+      eventSystem.on('game:error', errorListener);
+
+      await gameStateManager.loadGame();
+
+      expect(errorListener).toHaveBeenCalledWith(
+        expect.objectContaining({ context: expect.stringContaining('migration v1→v2') })
+      );
+      expect(await storage.get(gameStateManager.getMigrationBackupKey(1))).not.toBeNull();
+    });
+
+    test('leaves the stored save byte-for-byte intact when a step throws', async () => {
+      const raw = JSON.stringify(v1Save());
+      await storage.set('meet-cute-cafe-save', raw);
+      jest.spyOn(SAVE_MIGRATIONS[0]!, 'migrate').mockImplementationOnce(() => {
+        throw new Error('unreadable npc block');
+      });
+
+      const player = await gameStateManager.loadGame();
+      // Playing on doesn't write the stand-in player over the save either
+      gameStateManager.addCoins(5);
+      await gameStateManager.flushPendingSave();
+
+      expect(player.playerId).not.toBe('tester-1');
+      expect(await storage.get('meet-cute-cafe-save')).toBe(raw);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for save storage backends
+ */
+
+import 'fake-indexeddb/auto';
+import { deserialize, serialize } from 'v8';
+import {
+  IndexedDBSaveStorage,
+  LocalSaveStorage,
+  MemorySaveStorage,
+  type SaveStorage,
+} from '@/systems/SaveStorage';
+
+// jsdom hides structuredClone, which fake-indexeddb copies stored values with
+globalThis.structuredClone ??= value => deserialize(serialize(value));
+
+/**
+ * Web Storage area backed by a Map, handed to LocalSaveStorage in place of localStorage
+ */
+class MapStorage implements Storage {
+  [name: string]: unknown;
+  private items = new Map<string, string>();
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+}
+
+// Every IndexedDB test opens its own database, so nothing leaks between them
+let databaseCount = 0;
+const freshDatabaseName = () => `meet-cute-cafe-test-${++databaseCount}`;
+
+describe.each<[string, () => SaveStorage]>([
+  ['MemorySaveStorage', () => new MemorySaveStorage()],
+  ['LocalSaveStorage', () => new LocalSaveStorage(new MapStorage())],
+  ['IndexedDBSaveStorage', () => new IndexedDBSaveStorage(freshDatabaseName())],
+])('%s', (_name, createStorage) => {
+  let storage: SaveStorage;
+
+  beforeEach(() => {
+    storage = createStorage();
+  });
+
+  test('returns null for missing keys', async () => {
+    expect(await storage.get('missing')).toBeNull();
+  });
+
+  test('stores and retrieves values', async () => {
+    await storage.set('slot', '{"coins":10}');
+    expect(await storage.get('slot')).toBe('{"coins":10}');
+  });
+
+  test('removes values', async () => {
+    await storage.set('slot', 'data');
+    await storage.remove('slot');
+    expect(await storage.get('slot')).toBeNull();
+  });
+
+  test('lists keys by prefix', async () => {
+    await storage.set('save:a', '1');
+    await storage.set('save:b', '2');
+    await storage.set('other', '3');
+
+    expect((await storage.list('save:')).sort()).toEqual(['save:a', 'save:b']);
+  });
+});
+
+describe('IndexedDBSaveStorage legacy keys', () => {
+  let legacy: MemorySaveStorage;
+  let storage: IndexedDBSaveStorage;
+
+  beforeEach(() => {
+    legacy = new MemorySaveStorage();
+    storage = new IndexedDBSaveStorage(freshDatabaseName(), legacy);
+  });
+
+  test('moves a legacy value into the database on first read', async () => {
+    await legacy.set('meet-cute-cafe-save', '{"version":1}');
+
+    expect(await storage.get('meet-cute-cafe-save')).toBe('{"version":1}');
+    expect(await legacy.get('meet-cute-cafe-save')).toBeNull();
+    // Still there once the legacy copy is gone
+    expect(await storage.get('meet-cute-cafe-save')).toBe('{"version":1}');
+  });
+
+  test('prefers the database over a stale legacy copy', async () => {
+    await storage.set('meet-cute-cafe-save', 'new');
+    await legacy.set('meet-cute-cafe-save', 'old');
+
+    expect(await storage.get('meet-cute-cafe-save')).toBe('new');
+  });
+
+  test('lists legacy keys that have not been moved yet', async () => {
+    await storage.set('meet-cute-cafe-save', '1');
+    await legacy.set('meet-cute-cafe-save-backup-v1', '2');
+    await legacy.set('meet-cute-cafe-save', '3');
+
+    expect((await storage.list('meet-cute-cafe-save')).sort()).toEqual([
+      'meet-cute-cafe-save',
+      'meet-cute-cafe-save-backup-v1',
+    ]);
+  });
+
+  test('removes a key from both stores', async () => {
+    await storage.set('meet-cute-cafe-save', 'new');
+    await legacy.set('meet-cute-cafe-save', 'old');
+
+    await storage.remove('meet-cute-cafe-save');
+
+    expect(await storage.get('meet-cute-cafe-save')).toBeNull();
+    expect(await legacy.get('meet-cute-cafe-save')).toBeNull();
+  });
+});
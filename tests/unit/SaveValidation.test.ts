@@ -0,0 +1,202 @@
+/**
+ * Unit tests for save validation and repair
+ */
+
+import {
+  validatePlayer,
+  validateOrder,
+  validateConversation,
+  validateMemoryRecord,
+  SaveValidationError,
+} from '@/systems/SaveValidation';
+import { GameStateManager, SCHEMA_VERSION } from '@/systems/GameStateManager';
+import { EventSystem } from '@/systems/EventSystem';
+import { MemorySaveStorage } from '@/systems/SaveStorage';
+
+const freshPlayer = () => {
+  const gameState = new GameStateManager(new EventSystem(), new MemorySaveStorage());
+  const player = gameState.createNewPlayer();
+  gameState.destroy();
+  return JSON.parse(JSON.stringify(player));
+};
+
+describe('SaveValidation', () => {
+  describe('validatePlayer', () => {
+    test('passes a fresh player through without repairs', () => {
+      const player = freshPlayer();
+
+      const { value, repairs } = validatePlayer(player);
+
+      expect(repairs).toEqual([]);
+      expect(value).toEqual(player);
+    });
+
+    test('rejects a player without an id', () => {
+      expect(() => validatePlayer({ coins: 5 })).toThrow(SaveValidationError);
+    });
+
+    test('repairs negative currencies', () => {
+      const player = { ...freshPlayer(), coins: -50, diamonds: 'lots' };
+
+      const { value, repairs } = validatePlayer(player);
+
+      expect(value.coins).toBe(0);
+      expect(value.diamonds).toBe(0);
+      expect(repairs.map(r => r.path)).toEqual(['player.coins', 'player.diamonds']);
+    });
+
+    test('recreates missing npc entries', () => {
+      const player = freshPlayer();
+      delete player.npc.kai;
+
+      const { value, repairs } = validatePlayer(player);
+
+      expect(value.npc.kai).toMatchObject({ npcId: 'kai', bondXp: 0, level: 1 });
+      expect(repairs).toEqual([
+        expect.objectContaining({ path: 'player.npc.kai', fix: 'created at bond level 1' }),
+      ]);
+    });
+
+    test('drops order chain progress that is not a whole step count', () => {
+      const player = freshPlayer();
+      player.npc.kai.chainProgress = { kai_bitter_flight: 2, broken: -1 };
+
+      const { value, repairs } = validatePlayer(player);
+
+      expect(value.npc.kai.chainProgress).toEqual({ kai_bitter_flight: 2 });
+      expect(repairs.map(r => r.path)).toEqual(['player.npc.kai.chainProgress.broken']);
+    });
+
+    test('warns about unknown flavor ids when the catalog is given but keeps them', () => {
+      const player = freshPlayer();
+      player.flavors.push({ flavorId: 'starter_sweet', level: 1, acquiredAt: 1 });
+
+      const known = player.flavors.map((f: { flavorId: string }) => f.flavorId).filter((id: string) => id !== 'starter_sweet');
+      const { value, repairs, warnings } = validatePlayer(player, { knownFlavorIds: known });
+
+      expect(value.flavors.map(f => f.flavorId)).toContain('starter_sweet');
+      expect(repairs).toEqual([]);
+      expect(warnings).toEqual([{ path: `player.flavors[${player.flavors.length - 1}]`, problem: 'unknown flavor id "starter_sweet"' }]);
+    });
+
+    test('merges duplicate flavors keeping the highest level', () => {
+      const player = freshPlayer();
+      player.flavors = [
+        { flavorId: 'sweet_vanilla', level: 2, acquiredAt: 1 },
+        { flavorId: 'sweet_vanilla', level: 4, acquiredAt: 2 },
+      ];
+
+      const { value } = validatePlayer(player);
+
+      expect(value.flavors).toEqual([{ flavorId: 'sweet_vanilla', level: 4, acquiredAt: 2 }]);
+    });
+  });
+
+  describe('record validators', () => {
+    test('drops orders with unknown affinities', () => {
+      const { value, repairs } = validateOrder({
+        orderId: 'o1',
+        kind: 'Customer',
+        createdAt: 1,
+        expiresAt: 2,
+        requirements: { slots: [{ affinity: 'Umami' }] },
+        rewards: { coins: 10 },
+        status: 'available',
+      });
+
+      expect(value).toBeNull();
+      expect(repairs).toHaveLength(1);
+    });
+
+    test('recounts unread messages in a conversation', () => {
+      const { value, repairs } = validateConversation(
+        {
+          npcId: 'aria',
+          lastMessageAt: 0,
+          unreadCount: 5,
+          messages: [
+            { id: 'msg_1', senderId: 'aria', content: 'Hi!', timestamp: 10, read: false },
+            { id: 'msg_2', senderId: 'kai', content: 'Wrong thread', timestamp: 11, read: false },
+          ],
+        },
+        'aria'
+      );
+
+      expect(value?.messages).toHaveLength(1);
+      expect(value?.unreadCount).toBe(1);
+      expect(value?.lastMessageAt).toBe(10);
+      expect(repairs).toHaveLength(2);
+    });
+
+    test('untags unknown NPCs from memories', () => {
+      const { value } = validateMemoryRecord({
+        id: 'memory_1',
+        content: 'A quiet moment',
+        taggedNPCs: ['aria', 'zed'],
+        taggedPets: [],
+        mood: 'cozy',
+        location: 'Café Counter',
+        timestamp: 1,
+        isPublished: false,
+        viewed: false,
+        favorited: false,
+      });
+
+      expect(value?.taggedNPCs).toEqual(['aria']);
+    });
+  });
+
+  describe('GameStateManager integration', () => {
+    test('repairs and reports problems on load', async () => {
+      const eventSystem = new EventSystem();
+      const storage = new MemorySaveStorage();
+      const player = { ...freshPlayer(), tokens: -3 };
+      await storage.set('meet-cute-cafe-save', JSON.stringify({ version: 3, player, savedAt: 1 }));
+
+      const repairedListener = jest.fn();
+      eventSystem.on('game:repaired', repairedListener);
+
+      const gameState = new GameStateManager(eventSystem, storage);
+      const loaded = await gameState.loadGame();
+
+      expect(loaded.tokens).toBe(0);
+      expect(gameState.getLastRepairs()).toEqual([
+        expect.objectContaining({ path: 'player.tokens' }),
+      ]);
+      expect(repairedListener).toHaveBeenCalledWith(
+        expect.objectContaining({ playerId: player.playerId })
+      );
+      expect(JSON.parse((await storage.get('meet-cute-cafe-save'))!).player.tokens).toBe(0);
+
+      gameState.destroy();
+    });
+
+    test('loads a save with unknown flavors without repairing or re-saving it', async () => {
+      const eventSystem = new EventSystem();
+      const storage = new MemorySaveStorage();
+      const player = freshPlayer();
+      const known = player.flavors.map((f: { flavorId: string }) => f.flavorId);
+      player.flavors.push({ flavorId: 'retired_flavor', level: 3, acquiredAt: 1 });
+      const raw = JSON.stringify({ version: SCHEMA_VERSION, player, savedAt: 1 });
+      await storage.set('meet-cute-cafe-save', raw);
+
+      const repairedListener = jest.fn();
+      eventSystem.on('game:repaired', repairedListener);
+
+      const gameState = new GameStateManager(eventSystem, storage);
+      gameState.setKnownFlavorIds(known);
+      const loaded = await gameState.loadGame();
+      await gameState.flushPendingSave();
+
+      expect(loaded.flavors.map(f => f.flavorId)).toContain('retired_flavor');
+      expect(gameState.getLastRepairs()).toEqual([]);
+      expect(gameState.getLastWarnings()).toEqual([
+        expect.objectContaining({ problem: 'unknown flavor id "retired_flavor"' }),
+      ]);
+      expect(repairedListener).not.toHaveBeenCalled();
+      expect(await storage.get('meet-cute-cafe-save')).toBe(raw);
+
+      gameState.destroy();
+    });
+  });
+});